@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { findRuleViolations } from '../architecture-rules';
+import { parseConfig } from '../config';
+import { graphOf } from './graph-fixtures';
+
+const rules = parseConfig(`
+layers:
+  - name: ui
+    paths: src/ui
+  - name: services
+    paths: src/services/**
+  - name: domain
+    paths: src/domain/**
+forbidden:
+  - from: src/domain/**
+    to: [src/ui/**, src/legacy/**]
+    reason: Domain code must stay framework-free
+`, '.circular-deps.yml');
+
+describe('findRuleViolations', () => {
+  it('should allow dependencies on lower layers, the same layer and unlayered files', () => {
+    const graph = graphOf([
+      ['src/ui/page.ts', 'src/services/user.ts'],
+      ['src/ui/page.ts', 'src/domain/user.ts'],
+      ['src/services/user.ts', 'src/services/auth.ts'],
+      ['src/domain/user.ts', 'src/utils/id.ts'],
+    ]);
+
+    expect(findRuleViolations(graph, rules)).toEqual([]);
+  });
+
+  it('should report dependencies on higher layers with their import sites', () => {
+    const graph = graphOf([['src/domain/user.ts', 'src/services/user.ts', { line: 4, specifier: '../services/user' }]]);
+
+    expect(findRuleViolations(graph, rules)).toEqual([{
+      id: 'layer:src/domain/user.ts->src/services/user.ts',
+      rule: 'layer domain must not depend on services',
+      edge: {
+        from: 'src/domain/user.ts',
+        to: 'src/services/user.ts',
+        kind: 'runtime',
+        imports: [{ line: 4, specifier: '../services/user', relationshipType: 'IMPORTS', kind: 'runtime' }],
+      },
+    }]);
+  });
+
+  it('should report forbidden dependencies next to layer violations', () => {
+    const graph = graphOf([
+      ['src/domain/user.ts', 'src/ui/format.ts'],
+      ['src/domain/user.ts', 'src/legacy/db.ts'],
+    ]);
+
+    const violations = findRuleViolations(graph, rules);
+
+    expect(violations.map(violation => violation.id)).toEqual([
+      'forbidden:src/domain/user.ts->src/legacy/db.ts',
+      'layer:src/domain/user.ts->src/ui/format.ts',
+      'forbidden:src/domain/user.ts->src/ui/format.ts',
+    ]);
+    expect(violations[0].rule).toBe('`src/domain/**` must not import `src/ui/**`, `src/legacy/**`');
+    expect(violations[0].reason).toBe('Domain code must stay framework-free');
+  });
+});
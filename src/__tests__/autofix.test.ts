@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { findCycleFixes, formatFixPatch } from '../autofix';
+import { buildDependencyGraph, detectCycles } from '../circular-deps';
+import { buildLocalGraph } from '../local-graph';
+
+function fixesOf(files: Record<string, string>) {
+  const sources = new Map(Object.entries(files));
+  const { nodes, relationships } = buildLocalGraph(sources);
+  const { cycles } = detectCycles(buildDependencyGraph(nodes, relationships), { enumerateAllCycles: true });
+  return { fixes: findCycleFixes(cycles, { files: new Set(sources.keys()), sources }), sources };
+}
+
+describe('findCycleFixes', () => {
+  it('should turn value imports only used as types into import type', () => {
+    const { fixes } = fixesOf({
+      'src/user.ts': "import { Post, type Draft } from './post';\nexport class User {\n  posts: Post[] = [];\n  draft?: Draft;\n}\n",
+      'src/post.ts': "import { User } from './user';\nexport class Post {\n  author = new User();\n}\nexport type Draft = {};\n",
+    });
+
+    expect(fixes).toEqual([{
+      id: 'src/user.ts->src/post.ts',
+      from: 'src/user.ts',
+      to: 'src/post.ts',
+      cycles: ['src/post.ts->src/user.ts'],
+      edits: [{
+        kind: 'type-only-import',
+        startLine: 1,
+        endLine: 1,
+        original: "import { Post, type Draft } from './post';",
+        replacement: "import type { Post, Draft } from './post';",
+      }],
+    }]);
+  });
+
+  it('should import from the defining files instead of a barrel re-exporting a sibling', () => {
+    const { fixes } = fixesOf({
+      'src/models/index.ts': "export { User } from './user';\nexport * from './post';\nexport { default as Tag } from './tag';\n",
+      'src/models/user.ts': "import { Post, Tag as Label } from '.';\nexport class User {\n  posts = [new Post(), new Label()];\n}\n",
+      'src/models/post.ts': 'export class Post {}\n',
+      'src/models/tag.ts': 'export default class Tag {}\n',
+    });
+
+    expect(fixes.map(fix => fix.id)).toEqual(['src/models/user.ts->src/models/index.ts']);
+    expect(fixes[0].edits[0]).toMatchObject({
+      kind: 'bypass-barrel',
+      replacement: "import { Post } from './post';\nimport Label from './tag';",
+    });
+  });
+
+  it('should keep the index of a directory that a file of the same name would shadow', () => {
+    const { fixes } = fixesOf({
+      'src/models/index.ts': "export { User } from './user';\nexport { Post } from './post/index';\n",
+      'src/models/user.ts': "import { Post } from '.';\nexport class User {\n  posts = [new Post()];\n}\n",
+      'src/models/post.ts': 'export const legacy = true;\n',
+      'src/models/post/index.ts': 'export class Post {}\n',
+    });
+
+    expect(fixes[0].edits[0]).toMatchObject({
+      kind: 'bypass-barrel',
+      replacement: "import { Post } from './post/index';",
+    });
+  });
+
+  it('should skip dependencies whose bindings are used as values or that are imported in other ways too', () => {
+    const { fixes } = fixesOf({
+      'src/a.ts': "import { B } from './b';\nexport const a = new B();\n",
+      'src/b.ts': "import type { A } from './a';\nimport { a } from './a';\nexport class B {}\nexport const b = a;\n",
+      'src/c.ts': "import { D } from './d';\nimport './d';\nexport type C = D;\n",
+      'src/d.ts': "import { c } from './c';\nexport class D {}\nexport const d = c;\n",
+    });
+
+    expect(fixes).toEqual([]);
+  });
+});
+
+describe('formatFixPatch', () => {
+  it('should write a patch that git apply accepts', async () => {
+    const files = {
+      'src/user.ts': "import { Post } from './post';\n\nexport class User {\n  posts: Post[] = [];\n}\n",
+      'src/post.ts': "import { User } from './user';\nexport const author = new User();\n",
+    };
+    const { fixes, sources } = fixesOf(files);
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-autofix-'));
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+      await fs.writeFile(path.join(repo, file), content);
+    }
+    execSync('git init -q', { cwd: repo });
+
+    const patch = formatFixPatch(fixes, sources);
+    await fs.writeFile(path.join(repo, 'fix.patch'), patch);
+    execSync('git apply fix.patch', { cwd: repo });
+
+    expect(patch).toContain('@@ -1,4 +1,4 @@');
+    expect(await fs.readFile(path.join(repo, 'src/user.ts'), 'utf8')).toBe(
+      "import type { Post } from './post';\n\nexport class User {\n  posts: Post[] = [];\n}\n"
+    );
+    expect(formatFixPatch([], sources)).toBe('');
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('should keep missing final newlines and CRLF line endings', async () => {
+    const files = {
+      'src/a.ts': "import { B } from './b';\nexport class A { b?: B }",
+      'src/b.ts': "import { A } from './a';\nexport const a = new A();\n",
+      'src/c.ts': "import { D } from './d';\r\nexport class C { d?: D }\r\n",
+      'src/d.ts': "import { C } from './c';\r\nexport const c = new C();\r\n",
+    };
+    const { fixes, sources } = fixesOf(files);
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-autofix-'));
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+      await fs.writeFile(path.join(repo, file), content);
+    }
+    execSync('git init -q', { cwd: repo });
+
+    const patch = formatFixPatch(fixes, sources);
+    await fs.writeFile(path.join(repo, 'fix.patch'), patch);
+    execSync('git apply --check fix.patch', { cwd: repo });
+    execSync('git apply fix.patch', { cwd: repo });
+
+    expect(patch).toContain('\\ No newline at end of file');
+    expect(await fs.readFile(path.join(repo, 'src/a.ts'), 'utf8')).toBe(
+      "import type { B } from './b';\nexport class A { b?: B }"
+    );
+    expect(await fs.readFile(path.join(repo, 'src/c.ts'), 'utf8')).toBe(
+      "import type { D } from './d';\r\nexport class C { d?: D }\r\n"
+    );
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applyBaseline,
+  createBaseline,
+  loadBaseline,
+  parseBaseline,
+  writeBaseline,
+} from '../baseline';
+import { CircularDependencyResult } from '../circular-deps';
+
+const cycleAB: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+const cycleCD: CircularDependencyResult = { id: 'src/c.ts->src/d.ts', cycle: ['src/c.ts', 'src/d.ts'], length: 2 };
+
+describe('createBaseline', () => {
+  it('should store sorted, unique cycle ids', () => {
+    const baseline = createBaseline([cycleCD, cycleAB, cycleCD]);
+
+    expect(baseline).toEqual({ version: 1, cycles: [cycleAB.id, cycleCD.id] });
+  });
+});
+
+describe('parseBaseline', () => {
+  it('should reject files with the wrong shape', () => {
+    expect(() => parseBaseline('{"cycles": []}')).toThrow('Invalid baseline file');
+    expect(() => parseBaseline('{"version": 1, "cycles": [1]}')).toThrow('string id');
+  });
+});
+
+describe('applyBaseline', () => {
+  it('should separate known, new and removable cycles', () => {
+    const result = applyBaseline([cycleAB, cycleCD], {
+      version: 1,
+      cycles: [cycleAB.id, 'src/x.ts->src/y.ts'],
+    });
+
+    expect(result.known).toEqual([cycleAB]);
+    expect(result.introduced).toEqual([cycleCD]);
+    expect(result.removable).toEqual(['src/x.ts->src/y.ts']);
+  });
+});
+
+describe('loadBaseline', () => {
+  it('should return undefined when the file is missing', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-baseline-'));
+
+    expect(await loadBaseline(path.join(dir, 'missing.json'))).toBeUndefined();
+  });
+
+  it('should round-trip a written baseline', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-baseline-'));
+    const filePath = path.join(dir, '.circular-deps-baseline.json');
+
+    await writeBaseline(filePath, createBaseline([cycleAB]));
+
+    expect(await loadBaseline(filePath)).toEqual({ version: 1, cycles: [cycleAB.id] });
+  });
+});
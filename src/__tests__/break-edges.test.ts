@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { annotateBreakEdges, getCycleEdges, recommendBreakEdges } from '../break-edges';
+import { buildDependencyGraph, CircularDependencyResult, detectCycles } from '../circular-deps';
+import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+
+function cycleOf(...files: string[]): CircularDependencyResult {
+  return { id: files.join('->'), cycle: files, length: files.length };
+}
+
+describe('getCycleEdges', () => {
+  it('should include the closing edge', () => {
+    expect(getCycleEdges(cycleOf('a', 'b', 'c'))).toEqual([
+      { from: 'a', to: 'b' },
+      { from: 'b', to: 'c' },
+      { from: 'c', to: 'a' },
+    ]);
+  });
+});
+
+describe('recommendBreakEdges', () => {
+  it('should rank the edge shared by most cycles first', () => {
+    const cycles = [
+      cycleOf('db', 'user'),
+      cycleOf('db', 'user', 'post'),
+      cycleOf('db', 'user', 'session'),
+      cycleOf('x', 'y'),
+    ];
+
+    const result = recommendBreakEdges(cycles);
+
+    expect(result.edges[0]).toEqual({ from: 'db', to: 'user', cycleCount: 3, newlyBroken: 3 });
+    expect(result.edges).toHaveLength(2);
+    expect(result.brokenCycles).toBe(4);
+    expect(result.totalCycles).toBe(4);
+  });
+
+  it('should respect the maximum number of edges', () => {
+    const result = recommendBreakEdges([cycleOf('a', 'b'), cycleOf('c', 'd')], { maxEdges: 1 });
+
+    expect(result.edges).toHaveLength(1);
+    expect(result.brokenCycles).toBe(1);
+  });
+
+  it('should break every enumerated cycle, including reverse ones', () => {
+    const nodes: CodeGraphNode[] = ['a', 'b', 'c'].map(name => ({
+      id: name,
+      labels: ['File'],
+      properties: { filePath: `src/${name}.ts` },
+    }));
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a' },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'c' },
+      { id: 'r4', type: 'imports', startNode: 'c', endNode: 'b' },
+      { id: 'r5', type: 'imports', startNode: 'a', endNode: 'c' },
+      { id: 'r6', type: 'imports', startNode: 'c', endNode: 'a' },
+    ];
+    const { cycles } = detectCycles(buildDependencyGraph(nodes, relationships), { enumerateAllCycles: true });
+
+    const result = recommendBreakEdges(cycles);
+
+    expect(result.totalCycles).toBe(5);
+    expect(result.brokenCycles).toBe(5);
+    for (const cycle of cycles) {
+      expect(getCycleEdges(cycle).some(edge => result.edges.some(
+        recommended => recommended.from === edge.from && recommended.to === edge.to
+      ))).toBe(true);
+    }
+  });
+
+  it('should handle no cycles', () => {
+    expect(recommendBreakEdges([])).toEqual({ edges: [], totalCycles: 0, brokenCycles: 0 });
+  });
+});
+
+describe('annotateBreakEdges', () => {
+  it('should attach the best ranked edge of each cycle', () => {
+    const cycles = [cycleOf('db', 'user'), cycleOf('db', 'user', 'post')];
+    const recommendations = recommendBreakEdges(cycles);
+
+    const annotated = annotateBreakEdges(cycles, recommendations);
+
+    expect(annotated[0].breakEdge).toEqual({ from: 'db', to: 'user' });
+    expect(annotated[1].breakEdge).toEqual({ from: 'db', to: 'user' });
+  });
+});
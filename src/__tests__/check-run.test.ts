@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_SUMMARY_LENGTH,
+  createCycleAnnotations,
+  createViolationAnnotations,
+  listChangedFiles,
+  publishCheckRun,
+} from '../check-run';
+import { CircularDependencyResult, RuleViolation } from '../circular-deps';
+
+function cycleOf(files: string[], lines: number[]): CircularDependencyResult {
+  return {
+    id: files.join('->'),
+    cycle: files,
+    length: files.length,
+    edges: files.map((from, index) => ({
+      from,
+      to: files[(index + 1) % files.length],
+      kind: 'runtime',
+      imports: [{ line: lines[index], relationshipType: 'IMPORTS', kind: 'runtime' }],
+    })),
+  };
+}
+
+describe('createCycleAnnotations', () => {
+  const first = cycleOf(['src/a.ts', 'src/b.ts'], [3, 8]);
+  const second = cycleOf(['src/a.ts', 'src/b.ts', 'src/c.ts'], [3, 9, 1]);
+
+  it('should annotate each import line once, listing every cycle through it', () => {
+    const annotations = createCycleAnnotations([first, second], new Set([first.id]));
+
+    expect(annotations.map(annotation => `${annotation.path}:${annotation.start_line}`)).toEqual([
+      'src/a.ts:3',
+      'src/b.ts:8',
+      'src/b.ts:9',
+      'src/c.ts:1',
+    ]);
+    expect(annotations[0].annotation_level).toBe('failure');
+    expect(annotations[0].message).toContain('part of 2 circular dependencies');
+    expect(annotations[2].annotation_level).toBe('warning');
+  });
+
+  it('should only annotate changed files', () => {
+    const annotations = createCycleAnnotations([first, second], new Set(), new Set(['src/b.ts']));
+
+    expect(annotations.map(annotation => annotation.path)).toEqual(['src/b.ts', 'src/b.ts']);
+    expect(annotations[0].title).toBe('Circular dependency: imports src/a.ts');
+  });
+
+  it('should fall back to the first line when the graph has no line numbers', () => {
+    const [annotation] = createCycleAnnotations([{ id: 'x->y', cycle: ['x', 'y'], length: 2 }], new Set(), new Set(['x']));
+
+    expect(annotation).toMatchObject({ path: 'x', start_line: 1, end_line: 1 });
+  });
+
+  it('should annotate the file with the import when a cycle runs between Go packages', () => {
+    const cycle: CircularDependencyResult = {
+      id: 'internal/db->internal/orders',
+      cycle: ['internal/db', 'internal/orders'],
+      length: 2,
+      edges: [
+        {
+          from: 'internal/db',
+          to: 'internal/orders',
+          kind: 'runtime',
+          imports: [{ line: 3, relationshipType: 'IMPORTS', kind: 'runtime', file: 'internal/db/conn.go' }],
+        },
+        { from: 'internal/orders', to: 'internal/db', kind: 'runtime', imports: [] },
+      ],
+    };
+
+    const annotations = createCycleAnnotations([cycle], new Set(), new Set(['internal/db/conn.go']));
+
+    expect(annotations).toHaveLength(1);
+    expect(annotations[0]).toMatchObject({ path: 'internal/db/conn.go', start_line: 3 });
+    expect(createCycleAnnotations([cycle], new Set()).map(annotation => annotation.path)).toEqual([
+      'internal/db/conn.go',
+      'internal/orders',
+    ]);
+  });
+});
+
+describe('createViolationAnnotations', () => {
+  const violation: RuleViolation = {
+    id: 'forbidden:src/domain/user.ts->src/ui/format.ts',
+    rule: '`src/domain/**` must not import `src/ui/**`',
+    reason: 'Domain code must stay framework-free',
+    edge: {
+      from: 'src/domain/user.ts',
+      to: 'src/ui/format.ts',
+      kind: 'runtime',
+      imports: [{ line: 6, relationshipType: 'IMPORTS', kind: 'runtime' }],
+    },
+  };
+
+  it('should fail at the offending import with the rule and reason', () => {
+    expect(createViolationAnnotations([violation])).toEqual([{
+      path: 'src/domain/user.ts',
+      start_line: 6,
+      end_line: 6,
+      annotation_level: 'failure',
+      title: 'Forbidden dependency: imports src/ui/format.ts',
+      message: 'Breaks `src/domain/**` must not import `src/ui/**`: Domain code must stay framework-free',
+    }]);
+  });
+
+  it('should only annotate changed files', () => {
+    expect(createViolationAnnotations([violation], new Set(['src/ui/format.ts']))).toEqual([]);
+  });
+});
+
+type Octokit = Parameters<typeof publishCheckRun>[0];
+
+function fakeOctokit(): Octokit {
+  const octokit = {
+    paginate: vi.fn(async () => [
+      { filename: 'src/a.ts', status: 'modified' },
+      { filename: 'src/old.ts', status: 'removed' },
+    ]),
+    rest: {
+      pulls: { listFiles: vi.fn() },
+      checks: {
+        create: vi.fn(async () => ({ data: { id: 42 } })),
+        update: vi.fn(async () => ({})),
+      },
+    },
+  };
+  return octokit as unknown as Octokit;
+}
+
+describe('listChangedFiles', () => {
+  it('should skip removed files', async () => {
+    expect(await listChangedFiles(fakeOctokit(), 'acme', 'app', 7)).toEqual(new Set(['src/a.ts']));
+  });
+});
+
+describe('publishCheckRun', () => {
+  it('should cut the summary off at the size limit of the Checks API', async () => {
+    const octokit = fakeOctokit();
+    const report = {
+      owner: 'acme',
+      repo: 'app',
+      headSha: 'abc',
+      name: 'Circular dependencies',
+      conclusion: 'failure' as const,
+      title: '400 circular dependencies',
+      annotations: [],
+    };
+
+    await publishCheckRun(octokit, { ...report, summary: 'x'.repeat(100000) });
+    await publishCheckRun(octokit, { ...report, summary: 'y'.repeat(MAX_SUMMARY_LENGTH) });
+
+    const [large, exact] = vi.mocked(octokit.rest.checks.create).mock.calls.map(([params]) => params?.output?.summary);
+    expect(large).toHaveLength(MAX_SUMMARY_LENGTH);
+    expect(large).toContain('_The summary was cut off at the size limit of the Checks API._');
+    expect(exact).toBe('y'.repeat(MAX_SUMMARY_LENGTH));
+    const updates = vi.mocked(octokit.rest.checks.update).mock.calls.map(([params]) => params?.output?.summary.length ?? 0);
+    expect(Math.max(...updates)).toBeLessThanOrEqual(MAX_SUMMARY_LENGTH);
+  });
+
+  it('should send annotations in batches of 50 and complete with the conclusion', async () => {
+    const octokit = fakeOctokit();
+    const annotations = Array.from({ length: 120 }, (_, index) => ({
+      path: 'src/a.ts',
+      start_line: index + 1,
+      end_line: index + 1,
+      annotation_level: 'warning' as const,
+      title: 'Circular dependency',
+      message: 'cycle',
+    }));
+
+    const id = await publishCheckRun(octokit, {
+      owner: 'acme',
+      repo: 'app',
+      headSha: 'abc',
+      name: 'Circular dependencies',
+      conclusion: 'failure',
+      title: '3 circular dependencies',
+      summary: 'summary',
+      annotations,
+    });
+
+    expect(id).toBe(42);
+    expect(vi.mocked(octokit.rest.checks.create).mock.calls[0][0]?.output?.annotations).toHaveLength(50);
+    const updates = vi.mocked(octokit.rest.checks.update).mock.calls.map(([params]) => params);
+    expect(updates.map(update => update?.output?.annotations?.length)).toEqual([50, 20, undefined]);
+    expect(updates[2]).toMatchObject({ check_run_id: 42, status: 'completed', conclusion: 'failure' });
+  });
+});
@@ -1,11 +1,21 @@
 import { describe, it, expect } from 'vitest';
 import {
+  buildDependencyGraph,
+  classifyRelationship,
+  compareCircularDependencies,
+  detectCycles,
   findCircularDependencies,
+  findTangles,
   formatPrComment,
+  getCycleId,
+  getWeakestKind,
+  MAX_COMMENT_LENGTH,
+  parseEdgeKinds,
   shouldIgnoreFile,
   CircularDependencyResult,
 } from '../circular-deps';
 import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+import { GRAPH_SCHEMAS } from '../graph-schema';
 
 describe('shouldIgnoreFile', () => {
   it('should ignore node_modules', () => {
@@ -27,6 +37,19 @@ describe('shouldIgnoreFile', () => {
     expect(shouldIgnoreFile('src/generated/api.ts', ['**/generated/**'])).toBe(true);
     expect(shouldIgnoreFile('src/utils.ts', ['**/generated/**'])).toBe(false);
   });
+
+  it('should let include patterns opt back in to default excludes', () => {
+    const filter = { include: ['src/**', 'build/**'] };
+
+    expect(shouldIgnoreFile('build/tasks/release.ts', [], filter)).toBe(false);
+    expect(shouldIgnoreFile('scripts/deploy.ts', [], filter)).toBe(true);
+    expect(shouldIgnoreFile('build/tasks/release.ts', ['build/tasks/**'], filter)).toBe(true);
+  });
+
+  it('should skip the default excludes when they are disabled', () => {
+    expect(shouldIgnoreFile('build/main.js', [], { defaultExcludes: false })).toBe(false);
+    expect(shouldIgnoreFile('build/main.js', ['build/**'], { defaultExcludes: false })).toBe(true);
+  });
 });
 
 describe('findCircularDependencies', () => {
@@ -100,6 +123,106 @@ describe('findCircularDependencies', () => {
     expect(cycles).toHaveLength(1);
   });
 
+  it('should keep the direction of the imports in the cycle', () => {
+    const nodes: CodeGraphNode[] = ['a', 'b', 'c'].map(name => ({
+      id: name,
+      labels: ['File'],
+      properties: { filePath: `src/${name}.ts` },
+    }));
+
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'c' },
+      { id: 'r2', type: 'imports', startNode: 'c', endNode: 'b' },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'a' },
+    ];
+
+    const cycles = findCircularDependencies(nodes, relationships);
+
+    expect(cycles[0].cycle).toEqual(['src/a.ts', 'src/c.ts', 'src/b.ts']);
+    expect(cycles[0].id).toBe('src/a.ts->src/b.ts->src/c.ts');
+  });
+
+  it('should give a cycle the same id in any rotation and direction', () => {
+    const id = 'src/a.ts->src/b.ts->src/c.ts';
+
+    expect(getCycleId(['src/b.ts', 'src/c.ts', 'src/a.ts'])).toBe(id);
+    expect(getCycleId(['src/c.ts', 'src/b.ts', 'src/a.ts', 'src/c.ts'])).toBe(id);
+    expect(getCycleId(['src/b.ts', 'src/a.ts'])).toBe('src/a.ts->src/b.ts');
+  });
+
+  it('should attach import sites to every edge of a cycle', () => {
+    const nodes: CodeGraphNode[] = [
+      { id: 'a', labels: ['File'], properties: { filePath: 'src/a.ts' } },
+      { id: 'b', labels: ['File'], properties: { filePath: 'src/b.ts' } },
+    ];
+
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b', properties: { line: 3, specifier: './b' } },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a', properties: { startLine: 7, importPath: './a' } },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'a', properties: { startLine: 1, importPath: './a' } },
+    ];
+
+    const cycles = findCircularDependencies(nodes, relationships);
+
+    expect(cycles[0].edges).toEqual([
+      {
+        from: 'src/a.ts',
+        to: 'src/b.ts',
+        kind: 'runtime',
+        imports: [{ line: 3, specifier: './b', relationshipType: 'imports', kind: 'runtime' }],
+      },
+      {
+        from: 'src/b.ts',
+        to: 'src/a.ts',
+        kind: 'runtime',
+        imports: [
+          { line: 1, specifier: './a', relationshipType: 'imports', kind: 'runtime' },
+          { line: 7, specifier: './a', relationshipType: 'imports', kind: 'runtime' },
+        ],
+      },
+    ]);
+  });
+
+  it('should label each cycle with its weakest edge kind', () => {
+    const nodes: CodeGraphNode[] = ['a', 'b', 'c'].map(name => ({
+      id: name,
+      labels: ['File'],
+      properties: { filePath: `src/${name}.ts` },
+    }));
+
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a', properties: { typeOnly: true } },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'c' },
+      { id: 'r4', type: 'imports', startNode: 'c', endNode: 'b', properties: { typeOnly: true } },
+      { id: 'r5', type: 'imports', startNode: 'c', endNode: 'b', properties: { line: 9 } },
+    ];
+
+    const cycles = findCircularDependencies(nodes, relationships);
+
+    expect(cycles.find(cycle => cycle.id === 'src/a.ts->src/b.ts')?.kind).toBe('type-only');
+    expect(cycles.find(cycle => cycle.id === 'src/b.ts->src/c.ts')?.kind).toBe('runtime');
+  });
+
+  it('should resolve aliased module nodes with a specifier resolver', () => {
+    const nodes: CodeGraphNode[] = [
+      { id: 'a', labels: ['File'], properties: { filePath: 'packages/web/src/a.ts' } },
+      { id: 'b', labels: ['File'], properties: { filePath: 'packages/shared/src/index.ts' } },
+      { id: 'shared', labels: ['Module'], properties: { name: '@org/shared' } },
+    ];
+
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'shared' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a', properties: { specifier: '@org/web/a' } },
+    ];
+
+    const cycles = findCircularDependencies(nodes, relationships, [], {
+      resolveSpecifier: specifier => (specifier === '@org/shared' ? 'packages/shared/src/index.ts' : undefined),
+    });
+
+    expect(cycles.map(cycle => cycle.id)).toEqual(['packages/shared/src/index.ts->packages/web/src/a.ts']);
+  });
+
   it('should resolve extensionless paths against file nodes', () => {
     const nodes: CodeGraphNode[] = [
       { id: 'fileA', labels: ['File'], properties: { filePath: 'src/a.js' } },
@@ -121,12 +244,347 @@ describe('findCircularDependencies', () => {
   });
 });
 
+describe('buildDependencyGraph', () => {
+  const nodes: CodeGraphNode[] = [
+    { id: 'a', labels: ['File'], properties: { filePath: 'src/a.ts' } },
+    { id: 'b', labels: ['File'], properties: { filePath: 'src/b.ts' } },
+    { id: 'fn', labels: ['Function'], properties: { name: 'render' } },
+    { id: 'gen', labels: ['File'], properties: { filePath: 'src/generated/api.ts' } },
+    { id: 'react', labels: ['Module'], properties: { name: 'react' } },
+  ];
+  const relationships: CodeGraphRelationship[] = [
+    { id: 'r1', type: 'IMPORTS', startNode: 'a', endNode: 'b' },
+    { id: 'r2', type: 'usesModule', startNode: 'b', endNode: 'a' },
+    { id: 'r3', type: 'IMPORTS', startNode: 'a', endNode: 'react' },
+    { id: 'r4', type: 'IMPORTS', startNode: 'b', endNode: 'missing' },
+    { id: 'r5', type: 'CALLS', startNode: 'fn', endNode: 'a' },
+    { id: 'r6', type: 'IMPORTS', startNode: 'gen', endNode: 'a' },
+  ];
+
+  it('should only follow the relationship types of an explicit schema', () => {
+    const guessed = buildDependencyGraph(nodes, relationships);
+    const mapped = buildDependencyGraph(nodes, relationships, [], { schema: GRAPH_SCHEMAS.dependency });
+
+    expect(detectCycles(guessed).cycles.map(cycle => cycle.id)).toEqual(['src/a.ts->src/b.ts']);
+    expect(detectCycles(mapped).cycles).toEqual([]);
+  });
+
+  it('should report what the schema could not map', () => {
+    const { diagnostics } = buildDependencyGraph(nodes, relationships, ['src/generated/**'], {
+      schema: GRAPH_SCHEMAS.dependency,
+    });
+
+    expect(diagnostics).toEqual({
+      schema: 'dependency',
+      nodes: 5,
+      relationships: 6,
+      fileNodes: 4,
+      dependencies: 2,
+      relationshipTypes: [
+        { type: 'IMPORTS', count: 4, dependency: true },
+        { type: 'CALLS', count: 1, dependency: false },
+        { type: 'usesModule', count: 1, dependency: false },
+      ],
+      nodesWithoutPath: { count: 0, samples: [] },
+      danglingRelationships: { count: 1, samples: ['b -> missing'] },
+      unresolvedTargets: { count: 1, samples: ['react'] },
+      ignoredFiles: { count: 1, samples: ['src/generated/api.ts'] },
+    });
+  });
+
+  it('should not read paths from symbol names with the parse schema', () => {
+    const { diagnostics, adjacency } = buildDependencyGraph(nodes, relationships, [], { schema: GRAPH_SCHEMAS.parse });
+
+    expect(adjacency.has('render')).toBe(false);
+    expect(adjacency.has('fn')).toBe(true);
+    expect(diagnostics?.nodesWithoutPath).toEqual({ count: 2, samples: ['fn', 'react'] });
+  });
+});
+
+describe('classifyRelationship', () => {
+  it('should classify edges from relationship properties and types', () => {
+    const rel = (type: string, properties?: Record<string, unknown>): CodeGraphRelationship => ({
+      id: 'r', type, startNode: 'a', endNode: 'b', properties,
+    });
+
+    expect(classifyRelationship(rel('imports'))).toBe('runtime');
+    expect(classifyRelationship(rel('imports', { typeOnly: true }))).toBe('type-only');
+    expect(classifyRelationship(rel('imports', { importKind: 'type' }))).toBe('type-only');
+    expect(classifyRelationship(rel('IMPORTS', { syntax: 'dynamic-import' }))).toBe('dynamic');
+    expect(classifyRelationship(rel('dynamicImport'))).toBe('dynamic');
+    expect(classifyRelationship(rel('IMPORTS', { syntax: 'export' }))).toBe('re-export');
+    expect(classifyRelationship(rel('reExports'))).toBe('re-export');
+  });
+});
+
+describe('getWeakestKind', () => {
+  it('should pick the weakest kind', () => {
+    expect(getWeakestKind(['runtime', 'dynamic', 're-export'])).toBe('dynamic');
+    expect(getWeakestKind(['runtime', 'type-only'])).toBe('type-only');
+    expect(getWeakestKind([])).toBe('runtime');
+  });
+});
+
+describe('parseEdgeKinds', () => {
+  it('should reject unknown kinds', () => {
+    expect(parseEdgeKinds(['runtime', ' Dynamic '])).toEqual(['runtime', 'dynamic']);
+    expect(() => parseEdgeKinds(['lazy'])).toThrow('Unknown cycle kind "lazy"');
+  });
+});
+
+describe('detectCycles', () => {
+  const nodes: CodeGraphNode[] = ['a', 'b', 'c', 'd'].map(name => ({
+    id: name,
+    labels: ['File'],
+    properties: { filePath: `src/${name}.ts` },
+  }));
+  const relationships: CodeGraphRelationship[] = [
+    { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+    { id: 'r2', type: 'imports', startNode: 'b', endNode: 'c' },
+    { id: 'r3', type: 'imports', startNode: 'c', endNode: 'a' },
+    { id: 'r4', type: 'imports', startNode: 'b', endNode: 'd' },
+    { id: 'r5', type: 'imports', startNode: 'd', endNode: 'a' },
+  ];
+
+  it('should enumerate every cycle in a tangle', () => {
+    const graph = buildDependencyGraph(nodes, relationships);
+
+    const { cycles, truncated } = detectCycles(graph, { enumerateAllCycles: true });
+
+    expect(truncated).toBe(false);
+    expect(cycles.map(cycle => cycle.id)).toEqual([
+      'src/a.ts->src/b.ts->src/c.ts',
+      'src/a.ts->src/b.ts->src/d.ts',
+    ]);
+  });
+
+  it('should report a cycle and its reverse separately', () => {
+    const graph = buildDependencyGraph(nodes.slice(0, 3), [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a' },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'c' },
+      { id: 'r4', type: 'imports', startNode: 'c', endNode: 'b' },
+      { id: 'r5', type: 'imports', startNode: 'a', endNode: 'c' },
+      { id: 'r6', type: 'imports', startNode: 'c', endNode: 'a' },
+    ]);
+
+    const { cycles } = detectCycles(graph, { enumerateAllCycles: true });
+
+    expect(cycles.map(cycle => cycle.cycle.join('->'))).toEqual([
+      'src/a.ts->src/b.ts',
+      'src/a.ts->src/b.ts->src/c.ts',
+      'src/a.ts->src/c.ts->src/b.ts',
+      'src/a.ts->src/c.ts',
+      'src/b.ts->src/c.ts',
+    ]);
+    expect(cycles[1].id).toBe(cycles[2].id);
+  });
+
+  it('should report exactly one cycle per back edge of a bidirectional graph', () => {
+    const graph = buildDependencyGraph(nodes.slice(0, 3), [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'a' },
+      { id: 'r3', type: 'imports', startNode: 'b', endNode: 'c' },
+      { id: 'r4', type: 'imports', startNode: 'c', endNode: 'b' },
+      { id: 'r5', type: 'imports', startNode: 'c', endNode: 'a' },
+      { id: 'r6', type: 'imports', startNode: 'a', endNode: 'c' },
+    ]);
+
+    const { cycles } = detectCycles(graph);
+
+    expect(cycles.map(cycle => cycle.cycle.join('->'))).toEqual([
+      'src/a.ts->src/b.ts',
+      'src/b.ts->src/c.ts',
+      'src/a.ts->src/b.ts->src/c.ts',
+    ]);
+  });
+
+  it('should drop cycles longer than the maximum length', () => {
+    const graph = buildDependencyGraph(nodes, [
+      ...relationships,
+      { id: 'r6', type: 'imports', startNode: 'a', endNode: 'd' },
+      { id: 'r7', type: 'imports', startNode: 'd', endNode: 'a' },
+    ]);
+
+    const { cycles } = detectCycles(graph, { enumerateAllCycles: true, maxCycleLength: 2 });
+
+    expect(cycles.map(cycle => cycle.id)).toEqual(['src/a.ts->src/d.ts']);
+  });
+
+  it('should reuse cached cycles of unchanged tangles', () => {
+    const cache = new Map<string, string[][]>();
+    const componentCache = { get: (key: string) => cache.get(key), set: (key: string, value: string[][]) => cache.set(key, value) };
+    const graph = buildDependencyGraph(nodes, relationships);
+    const first = detectCycles(graph, { enumerateAllCycles: true, componentCache });
+
+    cache.set(Array.from(cache.keys())[0], [['src/a.ts', 'src/c.ts']]);
+    const second = detectCycles(graph, { enumerateAllCycles: true, componentCache });
+
+    expect(first.cycles.map(cycle => cycle.id)).toEqual([
+      'src/a.ts->src/b.ts->src/c.ts',
+      'src/a.ts->src/b.ts->src/d.ts',
+    ]);
+    expect(second.cycles.map(cycle => cycle.id)).toEqual(['src/a.ts->src/c.ts']);
+  });
+
+  it('should truncate like a single pass when cached tangles exceed the cycle cap', () => {
+    const cache = new Map<string, string[][]>();
+    const componentCache = { get: (key: string) => cache.get(key), set: (key: string, value: string[][]) => cache.set(key, value) };
+    const graph = buildDependencyGraph(nodes, relationships);
+    detectCycles(graph, { enumerateAllCycles: true, componentCache });
+
+    const capped = detectCycles(graph, { enumerateAllCycles: true, maxCycles: 1, componentCache });
+
+    expect(capped).toEqual(detectCycles(graph, { enumerateAllCycles: true, maxCycles: 1 }));
+    expect(capped.truncated).toBe(true);
+  });
+});
+
+describe('findTangles', () => {
+  it('should report each strongly connected component with its internal edges', () => {
+    const nodes: CodeGraphNode[] = ['a', 'b', 'c', 'd', 'e'].map(name => ({
+      id: name,
+      labels: ['File'],
+      properties: { filePath: `src/${name}.ts` },
+    }));
+    const relationships: CodeGraphRelationship[] = [
+      { id: 'r1', type: 'imports', startNode: 'a', endNode: 'b' },
+      { id: 'r2', type: 'imports', startNode: 'b', endNode: 'c' },
+      { id: 'r3', type: 'imports', startNode: 'c', endNode: 'a' },
+      { id: 'r4', type: 'imports', startNode: 'a', endNode: 'c' },
+      { id: 'r5', type: 'imports', startNode: 'c', endNode: 'd' },
+    ];
+
+    const tangles = findTangles(buildDependencyGraph(nodes, relationships));
+
+    expect(tangles).toEqual([
+      {
+        id: 'src/a.ts|src/b.ts|src/c.ts',
+        files: ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+        size: 3,
+        internalEdges: 4,
+      },
+    ]);
+  });
+});
+
+describe('compareCircularDependencies', () => {
+  it('should split cycles into introduced, fixed and unchanged', () => {
+    const shared: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+    const removed: CircularDependencyResult = { id: 'src/c.ts->src/d.ts', cycle: ['src/c.ts', 'src/d.ts'], length: 2 };
+    const added: CircularDependencyResult = { id: 'src/e.ts->src/f.ts', cycle: ['src/e.ts', 'src/f.ts'], length: 2 };
+
+    const comparison = compareCircularDependencies([shared, removed], [shared, added]);
+
+    expect(comparison.introduced).toEqual([added]);
+    expect(comparison.fixed).toEqual([removed]);
+    expect(comparison.unchanged).toEqual([shared]);
+  });
+});
+
 describe('formatPrComment', () => {
   it('should format empty results', () => {
     const comment = formatPrComment([]);
     expect(comment).toContain('No circular dependencies found');
   });
 
+  it('should report architecture violations even without cycles', () => {
+    const comment = formatPrComment([], {
+      sourceUrl: 'https://github.com/o/r/blob/abc',
+      violations: [{
+        id: 'layer:src/domain/a.ts->src/ui/b.ts',
+        rule: 'layer domain must not depend on ui',
+        edge: {
+          from: 'src/domain/a.ts',
+          to: 'src/ui/b.ts',
+          kind: 'runtime',
+          imports: [{ line: 2, relationshipType: 'IMPORTS', kind: 'runtime' }],
+        },
+      }],
+    });
+
+    expect(comment).toContain('No circular dependencies found.');
+    expect(comment).toContain('### Architecture violations (1)');
+    expect(comment).toContain(
+      '| 1 | layer domain must not depend on ui | ' +
+      '[src/domain/a.ts:2](https://github.com/o/r/blob/abc/src/domain/a.ts#L2) -> src/ui/b.ts |'
+    );
+  });
+
+  it('should list hazardous cycles first and name the bindings they use while initializing', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'a.ts->b.ts', cycle: ['a.ts', 'b.ts'], length: 2, kind: 'runtime', initOrder: 'benign', hazards: [] },
+      {
+        id: 'base.ts->user.ts',
+        cycle: ['base.ts', 'user.ts'],
+        length: 2,
+        kind: 'runtime',
+        initOrder: 'hazardous',
+        hazards: [{ from: 'user.ts', to: 'base.ts', binding: 'Base', line: 3, usage: 'extends' }],
+      },
+    ];
+
+    const comment = formatPrComment(cycles, { sourceUrl: 'https://github.com/o/r/blob/abc' });
+
+    expect(comment).toContain('| 1 | runtime, **hazardous** | base.ts -> user.ts -> base.ts |\n| 2 | runtime | a.ts -> b.ts -> a.ts |');
+    expect(comment).toContain('### Initialization-order hazards (1)');
+    expect(comment).toContain(
+      '| `Base` | class extends | [user.ts:3](https://github.com/o/r/blob/abc/user.ts#L3) | base.ts | `base.ts -> user.ts` |'
+    );
+  });
+
+  it('should list the owners of each cycle and break the cycles down by owner', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'a.ts->b.ts', cycle: ['a.ts', 'b.ts'], length: 2, owners: ['@acme/api', '@acme/web'], crossTeam: true },
+      { id: 'c.ts->d.ts', cycle: ['c.ts', 'd.ts'], length: 2, owners: ['@acme/web'], crossTeam: false },
+      { id: 'e.ts->f.ts', cycle: ['e.ts', 'f.ts'], length: 2, owners: [], crossTeam: false },
+    ];
+
+    const comment = formatPrComment(cycles);
+
+    expect(comment).toContain('| # | Cycle | Owners |\n|---|-------|--------|');
+    expect(comment).toContain('| 1 | a.ts -> b.ts -> a.ts | **cross-team**: `@acme/api`, `@acme/web` |');
+    expect(comment).toContain('| 3 | e.ts -> f.ts -> e.ts | - |');
+    expect(comment).toContain('### Cycles by owner (2)');
+    expect(comment).toContain('| `@acme/web` | 2 | 1 |\n| `@acme/api` | 1 | 1 |');
+    expect(comment).toContain('_1 cycle has no owner in CODEOWNERS._');
+    expect(comment).not.toContain('**Owners:**');
+    expect(formatPrComment(cycles, { mentionOwners: true })).toContain(
+      '**Owners:** @acme/web @acme/api, these cycles pass through files you own.'
+    );
+  });
+
+  it('should list the mechanical fixes of reported cycles', () => {
+    const cycles: CircularDependencyResult[] = [{ id: 'a.ts->b.ts', cycle: ['a.ts', 'b.ts'], length: 2 }];
+    const edit = { startLine: 1, endLine: 1, original: "import { B } from './b';", replacement: "import type { B } from './b';" };
+
+    const comment = formatPrComment(cycles, {
+      fixes: [
+        { id: 'a.ts->b.ts', from: 'a.ts', to: 'b.ts', cycles: ['a.ts->b.ts'], edits: [{ kind: 'type-only-import', ...edit }] },
+        { id: 'c.ts->d.ts', from: 'c.ts', to: 'd.ts', cycles: ['c.ts->d.ts'], edits: [{ kind: 'type-only-import', ...edit }] },
+      ],
+    });
+
+    expect(comment).toContain('### Mechanical fixes (1)');
+    expect(comment).toContain('| 1 | `a.ts -> b.ts` | use `import type` (line 1) | 1 |');
+    expect(comment).not.toContain('c.ts -> d.ts');
+  });
+
+  it('should list allowed cycles separately from the reported ones', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 },
+      { id: 'src/c.ts->src/d.ts', cycle: ['src/c.ts', 'src/d.ts'], length: 2 },
+    ];
+
+    const comment = formatPrComment(cycles, {
+      allowances: [{ id: 'src/c.ts->src/d.ts', reason: 'ORM | models', expires: '2030-01-01' }],
+    });
+
+    expect(comment).toContain('Found **1** circular dependency');
+    expect(comment).toContain('### Allowed cycles (1)');
+    expect(comment).toContain('| `src/c.ts -> src/d.ts` | ORM \\| models | 2030-01-01 |');
+  });
+
   it('should format multiple cycles', () => {
     const cycles: CircularDependencyResult[] = [
       { id: 'c1', cycle: ['src/a.ts', 'src/b.ts'], length: 2 },
@@ -139,4 +597,211 @@ describe('formatPrComment', () => {
     expect(comment).toContain('src/a.ts -> src/b.ts -> src/a.ts');
     expect(comment).toContain('src/c.ts -> src/d.ts -> src/e.ts -> src/c.ts');
   });
+
+  it('should group cycles when a comparison is provided', () => {
+    const added: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+    const removed: CircularDependencyResult = { id: 'src/c.ts->src/d.ts', cycle: ['src/c.ts', 'src/d.ts'], length: 2 };
+
+    const comment = formatPrComment([added], {
+      comparison: { introduced: [added], fixed: [removed], unchanged: [] },
+    });
+
+    expect(comment).toContain('introduces **1** new circular dependency');
+    expect(comment).toContain('### New cycles (1)');
+    expect(comment).toContain('### Fixed cycles (1)');
+    expect(comment).not.toContain('### Unchanged cycles');
+    expect(comment).toContain('src/c.ts -> src/d.ts -> src/c.ts');
+  });
+
+  it('should report a clean comparison', () => {
+    const comment = formatPrComment([], {
+      comparison: { introduced: [], fixed: [], unchanged: [] },
+    });
+
+    expect(comment).toContain('No new circular dependencies introduced by this PR.');
+  });
+
+  it('should report known and removable baseline cycles', () => {
+    const known: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+
+    const comment = formatPrComment([known], {
+      baseline: { introduced: [], known: [known], removable: ['src/c.ts->src/d.ts'] },
+    });
+
+    expect(comment).toContain('No circular dependencies outside the baseline.');
+    expect(comment).toContain('### Known cycles (1)');
+    expect(comment).toContain('### Removable from baseline (1)');
+    expect(comment).toContain('`src/c.ts->src/d.ts`');
+  });
+
+  it('should list tangles below the cycles', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 },
+    ];
+
+    const comment = formatPrComment(cycles, {
+      tangles: [{ id: 'src/a.ts|src/b.ts', files: ['src/a.ts', 'src/b.ts'], size: 2, internalEdges: 2 }],
+    });
+
+    expect(comment).toContain('### Tangles (1)');
+    expect(comment).toContain('| 1 | 2 | 2 | src/a.ts, src/b.ts |');
+  });
+
+  it('should render break recommendations', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 },
+    ];
+
+    const comment = formatPrComment(cycles, {
+      breakRecommendations: {
+        edges: [{ from: 'src/a.ts', to: 'src/b.ts', cycleCount: 1, newlyBroken: 1 }],
+        totalCycles: 1,
+        brokenCycles: 1,
+      },
+    });
+
+    expect(comment).toContain('### Where to start');
+    expect(comment).toContain('| 1 | `src/a.ts -> src/b.ts` | 1 of 1 |');
+  });
+
+  it('should link each hop to its import line', () => {
+    const cycles: CircularDependencyResult[] = [
+      {
+        id: 'src/a.ts->src/b.ts',
+        cycle: ['src/a.ts', 'src/b.ts'],
+        length: 2,
+        edges: [
+          {
+            from: 'src/a.ts',
+            to: 'src/b.ts',
+            kind: 'runtime',
+            imports: [{ line: 3, specifier: './b', relationshipType: 'imports', kind: 'runtime' }],
+          },
+          {
+            from: 'src/b.ts',
+            to: 'src/a.ts',
+            kind: 'runtime',
+            imports: [{ relationshipType: 'imports', kind: 'runtime' }],
+          },
+        ],
+      },
+    ];
+
+    const comment = formatPrComment(cycles, { sourceUrl: 'https://github.com/o/r/blob/abc123' });
+
+    expect(comment).toContain(
+      '[src/a.ts:3](https://github.com/o/r/blob/abc123/src/a.ts#L3 "./b") -> src/b.ts -> src/a.ts'
+    );
+  });
+
+  it('should show the cycle kind when known', () => {
+    const cycles: CircularDependencyResult[] = [
+      { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2, kind: 'type-only' },
+    ];
+
+    const comment = formatPrComment(cycles);
+
+    expect(comment).toContain('| # | Kind | Cycle |');
+    expect(comment).toContain('| 1 | type-only | src/a.ts -> src/b.ts -> src/a.ts |');
+  });
+
+  it('should list every cycle in a collapsible section when there are many', () => {
+    const cycles: CircularDependencyResult[] = Array.from({ length: 60 }, (_, index) => ({
+      id: `src/a${index}.ts->src/b${index}.ts`,
+      cycle: [`src/a${index}.ts`, `src/b${index}.ts`],
+      length: 2,
+    }));
+
+    const comment = formatPrComment(cycles);
+
+    expect(comment).toContain('<summary>Show all 60 cycles</summary>');
+    expect(comment).toContain('| 60 | src/a59.ts -> src/b59.ts -> src/a59.ts |');
+    expect(comment).not.toContain('more that do not fit');
+  });
+
+  it('should show cycles fixed and added since the last push', () => {
+    const kept: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+    const added: CircularDependencyResult = { id: 'src/e.ts->src/f.ts', cycle: ['src/e.ts', 'src/f.ts'], length: 2 };
+
+    const comment = formatPrComment([kept, added], {
+      previousCycleIds: ['src/a.ts->src/b.ts', 'src/c.ts->src/d.ts'],
+    });
+
+    expect(comment).toContain('### Since the last push');
+    expect(comment).toContain('<summary>Fixed (1)</summary>\n\n- `src/c.ts -> src/d.ts`');
+    expect(comment).toContain('<summary>Added (1)</summary>');
+    expect(comment).not.toContain('Resolved');
+  });
+
+  it('should keep large comments within the GitHub comment size limit', () => {
+    const makeCycles = (prefix: string): CircularDependencyResult[] => Array.from({ length: 400 }, (_, index) => {
+      const files = [0, 1, 2, 3].map(hop => `packages/${prefix}/src/features/module-${index}/component-${hop}.tsx`);
+      return { id: getCycleId(files), cycle: files, length: files.length, kind: 'runtime' };
+    });
+    const [introduced, fixed, unchanged] = [makeCycles('new'), makeCycles('gone'), makeCycles('kept')];
+
+    const comment = formatPrComment([...introduced, ...unchanged], {
+      comparison: { introduced, fixed, unchanged },
+      previousCycleIds: fixed.map(cycle => cycle.id),
+      breakRecommendations: { edges: [], totalCycles: 800, brokenCycles: 0 },
+      tangles: [{ id: 't', files: introduced[0].cycle, size: 4, internalEdges: 4 }],
+    });
+
+    expect(comment.length).toBeLessThanOrEqual(MAX_COMMENT_LENGTH);
+    expect(comment).toContain('### New cycles (400)');
+    expect(comment).toContain('more that do not fit in a comment');
+    expect(comment).toContain('<summary>Fixed (400)</summary>');
+    expect(comment).toContain('- _...and 380 more_');
+    expect(formatPrComment([...introduced, ...unchanged], {
+      comparison: { introduced, fixed, unchanged },
+      maxLength: 5000,
+    }).length).toBeLessThanOrEqual(5000);
+  });
+
+  it('should cut oversized comments at a line boundary and close open blocks', () => {
+    const makeCycles = (prefix: string): CircularDependencyResult[] => Array.from({ length: 200 }, (_, index) => {
+      const files = [0, 1, 2].map(hop => `src/${prefix}/module-${index}/component-${hop}.ts`);
+      return { id: getCycleId(files), cycle: files, length: files.length, kind: 'runtime' };
+    });
+    const [introduced, fixed] = [makeCycles('new'), makeCycles('gone')];
+    const options = { comparison: { introduced, fixed, unchanged: [] } };
+
+    const full = formatPrComment(introduced, { ...options, maxLength: Infinity });
+    const comment = formatPrComment(introduced, { ...options, maxLength: 1500 });
+    const cut = comment.slice(0, comment.indexOf('\n\n_Some sections were left out'));
+
+    expect(comment.length).toBeLessThanOrEqual(1500);
+    expect(comment).toMatch(/_Some sections were left out[^\n]*\n\n---\n_Powered by/);
+    expect(comment.split('<details>').length).toBe(comment.split('</details>').length);
+    expect(full.startsWith(`${cut.replace(/\n\n<\/details>$/, '')}\n`)).toBe(true);
+  });
+
+  it('should escape pipes in table cells', () => {
+    const files = ['src/a|b.ts', 'src/c.ts'];
+
+    const comment = formatPrComment([{ id: getCycleId(files), cycle: files, length: 2 }]);
+
+    expect(comment).toContain('src/a\\|b.ts');
+    expect(comment).not.toMatch(/[^\\]\|b\.ts/);
+  });
+
+  it('should switch to a resolved state once the reported cycles are gone', () => {
+    const comment = formatPrComment([], { previousCycleIds: ['src/a.ts->src/b.ts'] });
+
+    expect(comment).toContain('**Resolved:** the circular dependency reported earlier on this PR is fixed.');
+    expect(comment).toContain('No circular dependencies found!');
+    expect(comment).toContain('<summary>Fixed (1)</summary>');
+  });
+
+  it('should only resolve the cycles a comparison reports', () => {
+    const unchanged: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+
+    const comment = formatPrComment([unchanged], {
+      comparison: { introduced: [], fixed: [], unchanged: [unchanged] },
+      previousCycleIds: ['src/c.ts->src/d.ts'],
+    });
+
+    expect(comment).toContain('**Resolved:**');
+    expect(comment).toContain('### Unchanged cycles (1)');
+  });
 });
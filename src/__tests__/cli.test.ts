@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CYCLES_FOUND, EXIT_OK, EXIT_USAGE, main, parseCliArgs } from '../cli';
+
+async function createRepo(files: Record<string, string>): Promise<string> {
+  const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-cli-'));
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+    await fs.writeFile(path.join(repo, file), content);
+  }
+  execSync('git init -q && git add -A && git -c user.name=t -c user.email=t@t commit -qm init', { cwd: repo });
+  return repo;
+}
+
+async function runCli(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const code = await main(argv, {
+    stdout: text => {
+      stdout += text;
+    },
+    stderr: text => {
+      stderr += text;
+    },
+  });
+  return { code, stdout, stderr };
+}
+
+describe('parseCliArgs', () => {
+  it('should default to the local provider without an API key', () => {
+    const options = parseCliArgs(['--format', 'json', '--ignore', 'a/**', '--ignore', 'b/**'], {});
+
+    expect(options.graphProvider).toBe('local');
+    expect(options.format).toBe('json');
+    expect(options.ignorePatterns).toEqual(['a/**', 'b/**']);
+    expect(options.failOnCycles).toBe(true);
+  });
+
+  it('should use the Supermodel provider when an API key is set', () => {
+    expect(parseCliArgs([], { SUPERMODEL_API_KEY: 'smsk_x' }).graphProvider).toBe('supermodel');
+  });
+
+  it('should parse failing kinds and limits', () => {
+    const options = parseCliArgs(['--failing-cycle-kinds', 'runtime, re-export', '--max-cycles', '5'], {});
+
+    expect(options.failingKinds).toEqual(['runtime', 're-export']);
+    expect(options.detection.maxCycles).toBe(5);
+  });
+
+  it('should parse the graph file format', () => {
+    expect(parseCliArgs(['--graph-file', 'graph.json', '--graph-format', 'madge'], {}).graphFormat).toBe('madge');
+    expect(parseCliArgs(['--graph-file', 'graph.json'], {}).graphFormat).toBeUndefined();
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseCliArgs(['--format', 'xml'], {})).toThrow('Unknown format "xml"');
+    expect(() => parseCliArgs(['--max-cycles', 'many'], {})).toThrow('--max-cycles must be a non-negative integer');
+    expect(() => parseCliArgs(['--staged', '--ref', 'HEAD'], {})).toThrow('cannot be combined');
+    expect(() => parseCliArgs(['--graph-file', 'graph.json', '--compare-to', 'main'], {})).toThrow('cannot be combined');
+    expect(() => parseCliArgs(['--graph-format', 'graphml'], {})).toThrow('Unknown graph format "graphml"');
+    expect(() => parseCliArgs(['--bogus'], {})).toThrow();
+  });
+});
+
+describe('main', () => {
+  it('should exit with a usage error for unknown flags', async () => {
+    const { code, stderr } = await runCli(['--bogus']);
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(stderr).toContain('Usage: circular-dependency-hunter');
+  });
+
+  it('should analyze uncommitted changes in the working copy', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\nexport const a = 1;\n",
+      'src/b.ts': 'export const b = 1;\n',
+    });
+    await fs.writeFile(path.join(repo, 'src/b.ts'), "import { a } from './a';\nexport const b = a;\n");
+
+    const { code, stdout, stderr } = await runCli(['--cwd', repo, '--graph-provider', 'local', '--format', 'json']);
+
+    expect(code).toBe(EXIT_CYCLES_FOUND);
+    expect(JSON.parse(stdout).failing).toEqual(['src/a.ts->src/b.ts']);
+    expect(stderr).toContain('Building code graph with the local provider');
+  });
+
+  it('should only report cycles through staged files', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\n",
+      'src/b.ts': "import { a } from './a';\n",
+      'src/c.ts': 'export const c = 1;\n',
+    });
+    await fs.writeFile(path.join(repo, 'src/c.ts'), 'export const c = 2;\n');
+    execSync('git add src/c.ts', { cwd: repo });
+
+    const { code, stdout } = await runCli(['--cwd', repo, '--graph-provider', 'local', '--staged']);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toContain('No circular dependencies to report');
+  });
+
+  it('should match staged files against the Go packages cycles run through', async () => {
+    const repo = await createRepo({
+      'go.mod': 'module github.com/acme/shop\n\ngo 1.21\n',
+      'internal/db/conn.go': 'package db\n\nimport "github.com/acme/shop/internal/orders"\n',
+      'internal/orders/orders.go': 'package orders\n\nimport "github.com/acme/shop/internal/db"\n',
+    });
+    const files = ['internal/db/conn.go', 'internal/orders/orders.go'];
+    const graphFile = path.join(repo, '.git', 'graph.json');
+    await fs.writeFile(graphFile, JSON.stringify({
+      nodes: files.map(file => ({ id: file, labels: ['File'], properties: { filePath: file } })),
+      relationships: ['internal/orders', 'internal/db'].map((target, index) => ({
+        id: `r${index}`,
+        type: 'IMPORTS',
+        startNode: files[index],
+        endNode: target,
+        properties: { line: 3, specifier: `github.com/acme/shop/${target}` },
+      })),
+    }));
+    await fs.appendFile(path.join(repo, 'internal/db/conn.go'), '\nvar Pool = 1\n');
+    execSync('git add internal/db/conn.go', { cwd: repo });
+
+    const { code, stdout } = await runCli(['--cwd', repo, '--no-cache', '--graph-file', graphFile, '--staged', '--format', 'json']);
+
+    expect(code).toBe(EXIT_CYCLES_FOUND);
+    expect(JSON.parse(stdout).failing).toEqual(['internal/db->internal/orders']);
+  });
+
+  it('should print cycles with their import lines as text', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\n",
+      'src/b.ts': "\nimport { a } from './a';\n",
+    });
+
+    const { code, stdout } = await runCli(['--cwd', repo, '--graph-provider', 'local', '--ref', 'HEAD', '--no-fail']);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toContain('error    src/a.ts:1 -> src/b.ts:2 -> src/a.ts  [runtime]');
+    expect(stdout).toContain('1 circular dependency reported (1 failing), 1 found in total.');
+  });
+
+  it('should list hazardous cycles first with the bindings they use while initializing', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\nexport const a = () => b;\n",
+      'src/b.ts': "import { a } from './a';\nexport const b = () => a;\n",
+      'src/base.ts': "import { User } from './user';\nexport class Base {\n  user?: User;\n}\n",
+      'src/user.ts': "import { Base } from './base';\nexport class User extends Base {}\n",
+    });
+
+    const { stdout } = await runCli(['--cwd', repo, '--graph-provider', 'local', '--ref', 'HEAD', '--no-cache']);
+
+    const lines = stdout.split('\n');
+    expect(lines[0]).toBe('error    src/base.ts:1 -> src/user.ts:1 -> src/base.ts  [runtime, hazardous]');
+    expect(lines[1].trim()).toBe('src/user.ts:2 uses Base from src/base.ts (extends)');
+    expect(lines[2]).toBe('error    src/a.ts:1 -> src/b.ts:1 -> src/a.ts  [runtime]');
+  });
+
+  it('should label cycles through files of different CODEOWNERS owners', async () => {
+    const repo = await createRepo({
+      '.github/CODEOWNERS': '/src/api/ @acme/api\n/src/web/ @acme/web\n',
+      'src/api/a.ts': "import { b } from '../web/b';\nexport const a = () => b;\n",
+      'src/web/b.ts': "import { a } from '../api/a';\nexport const b = () => a;\n",
+    });
+
+    const { stdout } = await runCli(['--cwd', repo, '--graph-provider', 'local', '--ref', 'HEAD', '--no-cache']);
+    const json = await runCli(['--cwd', repo, '--graph-provider', 'local', '--ref', 'HEAD', '--no-cache', '--format', 'json']);
+
+    expect(stdout).toContain('src/api/a.ts:1 -> src/web/b.ts:1 -> src/api/a.ts  [runtime, cross-team]');
+    expect(stdout).toContain('owned by @acme/api, @acme/web');
+    expect(JSON.parse(json.stdout).owners).toEqual([
+      { owner: '@acme/api', cycles: ['src/api/a.ts->src/web/b.ts'], crossTeamCount: 1 },
+      { owner: '@acme/web', cycles: ['src/api/a.ts->src/web/b.ts'], crossTeamCount: 1 },
+    ]);
+  });
+
+  it('should write the mechanical fixes of the cycles as a patch', async () => {
+    const repo = await createRepo({
+      'src/user.ts': "import { Post } from './post';\nexport class User {\n  posts: Post[] = [];\n}\n",
+      'src/post.ts': "import { User } from './user';\nexport const author = new User();\n",
+    });
+
+    const { stderr } = await runCli([
+      '--cwd', repo, '--graph-provider', 'local', '--ref', 'HEAD', '--no-cache', '--fix-patch-file', 'fixes.patch',
+    ]);
+    execSync('git apply fixes.patch', { cwd: repo });
+
+    expect(stderr).toContain('Wrote 1 fix(es) to fixes.patch');
+    expect(await fs.readFile(path.join(repo, 'src/user.ts'), 'utf8')).toContain("import type { Post } from './post';");
+  });
+
+  it('should append the run to the history of a metrics file', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\n",
+      'src/b.ts': "import { a } from './a';\n",
+    });
+    const metricsFile = path.join(repo, 'metrics.json');
+
+    await runCli(['--cwd', repo, '--graph-provider', 'local', '--no-cache', '--metrics-file', metricsFile]);
+    await runCli(['--cwd', repo, '--graph-provider', 'local', '--no-cache', '--metrics-file', metricsFile]);
+
+    const metrics = JSON.parse(await fs.readFile(metricsFile, 'utf8'));
+    expect(metrics).toMatchObject({ cycles: 1, tangles: 1, files: 2, healthScore: 0 });
+    expect(metrics.history).toHaveLength(2);
+  });
+
+  it('should start a new metrics history when the metrics file cannot be read', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\n",
+      'src/b.ts': "import { a } from './a';\n",
+    });
+    const metricsFile = path.join(repo, 'metrics.json');
+    await fs.writeFile(metricsFile, '{ "version": 0 }');
+
+    const { code, stdout, stderr } = await runCli([
+      '--cwd', repo, '--graph-provider', 'local', '--no-cache', '--metrics-file', metricsFile, '--format', 'json',
+    ]);
+
+    expect(code).toBe(EXIT_CYCLES_FOUND);
+    expect(JSON.parse(stdout).failing).toEqual(['src/a.ts->src/b.ts']);
+    expect(stderr).toContain('warning: Starting a new metrics history, could not read');
+    expect(JSON.parse(await fs.readFile(metricsFile, 'utf8')).history).toHaveLength(1);
+  });
+
+  it('should replay a saved graph without building a new one', async () => {
+    const repo = await createRepo({
+      'src/a.ts': "import { b } from './b';\n",
+      'src/b.ts': "import { a } from './a';\n",
+    });
+    const graphFile = path.join(repo, '.git', 'graph.json');
+    await runCli(['--cwd', repo, '--graph-provider', 'local', '--no-cache', '--save-graph-file', graphFile]);
+    await fs.writeFile(path.join(repo, 'src/b.ts'), 'export const b = 1;\n');
+
+    const { code, stdout, stderr } = await runCli(['--cwd', repo, '--no-cache', '--graph-file', graphFile, '--format', 'json']);
+
+    expect(code).toBe(EXIT_CYCLES_FOUND);
+    expect(JSON.parse(stdout).failing).toEqual(['src/a.ts->src/b.ts']);
+    expect(stderr).toContain('Loaded supermodel graph from .git/graph.json');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircularDependencyResult } from '../circular-deps';
+import {
+  annotateOwners,
+  createOwnerMatcher,
+  getReviewRequest,
+  parseCodeowners,
+  requestOwnerReviews,
+} from '../codeowners';
+
+const CODEOWNERS = `# Default owners
+*                 @acme/platform
+
+*.md              docs@acme.com   # docs team mailbox
+/src/web/         @acme/web @alice
+src/api/**        @acme/api
+docs/*            @acme/docs
+apps/             @acme/apps
+/src/web/legacy/
+`;
+
+describe('parseCodeowners', () => {
+  it('should read patterns and owners, skipping comments and blank lines', () => {
+    expect(parseCodeowners(CODEOWNERS).slice(0, 3)).toEqual([
+      { pattern: '*', owners: ['@acme/platform'], line: 2 },
+      { pattern: '*.md', owners: ['docs@acme.com'], line: 4 },
+      { pattern: '/src/web/', owners: ['@acme/web', '@alice'], line: 5 },
+    ]);
+    expect(parseCodeowners(CODEOWNERS).at(-1)).toEqual({ pattern: '/src/web/legacy/', owners: [], line: 9 });
+  });
+});
+
+describe('createOwnerMatcher', () => {
+  const ownersOf = createOwnerMatcher(parseCodeowners(CODEOWNERS));
+
+  it('should apply the last matching rule', () => {
+    expect(ownersOf('src/web/app.ts')).toEqual(['@acme/web', '@alice']);
+    expect(ownersOf('src/web/README.md')).toEqual(['@acme/web', '@alice']);
+    expect(ownersOf('src/api/users/index.ts')).toEqual(['@acme/api']);
+    expect(ownersOf('src/shared/util.ts')).toEqual(['@acme/platform']);
+    expect(ownersOf('src/web/legacy/old.ts')).toEqual([]);
+  });
+
+  it('should follow the gitignore rules for anchoring and directories', () => {
+    expect(ownersOf('lib/notes.md')).toEqual(['docs@acme.com']);
+    expect(ownersOf('docs/intro.ts')).toEqual(['@acme/docs']);
+    expect(ownersOf('docs/guides/intro.ts')).toEqual(['@acme/platform']);
+    expect(ownersOf('packages/apps/main.ts')).toEqual(['@acme/apps']);
+    expect(ownersOf('lib/src/web/app.ts')).toEqual(['@acme/platform']);
+  });
+});
+
+describe('annotateOwners', () => {
+  const ownersOf = createOwnerMatcher(parseCodeowners(CODEOWNERS));
+  const cycle = (files: string[]): CircularDependencyResult => ({
+    id: files.join('->'),
+    cycle: files,
+    length: files.length,
+  });
+
+  it('should flag cycles through files no single owner owns', () => {
+    const [crossTeam, sameTeam, partlyUnowned, unowned] = annotateOwners([
+      cycle(['src/api/a.ts', 'src/web/b.ts']),
+      cycle(['src/web/a.ts', 'src/web/b.ts']),
+      cycle(['src/web/a.ts', 'src/web/legacy/b.ts']),
+      cycle(['src/web/legacy/a.ts', 'src/web/legacy/b.ts']),
+    ], ownersOf);
+
+    expect(crossTeam).toMatchObject({ owners: ['@acme/api', '@acme/web', '@alice'], crossTeam: true });
+    expect(sameTeam).toMatchObject({ owners: ['@acme/web', '@alice'], crossTeam: false });
+    expect(partlyUnowned).toMatchObject({ owners: ['@acme/web', '@alice'], crossTeam: false });
+    expect(unowned).toMatchObject({ owners: [], crossTeam: false });
+  });
+});
+
+type Octokit = Parameters<typeof requestOwnerReviews>[0];
+
+function fakeOctokit(): Octokit {
+  const octokit = { rest: { pulls: { requestReviewers: vi.fn(async () => ({})) } } };
+  return octokit as unknown as Octokit;
+}
+
+describe('requestOwnerReviews', () => {
+  it('should request reviews from the users and teams of the organization', async () => {
+    const octokit = fakeOctokit();
+
+    const request = await requestOwnerReviews(
+      octokit,
+      { owner: 'acme', repo: 'app', pullNumber: 7, author: 'bob' },
+      ['@acme/web', '@alice', '@Bob', '@other/team', 'docs@acme.com', '@acme/web']
+    );
+
+    expect(request).toEqual({ reviewers: ['alice'], teamReviewers: ['web'] });
+    expect(octokit.rest.pulls.requestReviewers).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'app',
+      pull_number: 7,
+      reviewers: ['alice'],
+      team_reviewers: ['web'],
+    });
+  });
+
+  it('should not call the API when no owner can review', async () => {
+    const octokit = fakeOctokit();
+
+    await requestOwnerReviews(octokit, { owner: 'acme', repo: 'app', pullNumber: 7 }, ['docs@acme.com']);
+
+    expect(octokit.rest.pulls.requestReviewers).not.toHaveBeenCalled();
+    expect(getReviewRequest(['@bob'], 'acme', 'bob')).toEqual({ reviewers: [], teamReviewers: [] });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getCycleSeverity, loadConfig, matchAllowedCycles, parseConfig } from '../config';
+import { CircularDependencyResult } from '../circular-deps';
+import { GRAPH_SCHEMAS } from '../graph-schema';
+
+const cycleAB: CircularDependencyResult = { id: 'src/a.ts->src/b.ts', cycle: ['src/a.ts', 'src/b.ts'], length: 2 };
+const legacyCycle: CircularDependencyResult = {
+  id: 'legacy/x.ts->legacy/y.ts',
+  cycle: ['legacy/x.ts', 'legacy/y.ts'],
+  length: 2,
+};
+const mixedCycle: CircularDependencyResult = {
+  id: 'legacy/x.ts->src/a.ts',
+  cycle: ['legacy/x.ts', 'src/a.ts'],
+  length: 2,
+};
+
+describe('parseConfig', () => {
+  it('should parse a YAML config and fill in defaults', () => {
+    const config = parseConfig(`
+include:
+  - "build/**"
+severity:
+  legacy: ignore
+  "scripts/**": warn
+maxCycleLength: 6
+allowedCycles:
+  - cycle: src/b.ts -> src/a.ts
+    justification: Shared registry
+    expires: 2030-01-31
+`, '.circular-deps.yml');
+
+    expect(config).toEqual({
+      include: ['build/**'],
+      exclude: [],
+      defaultExcludes: true,
+      severity: [
+        { pattern: 'legacy', severity: 'ignore' },
+        { pattern: 'scripts/**', severity: 'warn' },
+      ],
+      maxCycleLength: 6,
+      allowedCycles: [{ files: ['src/b.ts', 'src/a.ts'], justification: 'Shared registry', expires: '2030-01-31' }],
+      layers: [],
+      forbidden: [],
+    });
+  });
+
+  it('should parse layers and forbidden dependencies', () => {
+    const config = parseConfig(`
+layers:
+  - name: ui
+    paths: src/ui/**
+  - name: domain
+    paths: [src/domain/**, src/model/**]
+forbidden:
+  - from: src/domain/**
+    to: src/ui/**
+`, '.circular-deps.yml');
+
+    expect(config.layers).toEqual([
+      { name: 'ui', paths: ['src/ui/**'] },
+      { name: 'domain', paths: ['src/domain/**', 'src/model/**'] },
+    ]);
+    expect(config.forbidden).toEqual([{ from: ['src/domain/**'], to: ['src/ui/**'] }]);
+  });
+
+  it('should reject incomplete architecture rules', () => {
+    const parse = () => parseConfig(`
+layers:
+  - name: ui
+    paths: src/ui/**
+  - name: ui
+    paths: src/web/**
+  - paths: []
+forbidden:
+  - from: src/domain/**
+`, '.circular-deps.yml');
+
+    expect(parse).toThrow('layers[1].name: duplicate layer "ui"');
+    expect(parse).toThrow('layers[2].name: is required');
+    expect(parse).toThrow('layers[2].paths: expected a glob or a non-empty list of globs');
+    expect(parse).toThrow('forbidden[0].to: expected a glob or a non-empty list of globs');
+  });
+
+  it('should parse a graph schema as a profile name or an adjusted profile', () => {
+    expect(parseConfig('graphSchema: parse', '.circular-deps.yml').graphSchema).toEqual(GRAPH_SCHEMAS.parse);
+    expect(parseConfig(`
+graphSchema:
+  extends: dependency
+  dependencyTypes: [IMPORTS, RE_EXPORTS]
+`, '.circular-deps.yml').graphSchema).toEqual({
+      ...GRAPH_SCHEMAS.dependency,
+      name: 'custom (dependency)',
+      dependencyTypes: ['IMPORTS', 'RE_EXPORTS'],
+    });
+  });
+
+  it('should reject unknown graph schemas', () => {
+    expect(() => parseConfig('graphSchema: neo4j', '.circular-deps.yml')).toThrow('graphSchema: expected one of auto, dependency, parse');
+    expect(() => parseConfig('graphSchema: { fileLabels: [], edges: [] }', '.circular-deps.yml'))
+      .toThrow(/graphSchema\.edges: unknown key[\s\S]*graphSchema\.fileLabels: expected a non-empty list/);
+  });
+
+  it('should parse a JSON config with cycles given as file lists', () => {
+    const config = parseConfig(JSON.stringify({
+      defaultExcludes: false,
+      allowedCycles: [{ cycle: ['src/a.ts', 'src/b.ts', 'src/a.ts'], justification: 'Legacy' }],
+    }), '.circular-deps.json');
+
+    expect(config.defaultExcludes).toBe(false);
+    expect(config.allowedCycles).toEqual([{ files: ['src/a.ts', 'src/b.ts'], justification: 'Legacy' }]);
+  });
+
+  it('should report every invalid entry by path', () => {
+    let message = '';
+    try {
+      parseConfig(`
+exlude: ["dist/**"]
+severity:
+  legacy: off
+maxCycleLength: 1
+allowedCycles:
+  - cycle: src/a.ts
+    justification: ""
+    expires: next year
+`, '.circular-deps.yml');
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('Invalid config file .circular-deps.yml:');
+    expect(message).toContain('exlude: unknown key');
+    expect(message).toContain('severity.legacy: expected one of error, warn, ignore, got "off"');
+    expect(message).toContain('maxCycleLength: expected an integer of at least 2');
+    expect(message).toContain('allowedCycles[0].cycle: a cycle needs at least two files');
+    expect(message).toContain('allowedCycles[0].justification: is required');
+    expect(message).toContain('allowedCycles[0].expires: expected a date');
+  });
+
+  it('should report syntax errors with the file name', () => {
+    expect(() => parseConfig('{"include": [}', '.circular-deps.json')).toThrow('Invalid config file .circular-deps.json');
+  });
+});
+
+describe('loadConfig', () => {
+  it('should find the first existing config file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-config-'));
+    await fs.writeFile(path.join(dir, '.circular-deps.json'), '{"exclude": ["gen/**"]}');
+
+    const loaded = await loadConfig(dir);
+
+    expect(loaded?.file).toBe('.circular-deps.json');
+    expect(loaded?.config.exclude).toEqual(['gen/**']);
+  });
+
+  it('should return undefined without a config file and fail for a missing explicit one', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-config-'));
+
+    expect(await loadConfig(dir)).toBeUndefined();
+    await expect(loadConfig(dir, 'custom.yml')).rejects.toThrow('Config file custom.yml does not exist');
+  });
+});
+
+describe('getCycleSeverity', () => {
+  it('should use the strictest severity among the files of a cycle', () => {
+    const rules = parseConfig('severity:\n  legacy/: ignore\n', '.circular-deps.yml').severity;
+
+    expect(getCycleSeverity(rules, legacyCycle).severity).toBe('ignore');
+    expect(getCycleSeverity(rules, mixedCycle).severity).toBe('error');
+  });
+
+  it('should let later rules override earlier ones', () => {
+    const rules = parseConfig('severity:\n  "src/**": warn\n  src/a.ts: error\n', '.circular-deps.yml').severity;
+
+    expect(getCycleSeverity(rules, { ...cycleAB, cycle: ['src/b.ts', 'src/c.ts'] }).severity).toBe('warn');
+    expect(getCycleSeverity(rules, cycleAB).severity).toBe('error');
+  });
+});
+
+describe('matchAllowedCycles', () => {
+  it('should allow listed and ignored cycles and skip expired ones', () => {
+    const config = parseConfig(`
+severity:
+  legacy: ignore
+allowedCycles:
+  - cycle: [src/b.ts, src/a.ts]
+    justification: Shared registry
+  - cycle: legacy/x.ts -> src/a.ts
+    justification: Old bridge
+    expires: 2024-01-01
+`, '.circular-deps.yml');
+
+    const result = matchAllowedCycles([cycleAB, legacyCycle, mixedCycle], config, '2024-06-01');
+
+    expect(result.allowances).toEqual([
+      { id: cycleAB.id, reason: 'Shared registry' },
+      { id: legacyCycle.id, reason: 'Severity of `legacy` is ignore' },
+    ]);
+    expect(result.expired).toEqual([config.allowedCycles[1]]);
+  });
+
+  it('should keep an allowance valid on its expiry date', () => {
+    const config = parseConfig(`
+allowedCycles:
+  - cycle: src/a.ts -> src/b.ts
+    justification: Until the split
+    expires: 2024-06-01
+`, '.circular-deps.yml');
+
+    expect(matchAllowedCycles([cycleAB], config, '2024-06-01').allowances).toHaveLength(1);
+  });
+});
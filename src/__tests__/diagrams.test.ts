@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { CircularDependencyResult, findTangles } from '../circular-deps';
+import {
+  formatDiagramSection,
+  renderCycleMermaid,
+  renderCyclicSubgraphDot,
+  renderTangleMermaid,
+} from '../diagrams';
+import { graphOf } from './graph-fixtures';
+
+describe('renderCycleMermaid', () => {
+  it('should start at the break edge and highlight it', () => {
+    const cycle: CircularDependencyResult = {
+      id: 'a.ts->b.ts->c.ts',
+      cycle: ['a.ts', 'b.ts', 'c.ts'],
+      length: 3,
+      breakEdge: { from: 'b.ts', to: 'c.ts' },
+    };
+
+    expect(renderCycleMermaid(cycle)).toBe([
+      'flowchart LR',
+      '  n0["b.ts"]',
+      '  n1["c.ts"]',
+      '  n2["a.ts"]',
+      '  n0 ==> n1',
+      '  n1 --> n2',
+      '  n2 --> n0',
+      '  linkStyle 0 stroke:#d73a49,stroke-width:3px',
+    ].join('\n'));
+  });
+
+  it('should collapse the middle of long cycles', () => {
+    const files = Array.from({ length: 10 }, (_, index) => `f${index}.ts`);
+
+    const diagram = renderCycleMermaid({ id: files.join('->'), cycle: files, length: 10 }, { maxNodes: 5 });
+
+    expect(diagram).toContain('n3["… 6 more files"]');
+    expect(diagram).toContain('n4["f9.ts"]');
+    expect(diagram).toContain('n2 -.-> n3');
+    expect(diagram).toContain('n3 -.-> n4');
+    expect(diagram).toContain('n4 --> n0');
+  });
+});
+
+describe('renderTangleMermaid', () => {
+  it('should draw every edge inside the tangle', () => {
+    const graph = graphOf([['a.ts', 'b.ts'], ['b.ts', 'c.ts'], ['c.ts', 'a.ts'], ['c.ts', 'b.ts'], ['c.ts', 'x.ts']]);
+    const [tangle] = findTangles(graph);
+
+    const diagram = renderTangleMermaid(tangle, graph, [{ from: 'c.ts', to: 'a.ts' }]);
+
+    expect(diagram.split('\n').filter(line => line.includes('>'))).toEqual([
+      '  n0 --> n1',
+      '  n1 --> n2',
+      '  n2 ==> n0',
+      '  n2 --> n1',
+    ]);
+    expect(diagram).toContain('linkStyle 2 stroke:#d73a49');
+    expect(diagram).not.toContain('x.ts');
+  });
+});
+
+describe('formatDiagramSection', () => {
+  it('should skip two-file tangles', () => {
+    const graph = graphOf([['a.ts', 'b.ts'], ['b.ts', 'a.ts']]);
+
+    expect(formatDiagramSection([], findTangles(graph), graph)).toBeUndefined();
+  });
+
+  it('should embed mermaid blocks in collapsible sections', () => {
+    const graph = graphOf([['a.ts', 'b.ts'], ['b.ts', 'c.ts'], ['c.ts', 'a.ts']]);
+
+    const section = formatDiagramSection([], findTangles(graph), graph)!;
+
+    expect(section).toContain('### Diagrams');
+    expect(section).toContain('<summary>Tangle 1 (3 files)</summary>');
+    expect(section).toContain('```mermaid\nflowchart LR');
+  });
+});
+
+describe('renderCyclicSubgraphDot', () => {
+  it('should cluster tangles and style edges by kind', () => {
+    const graph = graphOf([
+      ['a.ts', 'b.ts'],
+      ['b.ts', 'a.ts', { typeOnly: true }],
+      ['a.ts', 'lib "x".ts'],
+    ]);
+
+    const dot = renderCyclicSubgraphDot(graph, findTangles(graph), [{ from: 'a.ts', to: 'b.ts' }]);
+
+    expect(dot).toContain('subgraph cluster_0 {');
+    expect(dot).toContain('label="Tangle 1 (2 files)";');
+    expect(dot).toContain('"a.ts" -> "b.ts" [color="#d73a49", penwidth=3, label="break"];');
+    expect(dot).toContain('"b.ts" -> "a.ts" [style=dashed];');
+    expect(dot).not.toContain('lib \\"x\\".ts');
+  });
+});
@@ -0,0 +1,5 @@
+package db
+
+import "github.com/acme/shop/internal/orders"
+
+var Pending = orders.Pending
@@ -0,0 +1,7 @@
+package orders
+
+import "github.com/acme/shop/internal/db"
+
+var Pending = 0
+
+func Place() { db.Query() }
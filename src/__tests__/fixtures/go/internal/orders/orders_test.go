@@ -0,0 +1,3 @@
+package orders_test
+
+import "github.com/acme/shop/internal/orders"
@@ -0,0 +1,5 @@
+package main
+
+import "github.com/acme/shop/internal/orders"
+
+func main() { orders.Place() }
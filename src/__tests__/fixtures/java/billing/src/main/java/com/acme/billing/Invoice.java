@@ -0,0 +1,7 @@
+package com.acme.billing;
+
+import com.acme.orders.Order;
+
+public class Invoice {
+  Order order;
+}
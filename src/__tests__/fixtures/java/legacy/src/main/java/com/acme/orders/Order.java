@@ -0,0 +1,3 @@
+package com.acme.orders;
+
+public class Order {}
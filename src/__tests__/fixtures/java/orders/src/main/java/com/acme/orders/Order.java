@@ -0,0 +1,7 @@
+package com.acme.orders;
+
+import com.acme.billing.Invoice;
+
+public class Order {
+  Invoice invoice;
+}
@@ -0,0 +1,6 @@
+package com.acme.orders;
+
+import static com.acme.orders.Order.Status.OPEN;
+import com.acme.billing.*;
+
+public class OrderService {}
@@ -0,0 +1,3 @@
+from . import db
+from .models import user
+from app.models import User
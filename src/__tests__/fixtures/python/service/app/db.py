@@ -0,0 +1,7 @@
+from app.models.user import User
+
+session = []
+
+
+def load_users():
+    return [User()]
@@ -0,0 +1,6 @@
+from ..db import session
+
+
+class User:
+    def save(self):
+        session.add(self)
@@ -0,0 +1,4 @@
+use shop_core::store::Store;
+use std::collections::HashMap;
+
+fn main() {}
@@ -0,0 +1,3 @@
+use super::super::store::Store;
+
+pub struct User;
@@ -0,0 +1,3 @@
+use crate::model::user::User;
+
+pub struct Store;
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Adjacency,
+  findElementaryCycles,
+  findStronglyConnectedComponents,
+} from '../graph-algorithms';
+
+function graphOf(edges: Array<[string, string]>): Adjacency {
+  const adjacency: Adjacency = new Map();
+  for (const [from, to] of edges) {
+    if (!adjacency.has(from)) {
+      adjacency.set(from, new Set());
+    }
+    if (!adjacency.has(to)) {
+      adjacency.set(to, new Set());
+    }
+    adjacency.get(from)!.add(to);
+  }
+  return adjacency;
+}
+
+const completeTriangle = graphOf([
+  ['a', 'b'], ['b', 'a'],
+  ['b', 'c'], ['c', 'b'],
+  ['a', 'c'], ['c', 'a'],
+]);
+
+describe('findStronglyConnectedComponents', () => {
+  it('should group mutually reachable nodes', () => {
+    const components = findStronglyConnectedComponents(graphOf([
+      ['a', 'b'], ['b', 'a'],
+      ['b', 'c'],
+      ['c', 'd'], ['d', 'e'], ['e', 'c'],
+    ]));
+
+    expect(components).toContainEqual(['a', 'b']);
+    expect(components).toContainEqual(['c', 'd', 'e']);
+    expect(components).toHaveLength(2);
+  });
+
+  it('should not overflow the stack on long chains', () => {
+    const edges: Array<[string, string]> = [];
+    for (let i = 0; i < 20000; i += 1) {
+      edges.push([`n${i}`, `n${i + 1}`]);
+    }
+    edges.push(['n20000', 'n0']);
+
+    const components = findStronglyConnectedComponents(graphOf(edges));
+
+    expect(components).toHaveLength(1);
+    expect(components[0]).toHaveLength(20001);
+  });
+});
+
+describe('findElementaryCycles', () => {
+  it('should enumerate every elementary cycle', () => {
+    const { cycles, truncated } = findElementaryCycles(completeTriangle);
+
+    expect(truncated).toBe(false);
+    expect(cycles).toEqual([
+      ['a', 'b'],
+      ['a', 'b', 'c'],
+      ['a', 'c'],
+      ['a', 'c', 'b'],
+      ['b', 'c'],
+    ]);
+  });
+
+  it('should respect the maximum cycle length', () => {
+    const { cycles } = findElementaryCycles(completeTriangle, { maxLength: 2 });
+
+    expect(cycles).toEqual([['a', 'b'], ['a', 'c'], ['b', 'c']]);
+  });
+
+  it('should stop at the maximum cycle count', () => {
+    const { cycles, truncated } = findElementaryCycles(completeTriangle, { maxCycles: 2 });
+
+    expect(cycles).toHaveLength(2);
+    expect(truncated).toBe(true);
+  });
+
+  it('should return the same cycles regardless of insertion order', () => {
+    const reversed = graphOf([
+      ['c', 'a'], ['a', 'c'],
+      ['c', 'b'], ['b', 'c'],
+      ['b', 'a'], ['a', 'b'],
+    ]);
+
+    expect(findElementaryCycles(reversed).cycles).toEqual(findElementaryCycles(completeTriangle).cycles);
+  });
+});
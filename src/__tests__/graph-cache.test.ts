@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createCachedProvider, openCacheStore } from '../graph-cache';
+import { CodeGraph, GraphProvider } from '../graph-provider';
+import { fileNode } from './graph-fixtures';
+
+const silentLogger = { info: () => undefined, warning: () => undefined };
+
+async function createRepo(): Promise<string> {
+  const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-cache-'));
+  await fs.writeFile(path.join(repo, 'a.ts'), 'export const a = 1;\n');
+  execSync('git init -q && git add -A && git -c user.name=t -c user.email=t@t commit -qm init', { cwd: repo });
+  return repo;
+}
+
+function countingProvider(): GraphProvider & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    name: 'local',
+    calls,
+    async generateGraph(_workspacePath: string, ref: string): Promise<CodeGraph> {
+      calls.push(ref);
+      return { nodes: [fileNode(ref, { filePath: 'a.ts' })], relationships: [] };
+    },
+  };
+}
+
+describe('openCacheStore', () => {
+  it('should keep the most recently used entries when saving', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-cache-')), 'store.json');
+    const store = await openCacheStore<number>(filePath, 2);
+    store.set('a', 1);
+    store.set('b', 2);
+    store.get('a');
+    store.set('c', 3);
+    await store.save();
+
+    const reopened = await openCacheStore<number>(filePath, 2);
+
+    expect(reopened.get('a')).toBe(1);
+    expect(reopened.get('b')).toBeUndefined();
+    expect(reopened.get('c')).toBe(3);
+  });
+
+  it('should start empty when the file is corrupt', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-cache-')), 'store.json');
+    await fs.writeFile(filePath, '{"version": 1, "entries": ');
+
+    expect((await openCacheStore<number>(filePath, 10)).get('a')).toBeUndefined();
+  });
+});
+
+describe('createCachedProvider', () => {
+  it('should reuse the graph of a tree across commits with the same contents', async () => {
+    const repo = await createRepo();
+    execSync('git -c user.name=t -c user.email=t@t commit -q --allow-empty -m empty', { cwd: repo });
+    const provider = countingProvider();
+    const cached = createCachedProvider(provider, { directory: path.join(repo, '.cache'), logger: silentLogger });
+
+    const first = await cached.generateGraph(repo, 'HEAD~1');
+    const second = await cached.generateGraph(repo, 'HEAD');
+
+    expect(provider.calls).toEqual(['HEAD~1']);
+    expect(second).toEqual(first);
+  });
+
+  it('should build a new graph when the contents change and prune old ones', async () => {
+    const repo = await createRepo();
+    const directory = path.join(repo, '.cache');
+    const provider = countingProvider();
+    const cached = createCachedProvider(provider, { directory, maxGraphs: 1, logger: silentLogger });
+
+    await cached.generateGraph(repo, 'HEAD');
+    await fs.writeFile(path.join(repo, 'a.ts'), 'export const a = 2;\n');
+    execSync('git -c user.name=t -c user.email=t@t commit -qam change', { cwd: repo });
+    await cached.generateGraph(repo, 'HEAD');
+
+    expect(provider.calls).toEqual(['HEAD', 'HEAD']);
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+});
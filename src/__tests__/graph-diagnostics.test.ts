@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { GraphDiagnostics } from '../circular-deps';
+import { formatDiagnosticsReport, getDiagnosticWarnings, summarizeDiagnostics } from '../graph-diagnostics';
+
+const none = { count: 0, samples: [] };
+
+const diagnostics: GraphDiagnostics = {
+  schema: 'dependency',
+  nodes: 40,
+  relationships: 120,
+  fileNodes: 30,
+  dependencies: 70,
+  relationshipTypes: [
+    { type: 'IMPORTS', count: 70, dependency: true },
+    { type: 'CALLS', count: 45, dependency: false },
+    { type: 'DEFINES', count: 5, dependency: false },
+  ],
+  nodesWithoutPath: none,
+  danglingRelationships: none,
+  unresolvedTargets: { count: 12, samples: ['react', 'lodash'] },
+  ignoredFiles: none,
+};
+
+describe('summarizeDiagnostics', () => {
+  it('should name the schema and the ignored relationship types', () => {
+    expect(summarizeDiagnostics(diagnostics)).toBe(
+      'Mapped 70 of 120 relationships to dependencies with the dependency schema; ignored CALLS (45), DEFINES (5)'
+    );
+  });
+});
+
+describe('getDiagnosticWarnings', () => {
+  it('should stay quiet when the schema fits the graph', () => {
+    expect(getDiagnosticWarnings(diagnostics)).toEqual([]);
+  });
+
+  it('should warn when no relationship or node maps', () => {
+    const warnings = getDiagnosticWarnings({
+      ...diagnostics,
+      fileNodes: 0,
+      dependencies: 0,
+      danglingRelationships: { count: 1, samples: ['a -> b'] },
+    });
+
+    expect(warnings).toEqual([
+      'None of the 120 relationships maps to a dependency with the dependency schema, so no cycle can be found. ' +
+        'Relationship types in the graph: IMPORTS, CALLS, DEFINES',
+      'No node is labeled as a file by the dependency schema; every node is treated as a file',
+      'Dependencies pointing at nodes missing from the graph (1): a -> b',
+    ]);
+  });
+});
+
+describe('formatDiagnosticsReport', () => {
+  it('should list every relationship type and the unmapped samples', () => {
+    expect(formatDiagnosticsReport(diagnostics)).toBe([
+      'Graph schema: dependency',
+      'Nodes: 40 (30 files or modules)',
+      'Relationships: 120 (70 dependencies)',
+      'Relationship types:',
+      '  IMPORTS       70  dependency',
+      '  CALLS         45  ignored',
+      '  DEFINES        5  ignored',
+      'Dependency targets that are not files (12): react, lodash, ... (10 more)',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { findCircularDependencies } from '../circular-deps';
+import { createGraphFileProvider, parseGraphFile, parseGraphFileFormat, writeGraphFile } from '../graph-file';
+
+function cycleIds(content: string, root?: string): string[] {
+  const { graph } = parseGraphFile(content, { root });
+  return findCircularDependencies(graph.nodes, graph.relationships).map(cycle => cycle.id);
+}
+
+describe('parseGraphFile', () => {
+  it('should read a saved Supermodel response', () => {
+    const content = JSON.stringify({
+      graph: {
+        nodes: [
+          { id: 'n1', labels: ['File'], properties: { filePath: 'src/a.ts' } },
+          { id: 'n2', labels: ['File'], properties: { filePath: 'src/b.ts' } },
+        ],
+        relationships: [
+          { id: 'r1', type: 'IMPORTS', startNode: 'n1', endNode: 'n2' },
+          { id: 'r2', type: 'IMPORTS', startNode: 'n2', endNode: 'n1' },
+        ],
+      },
+      message: 'ok',
+    });
+
+    expect(parseGraphFile(content).format).toBe('supermodel');
+    expect(parseGraphFile(content).graph.message).toBe('ok');
+    expect(cycleIds(content)).toEqual(['src/a.ts->src/b.ts']);
+  });
+
+  it('should read madge --json output', () => {
+    const content = JSON.stringify({
+      'src/a.ts': ['src/b.ts'],
+      'src/b.ts': ['./src/a.ts'],
+      'src/c.ts': [],
+    });
+
+    const { format, graph } = parseGraphFile(content);
+
+    expect(format).toBe('madge');
+    expect(graph.nodes.map(node => node.id).sort()).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(cycleIds(content)).toEqual(['src/a.ts->src/b.ts']);
+  });
+
+  it('should read dependency-cruiser output and keep type-only and dynamic imports apart', () => {
+    const content = JSON.stringify({
+      modules: [
+        {
+          source: 'src/a.ts',
+          dependencies: [
+            { resolved: 'src/b.ts', module: './b', dependencyTypes: ['local', 'type-only'] },
+            { resolved: 'fs', module: 'fs', coreModule: true, dependencyTypes: ['core'] },
+            { resolved: 'missing', module: './missing', couldNotResolve: true },
+          ],
+        },
+        {
+          source: 'src/b.ts',
+          dependencies: [{ resolved: 'src/a.ts', module: './a', dynamic: true, dependencyTypes: ['local'] }],
+        },
+      ],
+      summary: {},
+    });
+
+    const { format, graph } = parseGraphFile(content);
+    const [cycle] = findCircularDependencies(graph.nodes, graph.relationships);
+
+    expect(format).toBe('dependency-cruiser');
+    expect(graph.relationships).toHaveLength(2);
+    expect(cycle.edges?.map(edge => `${edge.from}->${edge.to}:${edge.kind}:${edge.imports[0].specifier}`)).toEqual([
+      'src/a.ts->src/b.ts:type-only:./b',
+      'src/b.ts->src/a.ts:dynamic:./a',
+    ]);
+  });
+
+  it('should link LSIF documents to the documents defining what they reference', () => {
+    const elements = [
+      { id: 1, type: 'vertex', label: 'metaData', projectRoot: 'file:///work/repo' },
+      { id: 2, type: 'vertex', label: 'document', uri: 'file:///work/repo/src/a.ts' },
+      { id: 3, type: 'vertex', label: 'document', uri: 'file:///work/repo/src/b.ts' },
+      { id: 4, type: 'vertex', label: 'document', uri: 'file:///other/lib.d.ts' },
+      // a.ts defines `a` at line 1 and references `b` at line 3
+      { id: 10, type: 'vertex', label: 'range', start: { line: 0, character: 0 } },
+      { id: 11, type: 'vertex', label: 'range', start: { line: 2, character: 0 } },
+      // b.ts defines `b` at line 1 and references `a` at line 5
+      { id: 12, type: 'vertex', label: 'range', start: { line: 0, character: 0 } },
+      { id: 13, type: 'vertex', label: 'range', start: { line: 4, character: 0 } },
+      { id: 20, type: 'vertex', label: 'resultSet' },
+      { id: 21, type: 'vertex', label: 'resultSet' },
+      { id: 30, type: 'vertex', label: 'definitionResult' },
+      { id: 31, type: 'vertex', label: 'definitionResult' },
+      { id: 40, type: 'edge', label: 'contains', outV: 2, inVs: [10, 11] },
+      { id: 41, type: 'edge', label: 'contains', outV: 3, inVs: [12, 13] },
+      { id: 42, type: 'edge', label: 'next', outV: 10, inV: 20 },
+      { id: 43, type: 'edge', label: 'next', outV: 13, inV: 20 },
+      { id: 44, type: 'edge', label: 'next', outV: 12, inV: 21 },
+      { id: 45, type: 'edge', label: 'next', outV: 11, inV: 21 },
+      { id: 46, type: 'edge', label: 'textDocument/definition', outV: 20, inV: 30 },
+      { id: 47, type: 'edge', label: 'textDocument/definition', outV: 21, inV: 31 },
+      { id: 48, type: 'edge', label: 'item', outV: 30, inVs: [10], document: 2 },
+      { id: 49, type: 'edge', label: 'item', outV: 31, inVs: [12], document: 3 },
+    ];
+    const content = elements.map(element => JSON.stringify(element)).join('\n');
+
+    const { format, graph } = parseGraphFile(content);
+
+    expect(format).toBe('lsif');
+    expect(graph.nodes.map(node => node.id)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(graph.relationships.map(rel => `${rel.startNode}:${rel.properties?.line}->${rel.endNode}`)).toEqual([
+      'src/a.ts:3->src/b.ts',
+      'src/b.ts:5->src/a.ts',
+    ]);
+  });
+
+  it('should link SCIP documents through the global symbols they reference', () => {
+    const content = JSON.stringify({
+      metadata: { projectRoot: 'file:///work/repo' },
+      documents: [
+        {
+          relativePath: 'src/a.ts',
+          occurrences: [
+            { range: [0, 13, 14], symbol: 'npm pkg 1.0 src/`a.ts`/a.', symbolRoles: 1 },
+            { range: [3, 2, 3], symbol: 'npm pkg 1.0 src/`b.ts`/b.' },
+            { range: [4, 2, 3], symbol: 'local 0' },
+          ],
+        },
+        {
+          relativePath: 'src/b.ts',
+          occurrences: [
+            { range: [0, 13, 14], symbol: 'npm pkg 1.0 src/`b.ts`/b.', symbolRoles: 1 },
+            { range: [6, 2, 3], symbol: 'npm pkg 1.0 src/`a.ts`/a.', symbolRoles: 8 },
+            { range: [7, 2, 3], symbol: 'local 0', symbolRoles: 1 },
+          ],
+        },
+      ],
+    });
+
+    const { format, graph } = parseGraphFile(content);
+
+    expect(format).toBe('scip');
+    expect(graph.relationships.map(rel => `${rel.startNode}:${rel.properties?.line}->${rel.endNode}`)).toEqual([
+      'src/a.ts:4->src/b.ts',
+      'src/b.ts:7->src/a.ts',
+    ]);
+  });
+
+  it('should name the supported formats for anything else', () => {
+    expect(() => parseGraphFile('\u0000\u0001binary')).toThrow('Expected one of: supermodel, madge');
+    expect(() => parseGraphFile('[1, 2]')).toThrow('scip print --json');
+  });
+
+  it('should only read an empty object as madge when the format is given', () => {
+    expect(() => parseGraphFile('{}')).toThrow('Set the graph format to madge');
+    expect(parseGraphFile('{}', { format: 'madge' }).graph.nodes).toEqual([]);
+  });
+
+  it('should read a file in the given format and reject contents of another', () => {
+    const content = JSON.stringify({ modules: ['src/a.ts'], documents: ['src/b.ts'] });
+
+    expect(parseGraphFile(content).format).toBe('dependency-cruiser');
+    expect(parseGraphFile(content, { format: 'madge' }).graph.relationships.map(rel => rel.endNode))
+      .toEqual(['src/a.ts', 'src/b.ts']);
+    expect(() => parseGraphFile(content, { format: 'lsif' })).toThrow('Graph file is not lsif JSON');
+  });
+});
+
+describe('parseGraphFileFormat', () => {
+  it('should detect the format unless a known one is given', () => {
+    expect(parseGraphFileFormat('')).toBeUndefined();
+    expect(parseGraphFileFormat('auto')).toBeUndefined();
+    expect(parseGraphFileFormat(' Madge ')).toBe('madge');
+    expect(() => parseGraphFileFormat('graphml')).toThrow('Unknown graph format "graphml"');
+  });
+});
+
+describe('writeGraphFile and createGraphFileProvider', () => {
+  it('should save a graph that loads back the same for any ref', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-file-'));
+    const filePath = path.join(dir, 'artifacts', 'graph.json');
+    const { graph } = parseGraphFile(JSON.stringify({ 'src/a.ts': ['src/b.ts'], 'src/b.ts': ['src/a.ts'] }));
+    const messages: string[] = [];
+
+    await writeGraphFile(filePath, graph);
+    const provider = createGraphFileProvider(filePath, { info: message => messages.push(message), warning: () => {} });
+    const loaded = await provider.generateGraph(dir, 'HEAD');
+
+    expect(loaded.nodes).toEqual(graph.nodes);
+    expect(loaded.relationships).toEqual(graph.relationships);
+    expect(await provider.generateGraph(dir, 'main')).toEqual(loaded);
+    expect(messages[0]).toBe('Loaded supermodel graph from artifacts/graph.json with 2 nodes and 2 relationships');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,45 @@
+import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+import { buildDependencyGraph, DependencyGraph } from '../circular-deps';
+
+/**
+ * An import between two files, with optional relationship properties such as `line` or `specifier`.
+ */
+export type ImportEdge = [from: string, to: string, properties?: Record<string, unknown>];
+
+/**
+ * Creates a file node whose id is its path.
+ * @param id - Node id, also used as the file path
+ * @param properties - Node properties; a `filePath` equal to the id when omitted
+ * @returns The node
+ */
+export function fileNode(id: string, properties: Record<string, unknown> = { filePath: id }): CodeGraphNode {
+  return { id, labels: ['File'], properties };
+}
+
+/**
+ * Creates an IMPORTS relationship between two nodes.
+ * @param startNode - Id of the importing node
+ * @param endNode - Id of the imported node
+ * @param properties - Relationship properties
+ * @returns The relationship
+ */
+export function importRelationship(
+  startNode: string,
+  endNode: string,
+  properties: Record<string, unknown> = {}
+): CodeGraphRelationship {
+  return { id: `${startNode}->${endNode}`, type: 'IMPORTS', startNode, endNode, properties };
+}
+
+/**
+ * Builds a dependency graph with one file node per path named by the edges.
+ * @param edges - Imports between files
+ * @returns The graph
+ */
+export function graphOf(edges: ImportEdge[]): DependencyGraph {
+  const files = Array.from(new Set(edges.flatMap(([from, to]) => [from, to])));
+  return buildDependencyGraph(
+    files.map(file => fileNode(file)),
+    edges.map(([from, to, properties]) => importRelationship(from, to, properties))
+  );
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { DependencyGraph, formatPrComment } from '../circular-deps';
+import {
+  collapseGraph,
+  findGroupCycles,
+  groupByDirectory,
+  groupByPackage,
+  groupByPatterns,
+  parseGroupPatterns,
+  parseGroupingMode,
+} from '../grouping';
+
+function graphOf(edges: Array<[string, string]>): DependencyGraph {
+  const adjacency = new Map<string, Set<string>>();
+  for (const [from, to] of edges) {
+    if (!adjacency.has(from)) {
+      adjacency.set(from, new Set());
+    }
+    adjacency.get(from)!.add(to);
+  }
+  return { adjacency, imports: new Map() };
+}
+
+describe('parseGroupingMode', () => {
+  it('should treat an empty value as disabled', () => {
+    expect(parseGroupingMode('')).toBeUndefined();
+    expect(parseGroupingMode('none')).toBeUndefined();
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => parseGroupingMode('layer')).toThrow('Unknown grouping "layer"');
+  });
+});
+
+describe('groupers', () => {
+  it('should group by the innermost workspace package', () => {
+    const grouper = groupByPackage([
+      { name: 'root', dir: '', manifest: {} },
+      { name: '@acme/ui', dir: 'packages/ui', manifest: {} },
+    ]);
+
+    expect(grouper('packages/ui/src/button.ts')).toBe('@acme/ui');
+    expect(grouper('scripts/build.ts')).toBe('root');
+    expect(groupByPackage([{ name: '@acme/ui', dir: 'packages/ui', manifest: {} }])('scripts/build.ts')).toBeUndefined();
+  });
+
+  it('should group by directory prefix', () => {
+    expect(groupByDirectory(1)('src/db/index.ts')).toBe('src');
+    expect(groupByDirectory(2)('src/db/index.ts')).toBe('src/db');
+    expect(groupByDirectory(2)('src/index.ts')).toBe('src');
+    expect(groupByDirectory(2)('index.ts')).toBe('.');
+  });
+
+  it('should use the first matching pattern', () => {
+    const grouper = groupByPatterns({ 'src/ui/legacy/**': 'legacy', 'src/ui/**': 'ui' });
+
+    expect(grouper('src/ui/legacy/form.ts')).toBe('legacy');
+    expect(grouper('src/ui/button.ts')).toBe('ui');
+    expect(grouper('src/db/index.ts')).toBeUndefined();
+  });
+
+  it('should validate group patterns', () => {
+    expect(parseGroupPatterns('{"src/**": "src"}')).toEqual({ 'src/**': 'src' });
+    expect(() => parseGroupPatterns('["src/**"]')).toThrow('Invalid groups');
+    expect(() => parseGroupPatterns('{"src/**": 1}')).toThrow('pattern "src/**"');
+  });
+});
+
+describe('collapseGraph', () => {
+  it('should drop edges inside a group and keep the file edges behind each group edge', () => {
+    const graph = graphOf([
+      ['ui/a.ts', 'ui/b.ts'],
+      ['ui/a.ts', 'services/x.ts'],
+      ['ui/b.ts', 'services/y.ts'],
+    ]);
+
+    const collapsed = collapseGraph(graph, groupByDirectory(1));
+
+    expect(Array.from(collapsed.adjacency.get('ui')!)).toEqual(['services']);
+    expect(collapsed.links.get('ui')!.get('services')).toEqual([
+      { from: 'ui/a.ts', to: 'services/x.ts' },
+      { from: 'ui/b.ts', to: 'services/y.ts' },
+    ]);
+  });
+});
+
+describe('findGroupCycles', () => {
+  it('should find cycles between groups even when the files do not form a cycle', () => {
+    const graph = graphOf([
+      ['ui/button.ts', 'services/api.ts'],
+      ['services/events.ts', 'ui/toast.ts'],
+    ]);
+
+    const cycles = findGroupCycles(graph, groupByDirectory(1));
+
+    expect(cycles).toEqual([{
+      id: 'services->ui',
+      cycle: ['services', 'ui'],
+      length: 2,
+      links: [
+        { from: 'services', to: 'ui', edges: [{ from: 'services/events.ts', to: 'ui/toast.ts' }] },
+        { from: 'ui', to: 'services', edges: [{ from: 'ui/button.ts', to: 'services/api.ts' }] },
+      ],
+    }]);
+  });
+
+  it('should list group cycles in the PR comment', () => {
+    const graph = graphOf([
+      ['ui/button.ts', 'services/api.ts'],
+      ['ui/form.ts', 'services/api.ts'],
+      ['services/events.ts', 'ui/toast.ts'],
+    ]);
+
+    const comment = formatPrComment([], { groupCycles: findGroupCycles(graph, groupByDirectory(1)) });
+
+    expect(comment).toContain('### Group cycles (1)');
+    expect(comment).toContain('services -> ui -> services');
+    expect(comment).toContain('`ui` -> `services`: ui/button.ts -> services/api.ts (+1 more)');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, detectCycles } from '../circular-deps';
+import { analyzeInitOrder, findEvaluationTimeUses } from '../init-order';
+import { buildLocalGraph } from '../local-graph';
+
+function usesOf(source: string, fileName = 'src/a.ts'): string[] {
+  return findEvaluationTimeUses(fileName, source).map(use => `${use.binding}:${use.line}:${use.usage}`);
+}
+
+function analyze(files: Record<string, string>) {
+  const sources = new Map(Object.entries(files));
+  const { nodes, relationships } = buildLocalGraph(sources);
+  const { cycles } = detectCycles(buildDependencyGraph(nodes, relationships), { enumerateAllCycles: true });
+  return analyzeInitOrder(cycles, sources);
+}
+
+describe('findEvaluationTimeUses', () => {
+  it('should find bindings used by extends clauses, decorators and top-level initializers', () => {
+    const source = [
+      "import { Base, register, DEFAULTS, Column } from './b';",
+      '@register',
+      'export class A extends Base {',
+      '  static defaults = DEFAULTS;',
+      '  @Column() name = DEFAULTS.name;',
+      '}',
+      'export const options = { ...DEFAULTS };',
+      'register(A);',
+    ].join('\n');
+
+    expect(usesOf(source)).toEqual([
+      'register:2:decorator',
+      'Base:3:extends',
+      'DEFAULTS:4:initializer',
+      'Column:5:decorator',
+      'DEFAULTS:7:initializer',
+      'register:8:statement',
+    ]);
+  });
+
+  it('should skip uses inside functions, methods, instance fields and types', () => {
+    const source = [
+      "import { helper, Model, DEFAULTS } from './b';",
+      "import type { Shape } from './c';",
+      'export function run(shape: Shape): Model { return helper(shape); }',
+      'export const lazy = () => new Model();',
+      'export class A implements Model {',
+      '  value = DEFAULTS;',
+      '  method(): Model { return helper(this.value); }',
+      '}',
+      'export { helper };',
+    ].join('\n');
+
+    expect(usesOf(source)).toEqual([]);
+  });
+
+  it('should run immediately invoked functions with the module and name namespace members', () => {
+    const source = [
+      "import * as models from './models';",
+      "import config = require('./config');",
+      '(() => { models.init(); })();',
+      'export default config.value;',
+    ].join('\n');
+
+    expect(findEvaluationTimeUses('src/a.ts', source)).toEqual([
+      { binding: 'models.init', specifier: './models', importLine: 1, line: 3, usage: 'statement' },
+      { binding: 'config.value', specifier: './config', importLine: 2, line: 4, usage: 'initializer' },
+    ]);
+  });
+});
+
+describe('analyzeInitOrder', () => {
+  it('should rank a cycle hazardous when a module extends a class of the next one', () => {
+    const [cycle] = analyze({
+      'src/base.ts': "import { User } from './user';\nexport class Base {\n  create(): User { return new User(); }\n}\n",
+      'src/user.ts': "import { Base } from './base';\n\nexport class User extends Base {}\n",
+    });
+
+    expect(cycle.initOrder).toBe('hazardous');
+    expect(cycle.hazards).toEqual([
+      { from: 'src/user.ts', to: 'src/base.ts', binding: 'Base', line: 3, usage: 'extends' },
+    ]);
+  });
+
+  it('should rank a cycle benign when imported bindings are only used inside functions', () => {
+    const [cycle] = analyze({
+      'src/a.ts': "import { b } from './b';\nexport function a() { return b(); }\n",
+      'src/b.ts': "import { a } from './a';\nexport function b() { return a(); }\n",
+    });
+
+    expect(cycle.initOrder).toBe('benign');
+    expect(cycle.hazards).toEqual([]);
+  });
+
+  it('should leave cycles that are not runtime cycles or whose sources are missing alone', () => {
+    const sources = new Map([
+      ['src/a.ts', "import type { B } from './b';\nexport const a = 1;\n"],
+      ['src/b.ts', "import { a } from './a';\nexport const b = a;\n"],
+    ]);
+    const { nodes, relationships } = buildLocalGraph(sources);
+    const { cycles } = detectCycles(buildDependencyGraph(nodes, relationships));
+
+    expect(analyzeInitOrder(cycles, sources)[0].initOrder).toBeUndefined();
+    expect(analyzeInitOrder([{ ...cycles[0], kind: 'runtime' }], new Map())[0].initOrder).toBeUndefined();
+  });
+
+  it('should match uses to dependencies by specifier when the graph has no import sites', () => {
+    const sources = new Map([
+      ['src/a.ts', "import { b } from './b';\nexport const a = b + 1;\n"],
+      ['src/b.ts', "import { a } from './a';\nexport function b() { return a; }\n"],
+    ]);
+    const cycle = {
+      id: 'src/a.ts->src/b.ts',
+      cycle: ['src/a.ts', 'src/b.ts'],
+      length: 2,
+    };
+
+    expect(analyzeInitOrder([cycle], sources)[0].hazards).toEqual([
+      { from: 'src/a.ts', to: 'src/b.ts', binding: 'b', line: 2, usage: 'initializer' },
+    ]);
+  });
+});
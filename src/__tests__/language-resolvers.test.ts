@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildDependencyGraph, detectCycles } from '../circular-deps';
+import {
+  createGoResolver,
+  createJavaResolver,
+  createPythonResolver,
+  createRustResolver,
+} from '../language-resolvers';
+import { createModuleResolution, isManifestFile } from '../module-resolver';
+import { fileNode, importRelationship } from './graph-fixtures';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function loadFixture(name: string): { files: Set<string>; manifests: Map<string, string> } {
+  const root = path.join(FIXTURES, name);
+  const files = new Set<string>();
+  const manifests = new Map<string, string>();
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+        continue;
+      }
+      const filePath = path.relative(root, fullPath).split(path.sep).join('/');
+      files.add(filePath);
+      if (isManifestFile(filePath)) {
+        manifests.set(filePath, fs.readFileSync(fullPath, 'utf8'));
+      }
+    }
+  };
+  walk(root);
+  return { files, manifests };
+}
+
+describe('createPythonResolver', () => {
+  const { files } = loadFixture('python');
+  const resolver = createPythonResolver(files);
+
+  it('should resolve dotted imports from the source root of the package', () => {
+    expect(resolver.resolveImport('app.models.user', 'service/app/db.py')).toBe('service/app/models/user.py');
+    expect(resolver.resolveImport('app.models', 'service/app/api.py')).toBe('service/app/models/__init__.py');
+  });
+
+  it('should fall back to the parent module for imported names', () => {
+    expect(resolver.resolveImport('app.models.User', 'service/app/api.py')).toBe('service/app/models/__init__.py');
+    expect(resolver.resolveImport('requests.adapters', 'service/app/api.py')).toBeUndefined();
+  });
+
+  it('should resolve relative imports', () => {
+    expect(resolver.resolveImport('..db', 'service/app/models/user.py')).toBe('service/app/db.py');
+    expect(resolver.resolveImport('.user', 'service/app/models/__init__.py')).toBe('service/app/models/user.py');
+    expect(resolver.resolveImport('.', 'service/app/api.py')).toBe('service/app/__init__.py');
+  });
+
+  it('should resolve sibling modules of scripts outside a package', () => {
+    expect(resolver.resolveImport('helpers', 'scripts/migrate.py')).toBe('scripts/helpers.py');
+  });
+
+  it('should resolve module names used as node names', () => {
+    expect(resolver.resolveModuleName('app.db')).toBe('service/app/db.py');
+    expect(resolver.resolveModuleName('app/db.py')).toBeUndefined();
+  });
+});
+
+describe('createGoResolver', () => {
+  const { files, manifests } = loadFixture('go');
+  const resolver = createGoResolver(files, manifests);
+
+  it('should resolve import paths to a file of the package through go.mod', () => {
+    expect(resolver.resolveImport('github.com/acme/shop/internal/db', 'internal/orders/orders.go'))
+      .toBe('internal/db/conn.go');
+    expect(resolver.resolveImport('github.com/other/lib', 'main.go')).toBeUndefined();
+    expect(resolver.resolveModuleName('github.com/acme/shop/internal/orders')).toBe('internal/orders/orders.go');
+  });
+
+  it('should map package files to their directory but keep test files apart', () => {
+    expect(resolver.getModulePath!('internal/db/query.go')).toBe('internal/db');
+    expect(resolver.getModulePath!('main.go')).toBe('.');
+    expect(resolver.getModulePath!('internal/orders/orders_test.go')).toBe('internal/orders/orders_test.go');
+  });
+});
+
+describe('createRustResolver', () => {
+  const { files, manifests } = loadFixture('rust');
+  const resolver = createRustResolver(files, manifests);
+
+  it('should resolve crate, super and mod paths to module files', () => {
+    expect(resolver.resolveImport('crate::model::user::User', 'core/src/store.rs')).toBe('core/src/model/user.rs');
+    expect(resolver.resolveImport('super::super::store::Store', 'core/src/model/user.rs')).toBe('core/src/store.rs');
+    expect(resolver.resolveImport('model', 'core/src/lib.rs')).toBe('core/src/model/mod.rs');
+    expect(resolver.resolveImport('user', 'core/src/model/mod.rs')).toBe('core/src/model/user.rs');
+  });
+
+  it('should resolve paths into other workspace crates and skip external ones', () => {
+    expect(resolver.resolveImport('shop_core::store::Store', 'cli/src/main.rs')).toBe('core/src/store.rs');
+    expect(resolver.resolveImport('std::collections::HashMap', 'cli/src/main.rs')).toBeUndefined();
+    expect(resolver.resolveImport('crate::model::{user, User}', 'core/src/store.rs')).toBe('core/src/model/mod.rs');
+  });
+});
+
+describe('createJavaResolver', () => {
+  const { files } = loadFixture('java');
+  const resolver = createJavaResolver(files);
+
+  it('should resolve classes in any source root, preferring the importing module', () => {
+    expect(resolver.resolveImport('com.acme.billing.Invoice', 'orders/src/main/java/com/acme/orders/Order.java'))
+      .toBe('billing/src/main/java/com/acme/billing/Invoice.java');
+    expect(resolver.resolveImport('com.acme.orders.Order', 'legacy/src/main/java/com/acme/orders/Other.java'))
+      .toBe('legacy/src/main/java/com/acme/orders/Order.java');
+  });
+
+  it('should fall back to the enclosing class of nested classes and static members', () => {
+    expect(resolver.resolveImport('static com.acme.orders.Order.Status.OPEN', 'orders/src/main/java/com/acme/orders/OrderService.java'))
+      .toBe('orders/src/main/java/com/acme/orders/Order.java');
+    expect(resolver.resolveImport('com.acme.billing.*', 'orders/src/main/java/com/acme/orders/OrderService.java'))
+      .toBeUndefined();
+  });
+});
+
+describe('createModuleResolution', () => {
+  it('should find Python cycles in a graph whose nodes are named after modules', () => {
+    const { files, manifests } = loadFixture('python');
+    const graph = buildDependencyGraph(
+      [
+        fileNode('m1', { name: 'app.db' }),
+        fileNode('m2', { name: 'app.models.user' }),
+        fileNode('m3', { name: 'app.api' }),
+      ],
+      [importRelationship('m1', 'm2'), importRelationship('m2', 'm1'), importRelationship('m3', 'm1')],
+      [],
+      createModuleResolution(files, manifests)
+    );
+
+    expect(detectCycles(graph).cycles.map(cycle => cycle.id)).toEqual(['service/app/db.py->service/app/models/user.py']);
+  });
+
+  it('should report Go cycles between packages', () => {
+    const { files, manifests } = loadFixture('go');
+    const nodes = ['internal/db/conn.go', 'internal/db/query.go', 'internal/orders/orders.go', 'main.go']
+      .map(filePath => fileNode(filePath, { name: filePath }));
+    const importOf = (file: string, importPath: string) => importRelationship(file, importPath, { specifier: importPath });
+    const graph = buildDependencyGraph(
+      nodes,
+      [
+        importOf('internal/db/conn.go', 'github.com/acme/shop/internal/orders'),
+        importOf('internal/orders/orders.go', 'github.com/acme/shop/internal/db'),
+        importOf('main.go', 'github.com/acme/shop/internal/orders'),
+      ],
+      [],
+      createModuleResolution(files, manifests)
+    );
+
+    expect(Array.from(graph.adjacency.keys()).sort()).toEqual(['.', 'internal/db', 'internal/orders']);
+    expect(detectCycles(graph).cycles.map(cycle => cycle.id)).toEqual(['internal/db->internal/orders']);
+    expect(graph.imports.get('internal/db')?.get('internal/orders')).toEqual([{
+      specifier: 'github.com/acme/shop/internal/orders',
+      relationshipType: 'IMPORTS',
+      kind: 'runtime',
+      file: 'internal/db/conn.go',
+    }]);
+  });
+
+  it('should keep resolving TS/JS imports as before', () => {
+    const resolution = createModuleResolution(new Set(['src/a.ts', 'src/b.ts']), new Map());
+
+    expect(resolution.resolveSpecifier('./b', 'src/a.ts')).toBe('src/b.ts');
+    expect(resolution.getModulePath('src/a.ts')).toBe('src/a.ts');
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildLocalGraph,
+  createLocalGraphProvider,
+  parseImports,
+  resolveRelativeImport,
+} from '../local-graph';
+import { findCircularDependencies } from '../circular-deps';
+
+describe('parseImports', () => {
+  it('should find every kind of module reference', () => {
+    const source = [
+      "import { a } from './a';",
+      "import type { B } from './b';",
+      "export { c } from './c';",
+      "export * from './d';",
+      "const e = require('./e');",
+      "import f = require('./f');",
+      'async function load() {',
+      "  return import('./g');",
+      '}',
+      "import './h';",
+    ].join('\n');
+
+    const imports = parseImports('src/index.ts', source);
+
+    expect(imports).toEqual([
+      { specifier: './a', line: 1, syntax: 'import', typeOnly: false },
+      { specifier: './b', line: 2, syntax: 'import', typeOnly: true },
+      { specifier: './c', line: 3, syntax: 'export', typeOnly: false },
+      { specifier: './d', line: 4, syntax: 'export', typeOnly: false },
+      { specifier: './e', line: 5, syntax: 'require', typeOnly: false },
+      { specifier: './f', line: 6, syntax: 'require', typeOnly: false },
+      { specifier: './g', line: 8, syntax: 'dynamic-import', typeOnly: false },
+      { specifier: './h', line: 10, syntax: 'import', typeOnly: false },
+    ]);
+  });
+
+  it('should treat imports with only type bindings as type-only', () => {
+    const imports = parseImports('src/a.ts', "import { type A, type B } from './types';");
+
+    expect(imports[0].typeOnly).toBe(true);
+  });
+
+  it('should ignore module names inside strings and comments', () => {
+    const source = "// import { x } from './x';\nconst text = \"require('./y')\";";
+
+    expect(parseImports('src/a.js', source)).toEqual([]);
+  });
+
+  it('should parse JSX files', () => {
+    const source = "import { Button } from './button';\nexport const App = () => <Button />;";
+
+    expect(parseImports('src/app.jsx', source).map(parsed => parsed.specifier)).toEqual(['./button']);
+  });
+});
+
+describe('resolveRelativeImport', () => {
+  const files = new Set(['src/a.ts', 'src/lib/index.tsx', 'src/util.js']);
+
+  it('should resolve extensionless and directory imports', () => {
+    expect(resolveRelativeImport('./a', 'src/b.ts', files)).toBe('src/a.ts');
+    expect(resolveRelativeImport('./lib', 'src/b.ts', files)).toBe('src/lib/index.tsx');
+    expect(resolveRelativeImport('../util.js', 'src/lib/index.tsx', files)).toBe('src/util.js');
+  });
+
+  it('should ignore package imports and paths outside the tree', () => {
+    expect(resolveRelativeImport('lodash', 'src/b.ts', files)).toBeUndefined();
+    expect(resolveRelativeImport('../../a', 'src/b.ts', files)).toBeUndefined();
+  });
+});
+
+describe('buildLocalGraph', () => {
+  it('should produce a graph that findCircularDependencies understands', () => {
+    const files = new Map([
+      ['src/a.ts', "import { b } from './b';\nexport const a = 1;"],
+      ['src/b.ts', "import { a } from './a';\nimport lodash from 'lodash';\nexport const b = a;"],
+    ]);
+
+    const graph = buildLocalGraph(files);
+    const cycles = findCircularDependencies(graph.nodes, graph.relationships);
+
+    expect(graph.relationships).toHaveLength(2);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].edges?.[0].imports).toEqual([
+      { line: 1, specifier: './b', relationshipType: 'IMPORTS', kind: 'runtime' },
+    ]);
+  });
+
+  it('should classify type-only and dynamic imports', () => {
+    const files = new Map([
+      ['src/a.ts', "import type { B } from './b';\nexport const load = () => import('./c');"],
+      ['src/b.ts', "import { a } from './a';"],
+      ['src/c.ts', "export * from './a';"],
+    ]);
+
+    const graph = buildLocalGraph(files);
+    const kinds = findCircularDependencies(graph.nodes, graph.relationships, [], { enumerateAllCycles: true })
+      .map(cycle => [cycle.id, cycle.kind]);
+
+    expect(kinds).toEqual([
+      ['src/a.ts->src/b.ts', 'type-only'],
+      ['src/a.ts->src/c.ts', 'dynamic'],
+    ]);
+  });
+
+  it('should use the custom resolver for non-relative specifiers', () => {
+    const files = new Map([
+      ['src/a.ts', "import { b } from '@app/b';"],
+      ['src/b.ts', "import { a } from './a';"],
+    ]);
+
+    const graph = buildLocalGraph(files, {
+      resolve: specifier => (specifier === '@app/b' ? 'src/b.ts' : undefined),
+    });
+
+    expect(findCircularDependencies(graph.nodes, graph.relationships)).toHaveLength(1);
+  });
+
+  it('should only parse files changed since a cached run', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-local-'));
+    const cacheDirectory = path.join(repo, '.git', 'cdh-cache');
+    const commit = 'git add -A && git -c user.name=t -c user.email=t@t commit -qm change';
+    await fs.mkdir(path.join(repo, 'src'));
+    await fs.writeFile(path.join(repo, 'src/a.ts'), "import { b } from './b';\n");
+    await fs.writeFile(path.join(repo, 'src/b.ts'), 'export const b = 1;\n');
+    await fs.writeFile(path.join(repo, 'src/c.ts'), "import { a } from './a';\n");
+    execSync(`git init -q && ${commit}`, { cwd: repo });
+
+    const first = await createLocalGraphProvider({ cacheDirectory }).generateGraph(repo, 'HEAD');
+    await fs.writeFile(path.join(repo, 'src/b.ts'), "import { c } from './c';\n");
+    execSync(commit, { cwd: repo });
+    const second = await createLocalGraphProvider({ cacheDirectory }).generateGraph(repo, 'HEAD');
+
+    expect(first.stats).toEqual({ files: 3, imports: 2, parsed: 3 });
+    expect(second.stats).toEqual({ files: 3, imports: 3, parsed: 1 });
+    expect(findCircularDependencies(second.nodes, second.relationships)).toHaveLength(1);
+  });
+});
+
+describe('createLocalGraphProvider', () => {
+  it('should read the committed tree of a git repository', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-local-'));
+    await fs.mkdir(path.join(repo, 'src'));
+    await fs.writeFile(path.join(repo, 'src/a.ts'), "import { b } from './b';\n");
+    await fs.writeFile(path.join(repo, 'src/b.ts'), "import { a } from './a';\n");
+    await fs.writeFile(path.join(repo, 'README.md'), '# test\n');
+    execSync('git init -q && git add -A && git -c user.name=t -c user.email=t@t commit -qm init', { cwd: repo });
+    await fs.writeFile(path.join(repo, 'src/b.ts'), '// uncommitted edit\n');
+
+    const graph = await createLocalGraphProvider().generateGraph(repo, 'HEAD');
+
+    expect(graph.nodes.map(node => node.id).sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(findCircularDependencies(graph.nodes, graph.relationships)).toHaveLength(1);
+  });
+
+  it('should only parse files changed since a cached run', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'cdh-local-'));
+    const cacheDirectory = path.join(repo, '.git', 'cdh-cache');
+    const commit = 'git add -A && git -c user.name=t -c user.email=t@t commit -qm change';
+    await fs.mkdir(path.join(repo, 'src'));
+    await fs.writeFile(path.join(repo, 'src/a.ts'), "import { b } from './b';\n");
+    await fs.writeFile(path.join(repo, 'src/b.ts'), 'export const b = 1;\n');
+    await fs.writeFile(path.join(repo, 'src/c.ts'), "import { a } from './a';\n");
+    execSync(`git init -q && ${commit}`, { cwd: repo });
+
+    const first = await createLocalGraphProvider({ cacheDirectory }).generateGraph(repo, 'HEAD');
+    await fs.writeFile(path.join(repo, 'src/b.ts'), "import { c } from './c';\n");
+    execSync(commit, { cwd: repo });
+    const second = await createLocalGraphProvider({ cacheDirectory }).generateGraph(repo, 'HEAD');
+
+    expect(first.stats).toEqual({ files: 3, imports: 2, parsed: 3 });
+    expect(second.stats).toEqual({ files: 3, imports: 3, parsed: 1 });
+    expect(findCircularDependencies(second.nodes, second.relationships)).toHaveLength(1);
+  });
+});
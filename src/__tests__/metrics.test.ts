@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { detectCycles, findTangles } from '../circular-deps';
+import {
+  DependencyMetrics,
+  MetricsSnapshot,
+  computeHealthScore,
+  computeMetrics,
+  formatMetricsSummary,
+  loadMetrics,
+  mergeHistory,
+  parseMetrics,
+  writeMetrics,
+} from '../metrics';
+import { graphOf } from './graph-fixtures';
+
+// a <-> b and b <-> c form one tangle of three files; d and e hang off it.
+const graph = graphOf([
+  ['a.ts', 'b.ts'],
+  ['b.ts', 'a.ts'],
+  ['b.ts', 'c.ts'],
+  ['c.ts', 'b.ts'],
+  ['d.ts', 'b.ts'],
+  ['e.ts', 'd.ts'],
+]);
+
+function metricsAt(date: string, commit?: string): DependencyMetrics {
+  const { cycles } = detectCycles(graph, { enumerateAllCycles: true });
+  return computeMetrics(graph, cycles, findTangles(graph), { date: new Date(date), commit });
+}
+
+function snapshot(date: string, cycles: number, healthScore: number, commit?: string): MetricsSnapshot {
+  return {
+    date,
+    commit,
+    cycles,
+    tangles: 1,
+    largestTangle: 3,
+    filesInCycles: 3,
+    percentFilesInCycles: 60,
+    healthScore,
+  };
+}
+
+describe('computeHealthScore', () => {
+  it('should weigh the largest tangle on top of the files in cycles', () => {
+    expect(computeHealthScore(100, 0, 0)).toBe(100);
+    expect(computeHealthScore(100, 10, 10)).toBe(81);
+    expect(computeHealthScore(100, 10, 5)).toBe(86);
+    expect(computeHealthScore(4, 4, 4)).toBe(0);
+    expect(computeHealthScore(0, 0, 0)).toBe(100);
+  });
+});
+
+describe('computeMetrics', () => {
+  it('should count cycles, tangles and files in cycles', () => {
+    const metrics = metricsAt('2026-10-01T00:00:00Z', 'abc1234');
+
+    expect(metrics).toMatchObject({
+      version: 1,
+      date: '2026-10-01T00:00:00.000Z',
+      commit: 'abc1234',
+      cycles: 2,
+      tangles: 1,
+      largestTangle: 3,
+      filesInCycles: 3,
+      percentFilesInCycles: 60,
+      files: 5,
+      dependencies: 6,
+      healthScore: 16,
+    });
+    expect(metrics.history).toHaveLength(1);
+  });
+
+  it('should rank tangled files by the cycles through them, then by fan-in and fan-out', () => {
+    const { hotspots } = metricsAt('2026-10-01T00:00:00Z');
+
+    expect(hotspots).toEqual([
+      { file: 'b.ts', fanIn: 3, fanOut: 2, cycles: 2, tangleSize: 3 },
+      { file: 'a.ts', fanIn: 1, fanOut: 1, cycles: 1, tangleSize: 3 },
+      { file: 'c.ts', fanIn: 1, fanOut: 1, cycles: 1, tangleSize: 3 },
+    ]);
+  });
+});
+
+describe('mergeHistory', () => {
+  it('should append the run to the earlier history and replace a re-run commit', () => {
+    const previous = {
+      ...metricsAt('2026-09-01T00:00:00Z'),
+      history: [snapshot('2026-08-01T00:00:00Z', 5, 10, 'old'), snapshot('2026-09-01T00:00:00Z', 3, 12, 'abc1234')],
+    };
+
+    const merged = mergeHistory(metricsAt('2026-10-01T00:00:00Z', 'abc1234'), previous);
+
+    expect(merged.history.map(entry => entry.date)).toEqual(['2026-08-01T00:00:00Z', '2026-10-01T00:00:00.000Z']);
+    expect(mergeHistory(metricsAt('2026-10-01T00:00:00Z'), undefined).history).toHaveLength(1);
+  });
+
+  it('should keep a bounded history', () => {
+    const previous = {
+      ...metricsAt('2026-09-01T00:00:00Z'),
+      history: Array.from({ length: 250 }, (_, index) => snapshot(new Date(index * 1000).toISOString(), index, 50)),
+    };
+
+    const merged = mergeHistory(metricsAt('2026-10-01T00:00:00Z'), previous);
+
+    expect(merged.history).toHaveLength(200);
+    expect(merged.history[199].date).toBe('2026-10-01T00:00:00.000Z');
+  });
+});
+
+describe('parseMetrics', () => {
+  it('should reject files with the wrong shape', () => {
+    expect(() => parseMetrics('{"history": []}')).toThrow('Invalid metrics file');
+    expect(() => parseMetrics('{"version": 1, "history": [{"date": "2026-01-01"}]}')).toThrow('healthScore');
+  });
+});
+
+describe('loadMetrics and writeMetrics', () => {
+  it('should round-trip the metrics and treat a missing file as no history', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-'));
+    const filePath = path.join(dir, 'reports', 'metrics.json');
+
+    expect(await loadMetrics(filePath)).toBeUndefined();
+
+    const metrics = metricsAt('2026-10-01T00:00:00Z', 'abc1234');
+    await writeMetrics(filePath, metrics);
+
+    expect(await loadMetrics(filePath)).toEqual(metrics);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('formatMetricsSummary', () => {
+  it('should show the metrics and the most tangled files', () => {
+    const summary = formatMetricsSummary(metricsAt('2026-10-01T00:00:00Z'));
+
+    expect(summary).toContain('## Dependency health: 16/100');
+    expect(summary).toContain('| Files in cycles | 3 of 5 (60%) |');
+    expect(summary).toContain('| 1 | `b.ts` | 2 | 3 | 2 | 3 |');
+    expect(summary).not.toContain('### Trend');
+  });
+
+  it('should compare with the last run at least a month older', () => {
+    const metrics = {
+      ...metricsAt('2026-10-01T00:00:00Z'),
+      history: [
+        snapshot('2026-08-01T00:00:00Z', 9, 5),
+        snapshot('2026-08-25T00:00:00Z', 4, 10),
+        snapshot('2026-09-20T00:00:00Z', 2, 16),
+        snapshot('2026-10-01T00:00:00Z', 2, 16, 'abcdef123'),
+      ],
+    };
+
+    const summary = formatMetricsSummary(metrics);
+
+    expect(summary).toContain('Since 2026-08-25: health score 10 → 16 (+6), cycles 4 → 2 (-2), files in cycles 60% (no change).');
+    expect(summary).toContain('line [5, 10, 16, 16]');
+    expect(summary).toContain('| 2026-10-01 | `abcdef1` | 2 | 1 | 3 | 60% | 16 |');
+  });
+});
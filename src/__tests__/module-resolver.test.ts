@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createModuleResolver,
+  findWorkspacePackages,
+  resolveModulePath,
+} from '../module-resolver';
+
+describe('resolveModulePath', () => {
+  const files = new Set(['src/a.ts', 'src/b.tsx', 'src/c.mts', 'src/lib/index.js', 'src/plain.js']);
+
+  it('should map .js specifiers to TypeScript sources', () => {
+    expect(resolveModulePath('src/a.js', files)).toBe('src/a.ts');
+    expect(resolveModulePath('src/b.js', files)).toBe('src/b.tsx');
+    expect(resolveModulePath('src/c.mjs', files)).toBe('src/c.mts');
+    expect(resolveModulePath('src/plain.js', files)).toBe('src/plain.js');
+  });
+
+  it('should resolve extensionless paths and directory indexes', () => {
+    expect(resolveModulePath('src/a', files)).toBe('src/a.ts');
+    expect(resolveModulePath('src/lib', files)).toBe('src/lib/index.js');
+    expect(resolveModulePath('src/missing', files)).toBeUndefined();
+  });
+});
+
+describe('createModuleResolver', () => {
+  it('should resolve tsconfig paths and baseUrl, following extends', () => {
+    const files = new Set(['src/app/foo.ts', 'src/shared/util.ts', 'src/main.ts', 'src/config.ts']);
+    const manifests = new Map([
+      ['tsconfig.base.json', `{
+        // comments and trailing commas are allowed
+        "compilerOptions": {
+          "baseUrl": "src",
+          "paths": { "@app/*": ["app/*"], "@shared": ["shared/util"], },
+        },
+      }`],
+      ['tsconfig.json', '{ "extends": "./tsconfig.base.json" }'],
+    ]);
+
+    const resolve = createModuleResolver(files, manifests);
+
+    expect(resolve('@app/foo', 'src/main.ts')).toBe('src/app/foo.ts');
+    expect(resolve('@shared', 'src/main.ts')).toBe('src/shared/util.ts');
+    expect(resolve('config', 'src/main.ts')).toBe('src/config.ts');
+    expect(resolve('react', 'src/main.ts')).toBeUndefined();
+  });
+
+  it('should use the nearest tsconfig of the importing file', () => {
+    const files = new Set(['packages/web/src/ui/button.ts', 'packages/api/src/ui/button.ts']);
+    const manifests = new Map([
+      ['packages/web/tsconfig.json', '{ "compilerOptions": { "paths": { "~/*": ["./src/*"] } } }'],
+      ['packages/api/tsconfig.json', '{ "compilerOptions": { "paths": { "~/*": ["./src/*"] } } }'],
+    ]);
+
+    const resolve = createModuleResolver(files, manifests);
+
+    expect(resolve('~/ui/button', 'packages/web/src/index.ts')).toBe('packages/web/src/ui/button.ts');
+    expect(resolve('~/ui/button', 'packages/api/src/index.ts')).toBe('packages/api/src/ui/button.ts');
+  });
+
+  it('should resolve workspace packages through exports, main and subpaths', () => {
+    const files = new Set([
+      'packages/shared/src/index.ts',
+      'packages/shared/src/errors.ts',
+      'packages/utils/lib/index.js',
+      'packages/utils/lib/strings.js',
+    ]);
+    const manifests = new Map([
+      ['package.json', '{ "name": "root", "workspaces": ["packages/*"] }'],
+      ['packages/shared/package.json', JSON.stringify({
+        name: '@org/shared',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './errors': './dist/errors.js',
+        },
+      })],
+      ['packages/utils/package.json', '{ "name": "@org/utils", "main": "lib/index.js" }'],
+    ]);
+
+    const resolve = createModuleResolver(files, manifests);
+
+    expect(resolve('@org/shared', 'apps/web/src/main.ts')).toBe('packages/shared/src/index.ts');
+    expect(resolve('@org/shared/errors', 'apps/web/src/main.ts')).toBe('packages/shared/src/errors.ts');
+    expect(resolve('@org/shared/internal', 'apps/web/src/main.ts')).toBeUndefined();
+    expect(resolve('@org/utils', 'apps/web/src/main.ts')).toBe('packages/utils/lib/index.js');
+    expect(resolve('@org/utils/lib/strings', 'apps/web/src/main.ts')).toBe('packages/utils/lib/strings.js');
+  });
+
+  it('should resolve .js-suffixed relative imports to TypeScript', () => {
+    const resolve = createModuleResolver(new Set(['src/a.ts']), new Map());
+
+    expect(resolve('./a.js', 'src/b.ts')).toBe('src/a.ts');
+  });
+});
+
+describe('findWorkspacePackages', () => {
+  it('should honour pnpm workspace definitions', () => {
+    const manifests = new Map([
+      ['pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n  - '!packages/legacy'\n"],
+      ['packages/core/package.json', '{ "name": "@org/core" }'],
+      ['packages/legacy/package.json', '{ "name": "@org/legacy" }'],
+      ['examples/demo/package.json', '{ "name": "demo" }'],
+    ]);
+
+    expect(findWorkspacePackages(manifests).map(pkg => pkg.name)).toEqual(['@org/core']);
+  });
+
+  it('should treat every named manifest as a package without workspace definitions', () => {
+    const manifests = new Map([
+      ['package.json', '{ "name": "app" }'],
+      ['tools/cli/package.json', '{ "name": "cli" }'],
+    ]);
+
+    expect(findWorkspacePackages(manifests).map(pkg => [pkg.name, pkg.dir])).toEqual([
+      ['app', ''],
+      ['cli', 'tools/cli'],
+    ]);
+  });
+});
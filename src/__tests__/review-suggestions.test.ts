@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CycleFix } from '../circular-deps';
+import { createFixSuggestions, parseDiffLines, postFixSuggestions } from '../review-suggestions';
+
+const fix: CycleFix = {
+  id: 'src/user.ts->src/post.ts',
+  from: 'src/user.ts',
+  to: 'src/post.ts',
+  cycles: ['src/post.ts->src/user.ts'],
+  edits: [
+    {
+      kind: 'type-only-import',
+      startLine: 2,
+      endLine: 2,
+      original: "import { Post } from './post';",
+      replacement: "import type { Post } from './post';",
+    },
+    {
+      kind: 'bypass-barrel',
+      startLine: 10,
+      endLine: 11,
+      original: "import {\n  Tag } from '.';",
+      replacement: "import { Tag } from './tag';",
+    },
+  ],
+};
+
+const HEAD_LINES: Record<number, string> = {
+  1: "import { User } from './user';",
+  2: "import { Post } from './post';",
+  3: '',
+  10: 'import {',
+  11: "  Tag } from '.';",
+};
+
+function diffLines(lines: number[]): Map<string, Map<number, string>> {
+  return new Map([['src/user.ts', new Map(lines.map(line => [line, HEAD_LINES[line]]))]]);
+}
+
+describe('parseDiffLines', () => {
+  it('should list the added and unchanged lines of every hunk in head numbering', () => {
+    const patch = '@@ -1,3 +1,4 @@\n line1\n-old\n+new\n+added\n line3\n@@ -20,2 +21,2 @@\n-x\n+y\r\n z';
+
+    expect(Array.from(parseDiffLines(patch))).toEqual([
+      [1, 'line1'], [2, 'new'], [3, 'added'], [4, 'line3'], [21, 'y'], [22, 'z'],
+    ]);
+  });
+});
+
+describe('createFixSuggestions', () => {
+  it('should suggest the edits that lie on lines of the diff', () => {
+    const suggestions = createFixSuggestions([fix], diffLines([1, 2, 3, 10, 11]));
+
+    expect(suggestions).toHaveLength(2);
+    expect(suggestions[0]).toMatchObject({ path: 'src/user.ts', line: 2, side: 'RIGHT' });
+    expect(suggestions[0].start_line).toBeUndefined();
+    expect(suggestions[0].body).toContain("```suggestion\nimport type { Post } from './post';\n```");
+    expect(suggestions[0].body).toContain('**Breaks 1 circular dependency** through `src/user.ts -> src/post.ts`');
+    expect(suggestions[1]).toMatchObject({ line: 11, start_line: 10, start_side: 'RIGHT' });
+  });
+
+  it('should leave out edits outside the diff', () => {
+    expect(createFixSuggestions([fix], diffLines([2, 10]))).toHaveLength(1);
+    expect(createFixSuggestions([fix], new Map())).toEqual([]);
+  });
+
+  it('should leave out edits whose lines hold other text in the head commit', () => {
+    const lines = diffLines([1, 2, 3, 10, 11]);
+    lines.get('src/user.ts')!.set(2, "import { User } from './user';");
+
+    const suggestions = createFixSuggestions([fix], lines);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ line: 11, start_line: 10 });
+  });
+});
+
+type Octokit = Parameters<typeof postFixSuggestions>[0];
+
+describe('postFixSuggestions', () => {
+  it('should post one review with the suggestions not posted before', async () => {
+    const suggestions = createFixSuggestions([fix], diffLines([2, 10, 11]));
+    const octokit = {
+      paginate: vi.fn(async () => [{ body: suggestions[0].body }, { body: 'unrelated' }]),
+      rest: { pulls: { listReviewComments: vi.fn(), createReview: vi.fn(async () => ({})) } },
+    } as unknown as Octokit;
+
+    const posted = await postFixSuggestions(octokit, { owner: 'acme', repo: 'app', pullNumber: 7, commitId: 'abc' }, suggestions);
+
+    expect(posted).toBe(1);
+    expect(vi.mocked(octokit.rest.pulls.createReview).mock.calls[0][0]).toMatchObject({
+      pull_number: 7,
+      commit_id: 'abc',
+      event: 'COMMENT',
+      comments: [suggestions[1]],
+    });
+  });
+});
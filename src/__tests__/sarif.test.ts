@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { CircularDependencyResult, findCircularDependencies } from '../circular-deps';
+import { FORBIDDEN_DEPENDENCY_RULE_ID, SARIF_RULE_ID, createSarifReport, getCycleFingerprint } from '../sarif';
+import { fileNode, importRelationship } from './graph-fixtures';
+
+describe('createSarifReport', () => {
+  const cycles = findCircularDependencies(
+    [fileNode('src/a.ts'), fileNode('src/b.ts'), fileNode('src/c.ts')],
+    [
+      importRelationship('src/a.ts', 'src/b.ts', { line: 3 }),
+      importRelationship('src/b.ts', 'src/c.ts', { line: 5 }),
+      importRelationship('src/c.ts', 'src/a.ts', { line: 7 }),
+    ]
+  );
+
+  it('should report one result per cycle at the first import', () => {
+    const report = createSarifReport(cycles, { toolVersion: 'v1' });
+    const [run] = report.runs;
+
+    expect(report.version).toBe('2.1.0');
+    expect(run.tool.driver.version).toBe('v1');
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([SARIF_RULE_ID]);
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0].message.text).toBe('Circular dependency: src/a.ts -> src/b.ts -> src/c.ts -> src/a.ts');
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/a.ts' },
+      region: { startLine: 3 },
+    });
+  });
+
+  it('should add a related location for every other hop', () => {
+    const [result] = createSarifReport(cycles).runs[0].results;
+
+    expect(result.relatedLocations).toEqual([
+      {
+        id: 1,
+        physicalLocation: { artifactLocation: { uri: 'src/b.ts' }, region: { startLine: 5 } },
+        message: { text: 'imports src/c.ts' },
+      },
+      {
+        id: 2,
+        physicalLocation: { artifactLocation: { uri: 'src/c.ts' }, region: { startLine: 7 } },
+        message: { text: 'imports src/a.ts' },
+      },
+    ]);
+  });
+
+  it('should fingerprint results by cycle id', () => {
+    const [result] = createSarifReport(cycles).runs[0].results;
+
+    expect(result.partialFingerprints['circularDependency/v1']).toBe(getCycleFingerprint(cycles[0].id));
+    expect(getCycleFingerprint('a->b')).toBe(getCycleFingerprint('a->b'));
+    expect(getCycleFingerprint('a->b')).not.toBe(getCycleFingerprint('b->c'));
+  });
+
+  it('should omit regions when the graph has no line numbers', () => {
+    const [result] = createSarifReport([{ id: 'x->y', cycle: ['x', 'y'], length: 2 }]).runs[0].results;
+
+    expect(result.locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'x' } });
+  });
+
+  it('should locate hops between Go packages in the file with the import', () => {
+    const cycle: CircularDependencyResult = {
+      id: 'internal/db->internal/orders',
+      cycle: ['internal/db', 'internal/orders'],
+      length: 2,
+      edges: [
+        {
+          from: 'internal/db',
+          to: 'internal/orders',
+          kind: 'runtime',
+          imports: [{ line: 3, relationshipType: 'IMPORTS', kind: 'runtime', file: 'internal/db/conn.go' }],
+        },
+        { from: 'internal/orders', to: 'internal/db', kind: 'runtime', imports: [] },
+      ],
+    };
+
+    const [result] = createSarifReport([cycle]).runs[0].results;
+
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'internal/db/conn.go' },
+      region: { startLine: 3 },
+    });
+    expect(result.relatedLocations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'internal/orders' } });
+  });
+
+  it('should report rule violations as errors of a second rule', () => {
+    const report = createSarifReport([], {
+      violations: [{
+        id: 'layer:src/domain/a.ts->src/ui/b.ts',
+        rule: 'layer domain must not depend on ui',
+        edge: {
+          from: 'src/domain/a.ts',
+          to: 'src/ui/b.ts',
+          kind: 'runtime',
+          imports: [{ line: 2, relationshipType: 'IMPORTS', kind: 'runtime' }],
+        },
+      }],
+    });
+    const [run] = report.runs;
+
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([SARIF_RULE_ID, FORBIDDEN_DEPENDENCY_RULE_ID]);
+    expect(run.results[0]).toMatchObject({
+      ruleId: FORBIDDEN_DEPENDENCY_RULE_ID,
+      level: 'error',
+      message: { text: 'Forbidden dependency: src/domain/a.ts -> src/ui/b.ts breaks layer domain must not depend on ui' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/domain/a.ts' }, region: { startLine: 2 } } }],
+    });
+  });
+});
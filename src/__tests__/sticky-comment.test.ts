@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  COMMENT_MARKER,
+  embedCommentState,
+  findStickyComment,
+  parseCommentState,
+  upsertStickyComment,
+} from '../sticky-comment';
+
+const target = { owner: 'acme', repo: 'app', issueNumber: 7 };
+
+type Octokit = Parameters<typeof upsertStickyComment>[0];
+
+function fakeOctokit(comments: Array<{ id: number; body?: string }>): Octokit {
+  const octokit = {
+    paginate: vi.fn(async () => comments),
+    rest: {
+      issues: {
+        listComments: vi.fn(),
+        createComment: vi.fn(async () => ({})),
+        updateComment: vi.fn(async () => ({})),
+      },
+    },
+  };
+  return octokit as unknown as Octokit;
+}
+
+describe('comment state', () => {
+  it('should round-trip the reported cycle ids', () => {
+    const body = embedCommentState('## Circular Dependency Hunter', ['a->b', 'weird-->name']);
+
+    expect(body.startsWith(COMMENT_MARKER)).toBe(true);
+    expect(body).toContain('## Circular Dependency Hunter');
+    expect(parseCommentState(body)).toEqual(['a->b', 'weird-->name']);
+  });
+
+  it('should leave out state too large to share a comment with the findings', () => {
+    const ids = Array.from({ length: 1000 }, (_, index) => `src/modules/feature-${index}/index.ts->src/shared.ts`);
+    const body = embedCommentState('findings', ids);
+
+    expect(body).toBe(`${COMMENT_MARKER}\nfindings`);
+    expect(parseCommentState(body)).toBeUndefined();
+  });
+
+  it('should ignore bodies without readable state', () => {
+    expect(parseCommentState('just a comment')).toBeUndefined();
+    expect(parseCommentState(`${COMMENT_MARKER}\n<!-- circular-dependency-hunter:state !!! -->`)).toBeUndefined();
+  });
+});
+
+describe('findStickyComment', () => {
+  it('should find the most recent marked comment', async () => {
+    const octokit = fakeOctokit([
+      { id: 1, body: embedCommentState('old', ['a->b']) },
+      { id: 2, body: 'LGTM' },
+      { id: 3, body: embedCommentState('new', ['c->d']) },
+    ]);
+
+    const comment = await findStickyComment(octokit, target);
+
+    expect(comment).toMatchObject({ id: 3, cycleIds: ['c->d'] });
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listComments, {
+      owner: 'acme',
+      repo: 'app',
+      issue_number: 7,
+      per_page: 100,
+    });
+  });
+
+  it('should return undefined when the action has not commented yet', async () => {
+    expect(await findStickyComment(fakeOctokit([{ id: 1, body: 'LGTM' }]), target)).toBeUndefined();
+  });
+});
+
+describe('upsertStickyComment', () => {
+  it('should update the previous comment in place', async () => {
+    const octokit = fakeOctokit([]);
+
+    const result = await upsertStickyComment(octokit, target, 'body', { id: 3, body: 'old' });
+
+    expect(result).toBe('updated');
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', comment_id: 3, body: 'body' });
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should create a comment when there is none', async () => {
+    const octokit = fakeOctokit([]);
+
+    const result = await upsertStickyComment(octokit, target, 'body', undefined);
+
+    expect(result).toBe('created');
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', issue_number: 7, body: 'body' });
+  });
+});
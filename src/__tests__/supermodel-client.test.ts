@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  SupermodelApiError,
+  assertArchiveSize,
+  createResilientFetch,
+  parseRetryAfter,
+  toSupermodelError,
+} from '../supermodel-client';
+
+interface ScriptedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  idempotencyKey?: string;
+  body: string;
+}
+
+// A local stand-in for the Supermodel API that answers each request with the next scripted response.
+let server: http.Server;
+let baseUrl: string;
+let script: ScriptedResponse[];
+let received: ReceivedRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      received.push({
+        method: request.method!,
+        url: request.url!,
+        idempotencyKey: request.headers['idempotency-key'] as string | undefined,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      const next = script.shift() ?? { status: 500, body: { message: 'unscripted request' } };
+      response.writeHead(next.status, { 'content-type': 'application/json', ...next.headers });
+      response.end(next.body === undefined ? '' : JSON.stringify(next.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  script = [];
+  received = [];
+});
+
+const graphBody = { graph: { nodes: [{ id: 'a' }], relationships: [] } };
+
+function createClient(options: Parameters<typeof createResilientFetch>[0] = {}) {
+  const delays: number[] = [];
+  const messages: string[] = [];
+  const fetchApi = createResilientFetch({
+    logger: { info: message => messages.push(message), warning: message => messages.push(message) },
+    sleep: async ms => {
+      delays.push(ms);
+    },
+    ...options,
+  });
+  return { fetchApi, delays, messages };
+}
+
+function upload(fetchApi: typeof fetch): Promise<Response> {
+  const form = new FormData();
+  form.append('file', new Blob(['zip contents'], { type: 'application/zip' }));
+  return fetchApi(`${baseUrl}/v1/graphs/dependency`, {
+    method: 'POST',
+    headers: { 'Idempotency-Key': 'repo:supermodel:abc:dep', 'X-Api-Key': 'smsk_test' },
+    body: form,
+  });
+}
+
+async function captureError(promise: Promise<unknown>): Promise<SupermodelApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as SupermodelApiError;
+  }
+  throw new Error('expected the request to fail');
+}
+
+describe('createResilientFetch', () => {
+  it('should retry server errors with exponential backoff and resend the archive', async () => {
+    script = [{ status: 502 }, { status: 503 }, { status: 200, body: graphBody }];
+    const { fetchApi, delays } = createClient();
+
+    const response = await upload(fetchApi);
+
+    expect(await response.json()).toEqual(graphBody);
+    expect(delays).toEqual([1000, 2000]);
+    expect(received).toHaveLength(3);
+    expect(received.every(request => request.body.includes('zip contents'))).toBe(true);
+    expect(received.every(request => request.idempotencyKey === 'repo:supermodel:abc:dep')).toBe(true);
+  });
+
+  it('should wait as long as Retry-After asks when rate limited', async () => {
+    script = [{ status: 429, headers: { 'retry-after': '7' } }, { status: 200, body: graphBody }];
+    const { fetchApi, delays } = createClient();
+
+    await upload(fetchApi);
+
+    expect(delays).toEqual([7000]);
+  });
+
+  it('should report the status, request id and attempts once retries run out', async () => {
+    script = Array.from({ length: 3 }, () => ({
+      status: 503,
+      headers: { 'x-request-id': 'req-42' },
+      body: { message: 'maintenance' },
+    }));
+    const { fetchApi } = createClient({ maxRetries: 2 });
+
+    const error = await captureError(upload(fetchApi));
+
+    expect(error).toBeInstanceOf(SupermodelApiError);
+    expect(error).toMatchObject({ code: 'server-error', status: 503, requestId: 'req-42', attempts: 3, detail: 'maintenance' });
+    expect(error.message).toBe('Supermodel API failed with 503 after 3 attempts: maintenance (request id req-42)');
+  });
+
+  it('should not retry an invalid API key', async () => {
+    script = [{ status: 401, body: { message: 'invalid key' } }];
+    const { fetchApi } = createClient();
+
+    const error = await captureError(upload(fetchApi));
+
+    expect(error.code).toBe('unauthorized');
+    expect(error.message).toContain('https://dashboard.supermodeltools.com');
+    expect(received).toHaveLength(1);
+  });
+
+  it('should poll the Location of an analysis that runs asynchronously', async () => {
+    script = [
+      { status: 202, headers: { location: '/v1/jobs/7', 'retry-after': '2' } },
+      { status: 202, headers: { location: '/v1/jobs/7' } },
+      { status: 200, body: graphBody },
+    ];
+    const { fetchApi, delays, messages } = createClient({ pollIntervalMs: 3000 });
+
+    const response = await upload(fetchApi);
+
+    expect(await response.json()).toEqual(graphBody);
+    expect(received.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /v1/graphs/dependency',
+      'GET /v1/jobs/7',
+      'GET /v1/jobs/7',
+    ]);
+    expect(delays).toEqual([2000, 3000]);
+    expect(messages).toContain('Supermodel is still analyzing, checking again in 2s');
+  });
+
+  it('should resend the request when an accepted analysis has no Location', async () => {
+    script = [{ status: 202 }, { status: 200, body: graphBody }];
+    const { fetchApi } = createClient();
+
+    await upload(fetchApi);
+
+    expect(received.map(request => request.method)).toEqual(['POST', 'POST']);
+  });
+
+  it('should give up when the overall timeout would be exceeded', async () => {
+    script = [{ status: 429, headers: { 'retry-after': '120' } }];
+    const { fetchApi } = createClient({ timeoutMs: 60000 });
+
+    const error = await captureError(upload(fetchApi));
+
+    expect(error).toMatchObject({ code: 'timeout', status: 429, attempts: 1 });
+    expect(error.message).toContain('within 60s');
+  });
+
+  it('should abort a request that outlives the overall timeout', async () => {
+    const { fetchApi } = createClient({
+      timeoutMs: 50,
+      fetch: (_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      }),
+    });
+
+    expect((await captureError(upload(fetchApi))).code).toBe('timeout');
+  });
+
+  it('should retry network errors', async () => {
+    let calls = 0;
+    const { fetchApi, delays } = createClient({
+      fetch: async (url, init) => {
+        calls += 1;
+        if (calls === 1) {
+          throw new TypeError('fetch failed');
+        }
+        return fetch(url, init);
+      },
+    });
+    script = [{ status: 200, body: graphBody }];
+
+    await upload(fetchApi);
+
+    expect(delays).toEqual([1000]);
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read seconds and HTTP dates', () => {
+    const now = Date.parse('2024-06-01T12:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Sat, 01 Jun 2024 12:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('assertArchiveSize', () => {
+  it('should reject archives above the limit with a hint', () => {
+    const check = () => assertArchiveSize(150 * 1024 * 1024, 100 * 1024 * 1024, 'HEAD');
+
+    expect(check).toThrow('Archive of HEAD is 150.0 MB, above the 100.0 MB limit');
+    expect(check).toThrow('export-ignore');
+    expect(() => assertArchiveSize(150 * 1024 * 1024, 0, 'HEAD')).not.toThrow();
+  });
+});
+
+describe('toSupermodelError', () => {
+  it('should unwrap the error the SDK wraps in a FetchError', () => {
+    const cause = new SupermodelApiError('boom', { code: 'network' });
+    const wrapped = Object.assign(new Error('The request failed'), { cause });
+
+    expect(toSupermodelError(wrapped)).toBe(cause);
+    expect(toSupermodelError(cause)).toBe(cause);
+  });
+});
@@ -0,0 +1,74 @@
+import { DependencyGraph, RuleViolation, getImportSites, getStrongestKind } from './circular-deps';
+import { ForbiddenRule, LayerRule, matchesPathPattern } from './config';
+
+/**
+ * The architecture rules of a project configuration.
+ */
+export interface ArchitectureRules {
+  /** Layers from the top down. */
+  layers: LayerRule[];
+  forbidden: ForbiddenRule[];
+}
+
+function findLayer(layers: LayerRule[], filePath: string): number {
+  return layers.findIndex(layer => layer.paths.some(pattern => matchesPathPattern(filePath, pattern)));
+}
+
+function describePatterns(patterns: string[]): string {
+  return patterns.map(pattern => `\`${pattern}\``).join(', ');
+}
+
+/**
+ * Checks every dependency of the graph against the layer and forbidden-dependency rules.
+ * A file belongs to the first layer whose paths match it; it may import files of its own
+ * layer, of lower layers and outside any layer, but not of a higher layer.
+ * @param graph - File-level dependency graph
+ * @param rules - Layers and forbidden dependencies
+ * @returns Violations sorted by importing file, at most one per rule type and edge
+ */
+export function findRuleViolations(graph: DependencyGraph, rules: ArchitectureRules): RuleViolation[] {
+  const { layers, forbidden } = rules;
+  if (layers.length === 0 && forbidden.length === 0) {
+    return [];
+  }
+
+  const layerOf = new Map<string, number>();
+  const getLayer = (filePath: string) => {
+    if (!layerOf.has(filePath)) {
+      layerOf.set(filePath, findLayer(layers, filePath));
+    }
+    return layerOf.get(filePath)!;
+  };
+
+  const violations: RuleViolation[] = [];
+  for (const from of Array.from(graph.adjacency.keys()).sort()) {
+    for (const to of Array.from(graph.adjacency.get(from) || []).sort()) {
+      const imports = getImportSites(graph, from, to);
+      const edge = { from, to, kind: getStrongestKind(imports.map(site => site.kind)), imports };
+
+      const fromLayer = getLayer(from);
+      const toLayer = getLayer(to);
+      if (fromLayer !== -1 && toLayer !== -1 && toLayer < fromLayer) {
+        violations.push({
+          id: `layer:${from}->${to}`,
+          rule: `layer ${layers[fromLayer].name} must not depend on ${layers[toLayer].name}`,
+          edge,
+        });
+      }
+
+      const rule = forbidden.find(candidate =>
+        candidate.from.some(pattern => matchesPathPattern(from, pattern)) &&
+        candidate.to.some(pattern => matchesPathPattern(to, pattern))
+      );
+      if (rule) {
+        violations.push({
+          id: `forbidden:${from}->${to}`,
+          rule: `${describePatterns(rule.from)} must not import ${describePatterns(rule.to)}`,
+          ...(rule.reason ? { reason: rule.reason } : {}),
+          edge,
+        });
+      }
+    }
+  }
+  return violations;
+}
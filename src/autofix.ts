@@ -0,0 +1,556 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { getCycleEdges } from './break-edges';
+import { CircularDependencyResult, CycleFix, FixEdit, FixKind } from './circular-deps';
+import { listTreeFiles, readTreeFiles } from './git-tree';
+import { isBindingReference } from './init-order';
+import { getScriptKind, parseImports, resolveRelativeImport } from './local-graph';
+import { SOURCE_EXTENSIONS, SpecifierResolver, createModuleResolver, isManifestFile } from './module-resolver';
+
+/**
+ * The files a fix may read and how their imports resolve.
+ */
+export interface FixContext {
+  /** All files of the tree. */
+  files: Set<string>;
+  /** Contents of the files of the cycles and of the files their barrels re-export. */
+  sources: Map<string, string>;
+  /** Resolver for specifiers that are not relative paths, such as path aliases. */
+  resolve?: SpecifierResolver;
+}
+
+/** Unchanged lines shown around each change of a patch, as `git diff` does. */
+const PATCH_CONTEXT_LINES = 3;
+
+/** Character range of a source file and the text replacing it. */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** The module an export of a barrel comes from, and its name there. */
+interface ExportOrigin {
+  file: string;
+  name: string;
+}
+
+const JS_EXTENSIONS_FOR_SOURCE: Record<string, string> = {
+  '.ts': '.js',
+  '.tsx': '.js',
+  '.mts': '.mjs',
+  '.cts': '.cjs',
+};
+
+function isScriptFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.posix.extname(filePath)) && !/\.d\.[cm]?ts$/.test(filePath);
+}
+
+function isBarrelFile(filePath: string): boolean {
+  return /^index\.[cm]?[jt]sx?$/.test(path.posix.basename(filePath));
+}
+
+function isRelativeSpecifier(specifier: string): boolean {
+  return specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+function resolveImport(specifier: string, fromFile: string, context: FixContext): string | undefined {
+  return resolveRelativeImport(specifier, fromFile, context.files) || context.resolve?.(specifier, fromFile);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+}
+
+function createParser(context: FixContext): (filePath: string) => ts.SourceFile | undefined {
+  const parsed = new Map<string, ts.SourceFile>();
+  return filePath => {
+    const source = context.sources.get(filePath);
+    if (source === undefined || !isScriptFile(filePath)) {
+      return undefined;
+    }
+    if (!parsed.has(filePath)) {
+      parsed.set(filePath, ts.createSourceFile(filePath, source, ts.ScriptTarget.Latest, true, getScriptKind(filePath)));
+    }
+    return parsed.get(filePath);
+  };
+}
+
+function isTypePosition(node: ts.Node): boolean {
+  for (let current = node.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if (ts.isHeritageClause(current)) {
+      // Only class `extends` clauses name values.
+      return current.token === ts.SyntaxKind.ImplementsKeyword || !ts.isClassLike(current.parent);
+    }
+    if (ts.isTypeNode(current) && !ts.isExpressionWithTypeArguments(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function getBindingNames(declaration: ts.ImportDeclaration): string[] {
+  const clause = declaration.importClause;
+  if (!clause) {
+    return [];
+  }
+  const names = clause.name ? [clause.name.text] : [];
+  if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+    names.push(clause.namedBindings.name.text);
+  } else if (clause.namedBindings) {
+    names.push(...clause.namedBindings.elements.filter(element => !element.isTypeOnly).map(element => element.name.text));
+  }
+  return names;
+}
+
+/**
+ * Finds the imported bindings a file uses as values. Re-exports without a specifier count as
+ * value uses, and so does everything in a file with decorators, whose emitted metadata may
+ * need the runtime value of a type.
+ */
+function findValueUses(sourceFile: ts.SourceFile, names: Set<string>): Set<string> {
+  const used = new Set<string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      return;
+    }
+    if (ts.isDecorator(node)) {
+      names.forEach(name => used.add(name));
+      return;
+    }
+    if (ts.isExportSpecifier(node) && !node.parent.parent.moduleSpecifier && !node.isTypeOnly &&
+      !node.parent.parent.isTypeOnly) {
+      used.add((node.propertyName ?? node.name).text);
+      return;
+    }
+    if (ts.isIdentifier(node) && names.has(node.text) && isBindingReference(node) && !isTypePosition(node)) {
+      used.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return used;
+}
+
+function convertToTypeImport(declaration: ts.ImportDeclaration, sourceFile: ts.SourceFile): TextEdit[] | undefined {
+  const clause = declaration.importClause!;
+  // `import type A, { B }` is not valid TypeScript.
+  if (clause.name && clause.namedBindings) {
+    return undefined;
+  }
+  const start = clause.getStart(sourceFile);
+  const edits: TextEdit[] = [{ start, end: start, text: 'type ' }];
+  if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+    // Inline `type` modifiers are not allowed inside `import type`.
+    for (const element of clause.namedBindings.elements.filter(candidate => candidate.isTypeOnly)) {
+      const name = element.propertyName ?? element.name;
+      edits.push({ start: element.getStart(sourceFile), end: name.getStart(sourceFile), text: '' });
+    }
+  }
+  return edits;
+}
+
+function getExportedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && statement.exportClause) {
+      if (ts.isNamedExports(statement.exportClause)) {
+        statement.exportClause.elements.forEach(element => names.add(element.name.text));
+      } else {
+        names.add(statement.exportClause.name.text);
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      names.add('default');
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        names.add('default');
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations
+          .filter(declaration => ts.isIdentifier(declaration.name))
+          .forEach(declaration => names.add((declaration.name as ts.Identifier).text));
+      } else {
+        const name = (statement as ts.Node & { name?: ts.Node }).name;
+        if (name && ts.isIdentifier(name)) {
+          names.add(name.text);
+        }
+      }
+    }
+  }
+  return names;
+}
+
+function findExportOrigin(
+  barrel: string,
+  name: string,
+  context: FixContext,
+  parse: (filePath: string) => ts.SourceFile | undefined
+): ExportOrigin | undefined {
+  const sourceFile = parse(barrel);
+  for (const statement of sourceFile?.statements || []) {
+    if (
+      !ts.isExportDeclaration(statement) ||
+      !statement.moduleSpecifier ||
+      !ts.isStringLiteralLike(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const file = resolveImport(statement.moduleSpecifier.text, barrel, context);
+    if (!file) {
+      continue;
+    }
+    if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      const element = statement.exportClause.elements.find(candidate => candidate.name.text === name);
+      if (element) {
+        return { file, name: (element.propertyName ?? element.name).text };
+      }
+    } else if (!statement.exportClause && name !== 'default') {
+      const target = parse(file);
+      if (target && getExportedNames(target).has(name)) {
+        return { file, name };
+      }
+    }
+  }
+  return undefined;
+}
+
+function getRelativeSpecifier(
+  fromFile: string,
+  targetFile: string,
+  original: string,
+  context: FixContext
+): string | undefined {
+  let relative = path.posix.relative(path.posix.dirname(fromFile), targetFile);
+  const ext = path.posix.extname(relative);
+  if (/\.[cm]?js$/.test(original)) {
+    // Keep the ESM style of writing the emitted file name.
+    relative = `${relative.slice(0, -ext.length)}${JS_EXTENSIONS_FOR_SOURCE[ext] ?? ext}`;
+  } else {
+    relative = relative.slice(0, -ext.length);
+  }
+  const specifier = relative.startsWith('.') ? relative : `./${relative}`;
+  if (!/\.[cm]?js$/.test(original) && (relative === 'index' || relative.endsWith('/index'))) {
+    // `../foo/index` shortens to `../foo`, unless that names a `../foo.ts` next to the directory.
+    const directory = relative.slice(0, -'index'.length).replace(/\/$/, '') || '.';
+    const shortened = directory.startsWith('.') ? directory : `./${directory}`;
+    if (resolveImport(shortened, fromFile, context) === targetFile) {
+      return shortened;
+    }
+  }
+  return resolveImport(specifier, fromFile, context) === targetFile ? specifier : undefined;
+}
+
+function bypassBarrel(
+  declaration: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  barrel: string,
+  context: FixContext,
+  parse: (filePath: string) => ts.SourceFile | undefined
+): TextEdit[] | undefined {
+  const clause = declaration.importClause!;
+  const specifier = (declaration.moduleSpecifier as ts.StringLiteralLike).text;
+  if (
+    !isRelativeSpecifier(specifier) ||
+    clause.name ||
+    !clause.namedBindings ||
+    !ts.isNamedImports(clause.namedBindings) ||
+    clause.namedBindings.elements.length === 0
+  ) {
+    return undefined;
+  }
+
+  const byFile = new Map<string, { defaults: string[]; named: string[] }>();
+  for (const element of clause.namedBindings.elements) {
+    const origin = findExportOrigin(barrel, (element.propertyName ?? element.name).text, context, parse);
+    if (!origin || origin.file === sourceFile.fileName || origin.file === barrel) {
+      return undefined;
+    }
+    if (!byFile.has(origin.file)) {
+      byFile.set(origin.file, { defaults: [], named: [] });
+    }
+    const local = element.name.text;
+    const imported = byFile.get(origin.file)!;
+    if (origin.name === 'default') {
+      imported.defaults.push(local);
+    } else {
+      const binding = origin.name === local ? local : `${origin.name} as ${local}`;
+      imported.named.push(`${element.isTypeOnly ? 'type ' : ''}${binding}`);
+    }
+  }
+
+  const quote = declaration.moduleSpecifier.getText(sourceFile)[0];
+  const semicolon = declaration.getText(sourceFile).endsWith(';') ? ';' : '';
+  const keyword = clause.isTypeOnly ? 'import type' : 'import';
+  const statements: string[] = [];
+  for (const [file, { defaults, named }] of byFile) {
+    const target = getRelativeSpecifier(sourceFile.fileName, file, specifier, context);
+    if (!target) {
+      return undefined;
+    }
+    const from = `from ${quote}${target}${quote}${semicolon}`;
+    defaults.forEach(local => statements.push(`${keyword} ${local} ${from}`));
+    if (named.length > 0) {
+      statements.push(`${keyword} { ${named.join(', ')} } ${from}`);
+    }
+  }
+  return [{ start: declaration.getStart(sourceFile), end: declaration.getEnd(), text: statements.join('\n') }];
+}
+
+function applyTextEdits(source: string, edits: TextEdit[]): string {
+  return edits
+    .slice()
+    .sort((left, right) => right.start - left.start)
+    .reduce((text, edit) => `${text.slice(0, edit.start)}${edit.text}${text.slice(edit.end)}`, source);
+}
+
+function toFixEdit(
+  kind: FixKind,
+  declaration: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  edits: TextEdit[]
+): FixEdit {
+  const source = sourceFile.text;
+  const startLine = sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile)).line;
+  const endLine = sourceFile.getLineAndCharacterOfPosition(declaration.getEnd()).line;
+  const lineStarts = sourceFile.getLineStarts();
+  const start = lineStarts[startLine];
+  const end = endLine + 1 < lineStarts.length ? lineStarts[endLine + 1] - 1 : source.length;
+  const original = source.slice(start, end).replace(/\r$/, '');
+  const shifted = edits.map(edit => ({ ...edit, start: edit.start - start, end: edit.end - start }));
+  return {
+    kind,
+    startLine: startLine + 1,
+    endLine: endLine + 1,
+    original,
+    replacement: applyTextEdits(original, shifted),
+  };
+}
+
+function findEdgeFix(
+  from: string,
+  to: string,
+  context: FixContext,
+  parse: (filePath: string) => ts.SourceFile | undefined,
+  valueUses: (sourceFile: ts.SourceFile) => Set<string>
+): FixEdit[] | undefined {
+  const sourceFile = parse(from);
+  if (!sourceFile) {
+    return undefined;
+  }
+  const declarations = sourceFile.statements.filter((statement): statement is ts.ImportDeclaration =>
+    ts.isImportDeclaration(statement) &&
+    ts.isStringLiteralLike(statement.moduleSpecifier) &&
+    !!statement.importClause &&
+    !statement.importClause.isTypeOnly &&
+    resolveImport(statement.moduleSpecifier.text, from, context) === to
+  );
+  if (declarations.length === 0) {
+    return undefined;
+  }
+
+  const textEdits: TextEdit[] = [];
+  const fixEdits: FixEdit[] = [];
+  for (const declaration of declarations) {
+    const names = getBindingNames(declaration);
+    const used = valueUses(sourceFile);
+    let kind: FixKind = 'type-only-import';
+    let edits = names.length > 0 && names.every(name => !used.has(name))
+      ? convertToTypeImport(declaration, sourceFile)
+      : undefined;
+    if (!edits && isBarrelFile(to)) {
+      kind = 'bypass-barrel';
+      edits = bypassBarrel(declaration, sourceFile, to, context, parse);
+    }
+    if (!edits) {
+      return undefined;
+    }
+    textEdits.push(...edits);
+    fixEdits.push(toFixEdit(kind, declaration, sourceFile, edits));
+  }
+
+  // Recompute the file's imports with the edits applied; other imports may still bind the files.
+  const stillImported = parseImports(from, applyTextEdits(sourceFile.text, textEdits))
+    .some(parsed => !parsed.typeOnly && resolveImport(parsed.specifier, from, context) === to);
+  return stillImported ? undefined : fixEdits;
+}
+
+/**
+ * Finds the dependencies of the detected cycles that can be removed mechanically: value
+ * imports whose bindings are only used as types become `import type`, and named imports
+ * from a barrel `index` file are redirected to the files the barrel re-exports them from.
+ * A fix is only returned when recomputing the importing file's imports with the edits applied
+ * shows that it no longer imports the next file of the cycle at runtime.
+ * @param cycles - Detected cycles
+ * @param context - Tree files, sources and module resolution
+ * @returns One fix per removable dependency, ordered by the number of cycles it takes part in
+ */
+export function findCycleFixes(cycles: CircularDependencyResult[], context: FixContext): CycleFix[] {
+  const parse = createParser(context);
+  const usesByFile = new Map<string, Set<string>>();
+  const valueUses = (sourceFile: ts.SourceFile) => {
+    if (!usesByFile.has(sourceFile.fileName)) {
+      const names = sourceFile.statements
+        .filter(ts.isImportDeclaration)
+        .filter(declaration => !declaration.importClause?.isTypeOnly)
+        .flatMap(getBindingNames);
+      usesByFile.set(sourceFile.fileName, findValueUses(sourceFile, new Set(names)));
+    }
+    return usesByFile.get(sourceFile.fileName)!;
+  };
+
+  const edges = new Map<string, { from: string; to: string; cycles: string[] }>();
+  for (const cycle of cycles.filter(candidate => candidate.kind !== 'type-only')) {
+    for (const { from, to } of getCycleEdges(cycle)) {
+      const id = `${from}->${to}`;
+      if (!edges.has(id)) {
+        edges.set(id, { from, to, cycles: [] });
+      }
+      edges.get(id)!.cycles.push(cycle.id);
+    }
+  }
+
+  const fixes: CycleFix[] = [];
+  for (const [id, edge] of edges) {
+    const edits = findEdgeFix(edge.from, edge.to, context, parse, valueUses);
+    if (edits) {
+      fixes.push({ id, ...edge, edits });
+    }
+  }
+  return fixes.sort((left, right) => right.cycles.length - left.cycles.length || (left.id < right.id ? -1 : 1));
+}
+
+function getBarrelTargets(barrel: string, context: FixContext): string[] {
+  const source = context.sources.get(barrel);
+  if (source === undefined) {
+    return [];
+  }
+  return parseImports(barrel, source)
+    .filter(parsed => parsed.syntax === 'export')
+    .map(parsed => resolveImport(parsed.specifier, barrel, context))
+    .filter((file): file is string => !!file && !context.sources.has(file) && isScriptFile(file));
+}
+
+/**
+ * Reads the sources of the cycles' files from a git tree and finds their mechanical fixes.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree the cycles were found in
+ * @param cycles - Detected cycles
+ * @returns Verified fixes, see findCycleFixes
+ */
+export async function loadCycleFixes(
+  workspacePath: string,
+  ref: string,
+  cycles: CircularDependencyResult[]
+): Promise<CycleFix[]> {
+  const paths = await listTreeFiles(workspacePath, ref);
+  const manifests = await readTreeFiles(workspacePath, ref, paths.filter(isManifestFile));
+  const files = new Set(paths);
+  const cycleFiles = new Set(cycles.flatMap(cycle => cycle.cycle).filter(isScriptFile));
+  const context: FixContext = {
+    files,
+    sources: await readTreeFiles(workspacePath, ref, Array.from(cycleFiles)),
+    resolve: createModuleResolver(files, manifests),
+  };
+  // Barrels re-export files outside the cycles, whose exports decide where a binding comes from.
+  const barrelTargets = new Set(
+    Array.from(cycleFiles).filter(isBarrelFile).flatMap(barrel => getBarrelTargets(barrel, context))
+  );
+  for (const [file, source] of await readTreeFiles(workspacePath, ref, Array.from(barrelTargets))) {
+    context.sources.set(file, source);
+  }
+  return findCycleFixes(cycles, context);
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Formats fixes as a unified diff that `git apply` accepts. Replacement lines keep the line
+ * ending of the lines they replace, and a file without a final newline keeps it that way.
+ * @param fixes - Fixes to apply
+ * @param sources - Contents of the fixed files, as analyzed
+ * @returns The patch, empty when there are no fixes
+ */
+export function formatFixPatch(fixes: CycleFix[], sources: Map<string, string>): string {
+  const editsByFile = new Map<string, FixEdit[]>();
+  for (const fix of fixes) {
+    editsByFile.set(fix.from, (editsByFile.get(fix.from) || []).concat(fix.edits));
+  }
+
+  const patches: string[] = [];
+  for (const file of Array.from(editsByFile.keys()).sort()) {
+    const source = sources.get(file);
+    if (source === undefined) {
+      continue;
+    }
+    // Lines keep a trailing \r, so CRLF files are matched and written as they are.
+    const lines = source.split('\n');
+    const finalNewline = lines[lines.length - 1] === '';
+    if (finalNewline) {
+      lines.pop();
+    }
+    const endsFile = (line: number) => !finalNewline && line === lines.length;
+    const edits = editsByFile.get(file)!.slice().sort((left, right) => left.startLine - right.startLine);
+
+    // Edits whose context overlaps share a hunk.
+    const hunks: FixEdit[][] = [];
+    for (const edit of edits) {
+      const last = hunks[hunks.length - 1];
+      if (last && edit.startLine - last[last.length - 1].endLine <= 2 * PATCH_CONTEXT_LINES + 1) {
+        last.push(edit);
+      } else {
+        hunks.push([edit]);
+      }
+    }
+
+    const output = [`diff --git a/${file} b/${file}`, `--- a/${file}`, `+++ b/${file}`];
+    let offset = 0;
+    for (const hunk of hunks) {
+      const oldStart = Math.max(1, hunk[0].startLine - PATCH_CONTEXT_LINES);
+      const oldEnd = Math.min(lines.length, hunk[hunk.length - 1].endLine + PATCH_CONTEXT_LINES);
+      const body: string[] = [];
+      let added = 0;
+      let line = oldStart;
+      for (const edit of hunk) {
+        for (; line < edit.startLine; line += 1) {
+          body.push(` ${lines[line - 1]}`);
+        }
+        const endingOf = (text: string) => (text.endsWith('\r') ? '\r' : '');
+        const replacement = edit.replacement.split('\n');
+        const ending = endingOf(lines[edit.startLine - 1]);
+        const lastEnding = endingOf(lines[edit.endLine - 1]);
+        body.push(...lines.slice(edit.startLine - 1, edit.endLine).map(text => `-${text}`));
+        if (endsFile(edit.endLine)) {
+          body.push(NO_NEWLINE_MARKER);
+        }
+        body.push(...replacement.map((text, index) => `+${text}${index === replacement.length - 1 ? lastEnding : ending}`));
+        if (endsFile(edit.endLine)) {
+          body.push(NO_NEWLINE_MARKER);
+        }
+        added += replacement.length - (edit.endLine - edit.startLine + 1);
+        line = edit.endLine + 1;
+      }
+      for (; line <= oldEnd; line += 1) {
+        body.push(` ${lines[line - 1]}`);
+        if (endsFile(line)) {
+          body.push(NO_NEWLINE_MARKER);
+        }
+      }
+      const oldCount = oldEnd - oldStart + 1;
+      output.push(`@@ -${oldStart},${oldCount} +${oldStart + offset},${oldCount + added} @@`, ...body);
+      offset += added;
+    }
+    patches.push(output.join('\n'));
+  }
+  return patches.length > 0 ? `${patches.join('\n')}\n` : '';
+}
+
+/**
+ * Reads the fixed files from a git tree and formats the fixes as a patch.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree the fixes were found in
+ * @param fixes - Fixes to apply
+ * @returns The patch, see formatFixPatch
+ */
+export async function createFixPatch(workspacePath: string, ref: string, fixes: CycleFix[]): Promise<string> {
+  const files = Array.from(new Set(fixes.map(fix => fix.from)));
+  return formatFixPatch(fixes, await readTreeFiles(workspacePath, ref, files));
+}
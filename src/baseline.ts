@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import { BaselineComparison, CircularDependencyResult } from './circular-deps';
+
+/** Default location of the committed baseline, relative to the repository root. */
+export const DEFAULT_BASELINE_PATH = '.circular-deps-baseline.json';
+
+/**
+ * A committed list of accepted cycle ids.
+ */
+export interface CycleBaseline {
+  version: 1;
+  cycles: string[];
+}
+
+/**
+ * Creates a baseline accepting every given cycle.
+ * @param cycles - Cycles to accept
+ * @returns Baseline with sorted, de-duplicated cycle ids
+ */
+export function createBaseline(cycles: CircularDependencyResult[]): CycleBaseline {
+  return {
+    version: 1,
+    cycles: Array.from(new Set(cycles.map(cycle => cycle.id))).sort(),
+  };
+}
+
+/**
+ * Parses the contents of a baseline file.
+ * @param content - Raw JSON content
+ * @returns The parsed baseline
+ */
+export function parseBaseline(content: string): CycleBaseline {
+  const parsed = JSON.parse(content);
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.cycles)) {
+    throw new Error('Invalid baseline file: expected { "version": 1, "cycles": [...] }');
+  }
+  if (!parsed.cycles.every((id: unknown) => typeof id === 'string')) {
+    throw new Error('Invalid baseline file: every cycle must be a string id');
+  }
+  return { version: 1, cycles: parsed.cycles };
+}
+
+/**
+ * Loads a baseline file from disk.
+ * @param filePath - Path to the baseline file
+ * @returns The baseline, or undefined if the file does not exist
+ */
+export async function loadBaseline(filePath: string): Promise<CycleBaseline | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  return parseBaseline(content);
+}
+
+/**
+ * Writes a baseline file to disk.
+ * @param filePath - Path to the baseline file
+ * @param baseline - Baseline to write
+ */
+export async function writeBaseline(filePath: string, baseline: CycleBaseline): Promise<void> {
+  await fs.writeFile(filePath, `${JSON.stringify(baseline, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Splits cycles into those accepted by the baseline and those newly introduced.
+ * @param cycles - Cycles found in the current analysis
+ * @param baseline - Accepted cycles
+ * @returns Introduced and known cycles, plus baseline entries that can be removed
+ */
+export function applyBaseline(
+  cycles: CircularDependencyResult[],
+  baseline: CycleBaseline
+): BaselineComparison {
+  const accepted = new Set(baseline.cycles);
+  const currentIds = new Set(cycles.map(cycle => cycle.id));
+
+  return {
+    introduced: cycles.filter(cycle => !accepted.has(cycle.id)),
+    known: cycles.filter(cycle => accepted.has(cycle.id)),
+    removable: baseline.cycles.filter(id => !currentIds.has(id)),
+  };
+}
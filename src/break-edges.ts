@@ -0,0 +1,137 @@
+import {
+  BreakEdgeRecommendation,
+  BreakRecommendations,
+  CircularDependencyResult,
+  DependencyEdgeRef,
+} from './circular-deps';
+
+/**
+ * Options controlling the size of the recommendation.
+ */
+export interface BreakEdgeOptions {
+  /** Stop after recommending this many edges. Unlimited when omitted or zero. */
+  maxEdges?: number;
+}
+
+function edgeKey(from: string, to: string): string {
+  return `${from}\u0000${to}`;
+}
+
+/**
+ * Lists the dependency edges that make up a cycle, including the closing edge.
+ * @param cycle - A normalized cycle
+ * @returns Edges in cycle order
+ */
+export function getCycleEdges(cycle: CircularDependencyResult): DependencyEdgeRef[] {
+  return cycle.cycle.map((from, index) => ({
+    from,
+    to: cycle.cycle[(index + 1) % cycle.cycle.length],
+  }));
+}
+
+/**
+ * Computes an approximate minimum feedback arc set over the detected cycles.
+ * Edges are picked greedily: each step takes the edge shared by the most cycles that
+ * are still unbroken, so the first recommendations give the biggest improvement.
+ * @param cycles - Detected cycles
+ * @param options - Limits on the number of recommended edges
+ * @returns Ranked edges and how many cycles they break together
+ */
+export function recommendBreakEdges(
+  cycles: CircularDependencyResult[],
+  options: BreakEdgeOptions = {}
+): BreakRecommendations {
+  const maxEdges = options.maxEdges && options.maxEdges > 0 ? options.maxEdges : Infinity;
+  const edges = new Map<string, DependencyEdgeRef>();
+  const cyclesByEdge = new Map<string, Set<number>>();
+
+  cycles.forEach((cycle, index) => {
+    for (const edge of getCycleEdges(cycle)) {
+      const key = edgeKey(edge.from, edge.to);
+      if (!cyclesByEdge.has(key)) {
+        cyclesByEdge.set(key, new Set<number>());
+        edges.set(key, edge);
+      }
+      cyclesByEdge.get(key)!.add(index);
+    }
+  });
+
+  const unbroken = new Set(cycles.map((_, index) => index));
+  const recommendations: BreakEdgeRecommendation[] = [];
+
+  while (unbroken.size > 0 && recommendations.length < maxEdges) {
+    let bestKey: string | undefined;
+    let bestNewlyBroken = 0;
+    let bestCycleCount = 0;
+
+    for (const [key, members] of cyclesByEdge) {
+      let newlyBroken = 0;
+      for (const index of members) {
+        if (unbroken.has(index)) {
+          newlyBroken += 1;
+        }
+      }
+      if (newlyBroken === 0) {
+        continue;
+      }
+      // Prefer edges that break the most remaining cycles, then the most cycles overall.
+      const better = bestKey === undefined ||
+        newlyBroken > bestNewlyBroken ||
+        (newlyBroken === bestNewlyBroken && members.size > bestCycleCount) ||
+        (newlyBroken === bestNewlyBroken && members.size === bestCycleCount && key < bestKey);
+      if (better) {
+        bestKey = key;
+        bestNewlyBroken = newlyBroken;
+        bestCycleCount = members.size;
+      }
+    }
+
+    if (bestKey === undefined) {
+      break;
+    }
+
+    const members = cyclesByEdge.get(bestKey)!;
+    for (const index of members) {
+      unbroken.delete(index);
+    }
+    recommendations.push({
+      ...edges.get(bestKey)!,
+      cycleCount: members.size,
+      newlyBroken: bestNewlyBroken,
+    });
+    cyclesByEdge.delete(bestKey);
+  }
+
+  return {
+    edges: recommendations,
+    totalCycles: cycles.length,
+    brokenCycles: cycles.length - unbroken.size,
+  };
+}
+
+/**
+ * Attaches to each cycle the highest-ranked recommended edge that breaks it.
+ * @param cycles - Detected cycles
+ * @param recommendations - Result of recommendBreakEdges for the same cycles
+ * @returns Copies of the cycles with `breakEdge` set where a recommendation applies
+ */
+export function annotateBreakEdges(
+  cycles: CircularDependencyResult[],
+  recommendations: BreakRecommendations
+): CircularDependencyResult[] {
+  const rank = new Map<string, number>();
+  recommendations.edges.forEach((edge, index) => rank.set(edgeKey(edge.from, edge.to), index));
+
+  return cycles.map(cycle => {
+    let best: DependencyEdgeRef | undefined;
+    let bestRank = Infinity;
+    for (const edge of getCycleEdges(cycle)) {
+      const edgeRank = rank.get(edgeKey(edge.from, edge.to));
+      if (edgeRank !== undefined && edgeRank < bestRank) {
+        best = edge;
+        bestRank = edgeRank;
+      }
+    }
+    return best ? { ...cycle, breakEdge: best } : cycle;
+  });
+}
@@ -0,0 +1,218 @@
+import * as github from '@actions/github';
+import { CircularDependencyResult, ImportSite, RuleViolation } from './circular-deps';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** The Checks API accepts at most this many annotations per request. */
+export const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+/** The Checks API rejects output summaries longer than this many characters. */
+export const MAX_SUMMARY_LENGTH = 65535;
+
+/** Cycles listed in one annotation before the rest are summarized. */
+const MAX_CYCLES_PER_ANNOTATION = 5;
+
+export type CheckConclusion = 'success' | 'failure' | 'neutral';
+
+/**
+ * An annotation on one import line, as accepted by the Checks API.
+ */
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+}
+
+/**
+ * A check run to publish on a commit.
+ */
+export interface CheckRunReport {
+  owner: string;
+  repo: string;
+  headSha: string;
+  name: string;
+  conclusion: CheckConclusion;
+  title: string;
+  /** Markdown summary shown on the check page. */
+  summary: string;
+  annotations: CheckAnnotation[];
+}
+
+function formatCycle(cycle: CircularDependencyResult): string {
+  return cycle.cycle.concat(cycle.cycle[0]).join(' -> ');
+}
+
+/**
+ * Locates the imports of a dependency. Hops between Go packages start at a directory, so
+ * each import is placed in its own file when the graph knows it. Without line information
+ * the location still points at the right file.
+ */
+function getImportLocations(from: string, imports: ImportSite[]): Array<{ path: string; line: number }> {
+  const withLines = imports.filter(site => site.line !== undefined);
+  const sites = withLines.length > 0 ? withLines : imports;
+  const locations = sites.length > 0
+    ? sites.map(site => ({ path: site.file ?? from, line: site.line ?? 1 }))
+    : [{ path: from, line: 1 }];
+  return Array.from(new Map(locations.map(location => [`${location.path}:${location.line}`, location])).values());
+}
+
+/**
+ * Creates one annotation per import line that takes part in a cycle. Lines shared by
+ * several cycles get a single annotation listing them all.
+ * @param cycles - Cycles to annotate
+ * @param failingIds - Ids of the cycles that fail the check; the others become warnings
+ * @param changedFiles - Files changed in the PR; when given, other files are not annotated
+ * @returns Annotations sorted by file and line
+ */
+export function createCycleAnnotations(
+  cycles: CircularDependencyResult[],
+  failingIds: Set<string>,
+  changedFiles?: Set<string>
+): CheckAnnotation[] {
+  const byLocation = new Map<string, { path: string; line: number; target: string; cycles: CircularDependencyResult[] }>();
+
+  for (const cycle of cycles) {
+    cycle.cycle.forEach((from, index) => {
+      const to = cycle.cycle[(index + 1) % cycle.cycle.length];
+      for (const { path, line } of getImportLocations(from, cycle.edges?.[index]?.imports || [])) {
+        if (changedFiles && !changedFiles.has(path)) {
+          continue;
+        }
+        const key = `${path}:${line}`;
+        if (!byLocation.has(key)) {
+          byLocation.set(key, { path, line, target: to, cycles: [] });
+        }
+        byLocation.get(key)!.cycles.push(cycle);
+      }
+    });
+  }
+
+  return Array.from(byLocation.values())
+    .sort((left, right) => (left.path < right.path ? -1 : left.path > right.path ? 1 : left.line - right.line))
+    .map(location => {
+      const count = location.cycles.length;
+      const listed = location.cycles.slice(0, MAX_CYCLES_PER_ANNOTATION).map(cycle => `- ${formatCycle(cycle)}`);
+      if (count > MAX_CYCLES_PER_ANNOTATION) {
+        listed.push(`- ...and ${count - MAX_CYCLES_PER_ANNOTATION} more`);
+      }
+      return {
+        path: location.path,
+        start_line: location.line,
+        end_line: location.line,
+        annotation_level: location.cycles.some(cycle => failingIds.has(cycle.id)) ? 'failure' : 'warning',
+        title: `Circular dependency: imports ${location.target}`,
+        message: `This import is part of ${count} circular dependenc${count === 1 ? 'y' : 'ies'}:\n${listed.join('\n')}`,
+      };
+    });
+}
+
+/**
+ * Creates one failure annotation per import that breaks an architecture rule.
+ * @param violations - Layer and forbidden-dependency violations
+ * @param changedFiles - Files changed in the PR; when given, other files are not annotated
+ * @returns Annotations sorted by file and line
+ */
+export function createViolationAnnotations(
+  violations: RuleViolation[],
+  changedFiles?: Set<string>
+): CheckAnnotation[] {
+  const annotations: CheckAnnotation[] = [];
+  for (const violation of violations) {
+    const { from, to, imports } = violation.edge;
+    for (const { path, line } of getImportLocations(from, imports)) {
+      if (changedFiles && !changedFiles.has(path)) {
+        continue;
+      }
+      annotations.push({
+        path,
+        start_line: line,
+        end_line: line,
+        annotation_level: 'failure',
+        title: `Forbidden dependency: imports ${to}`,
+        message: violation.reason ? `Breaks ${violation.rule}: ${violation.reason}` : `Breaks ${violation.rule}`,
+      });
+    }
+  }
+  return annotations.sort((left, right) =>
+    left.path < right.path ? -1 : left.path > right.path ? 1 : left.start_line - right.start_line
+  );
+}
+
+/**
+ * Lists the files added or modified by a pull request.
+ * @param octokit - Authenticated GitHub client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullNumber - Pull request number
+ * @returns Paths of changed files that still exist in the head commit
+ */
+export async function listChangedFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<Set<string>> {
+  const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+  return new Set(files.filter(file => file.status !== 'removed').map(file => file.filename));
+}
+
+const TRUNCATED_NOTE = '\n\n_The summary was cut off at the size limit of the Checks API._';
+
+function truncateSummary(summary: string): string {
+  return summary.length <= MAX_SUMMARY_LENGTH
+    ? summary
+    : `${summary.slice(0, MAX_SUMMARY_LENGTH - TRUNCATED_NOTE.length)}${TRUNCATED_NOTE}`;
+}
+
+/**
+ * Publishes a completed check run. Annotations are sent in batches of 50, the most the
+ * Checks API accepts per request, and a summary over MAX_SUMMARY_LENGTH is cut off.
+ * @param octokit - Authenticated GitHub client
+ * @param report - Check run contents
+ * @returns Id of the created check run
+ */
+export async function publishCheckRun(octokit: Octokit, report: CheckRunReport): Promise<number> {
+  const { owner, repo, title, annotations } = report;
+  const summary = truncateSummary(report.summary);
+  const batches: CheckAnnotation[][] = [];
+  for (let start = 0; start < annotations.length; start += MAX_ANNOTATIONS_PER_REQUEST) {
+    batches.push(annotations.slice(start, start + MAX_ANNOTATIONS_PER_REQUEST));
+  }
+
+  const { data } = await octokit.rest.checks.create({
+    owner,
+    repo,
+    name: report.name,
+    head_sha: report.headSha,
+    status: 'in_progress',
+    output: { title, summary, annotations: batches[0] || [] },
+  });
+
+  for (const batch of batches.slice(1)) {
+    await octokit.rest.checks.update({
+      owner,
+      repo,
+      check_run_id: data.id,
+      output: { title, summary, annotations: batch },
+    });
+  }
+
+  await octokit.rest.checks.update({
+    owner,
+    repo,
+    check_run_id: data.id,
+    status: 'completed',
+    conclusion: report.conclusion,
+    output: { title, summary },
+  });
+
+  return data.id;
+}
@@ -1,5 +1,21 @@
+import { createHash } from 'crypto';
 import { minimatch } from 'minimatch';
 import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+import {
+  Adjacency,
+  CycleEnumeration,
+  findElementaryCycles,
+  findStronglyConnectedComponents,
+  inducedSubgraph,
+} from './graph-algorithms';
+import {
+  GRAPH_SCHEMAS,
+  GraphSchema,
+  createDependencyTypeMatcher,
+  isFileNode,
+  readNodePath,
+} from './graph-schema';
+import { ModuleNameResolver, SpecifierResolver } from './module-resolver';
 
 /**
  * Represents a circular dependency cycle found in the codebase.
@@ -8,6 +24,167 @@ export interface CircularDependencyResult {
   id: string;
   cycle: string[];
   length: number;
+  /** The recommended dependency edge to remove in order to break this cycle. */
+  breakEdge?: DependencyEdgeRef;
+  /** Every hop of the cycle, in order, with the imports that create it. */
+  edges?: CycleEdge[];
+  /** The weakest edge kind in the cycle, which decides whether it matters at runtime. */
+  kind?: EdgeKind;
+  /**
+   * Whether a module of a runtime cycle uses a binding of the next one while it initializes,
+   * which fails for some entry point. Unset when the sources were not analyzed.
+   */
+  initOrder?: InitOrderRisk;
+  /** Imported bindings used at module evaluation time along the cycle. */
+  hazards?: InitOrderHazard[];
+  /**
+   * CODEOWNERS owners of the files of the cycle, in the order they are met along it.
+   * Unset when the repository has no CODEOWNERS file.
+   */
+  owners?: string[];
+  /** Whether no single owner owns every owned file of the cycle. */
+  crossTeam?: boolean;
+}
+
+/**
+ * How an import binds two modules, from weakest to strongest:
+ * - `type-only`: erased at compile time (`import type`)
+ * - `dynamic`: loaded lazily (`import()`)
+ * - `re-export`: evaluated eagerly through `export ... from`
+ * - `runtime`: a static value import evaluated at module initialization
+ */
+export type EdgeKind = 'type-only' | 'dynamic' | 're-export' | 'runtime';
+
+/** All edge kinds, ordered from weakest to strongest. */
+export const EDGE_KINDS: EdgeKind[] = ['type-only', 'dynamic', 're-export', 'runtime'];
+
+/**
+ * The source location of an import that creates a dependency edge.
+ */
+export interface ImportSite {
+  /** 1-based line of the import in the importing file, when the graph provides it. */
+  line?: number;
+  /** The module specifier as written in the source, e.g. `./user`. */
+  specifier?: string;
+  /** The graph relationship type that produced the edge. */
+  relationshipType: string;
+  kind: EdgeKind;
+  /** Importing file, when the edge is between modules of several files such as Go packages. */
+  file?: string;
+}
+
+/**
+ * One hop of a cycle together with the imports that create it.
+ */
+export interface CycleEdge {
+  from: string;
+  to: string;
+  /** The strongest kind among the edge's imports. */
+  kind: EdgeKind;
+  imports: ImportSite[];
+}
+
+/**
+ * Where an imported binding is used while its module initializes:
+ * - `extends`: the base class of a class
+ * - `decorator`: a class, member or parameter decorator
+ * - `initializer`: a top-level variable, static field, enum member or `export default`
+ * - `statement`: any other top-level code, including static blocks and immediately invoked functions
+ */
+export type BindingUsage = 'extends' | 'decorator' | 'initializer' | 'statement';
+
+/** `hazardous` when a cycle has evaluation-time uses of imported bindings, `benign` otherwise. */
+export type InitOrderRisk = 'hazardous' | 'benign';
+
+/**
+ * An imported binding used at module evaluation time, along a dependency of a cycle.
+ * Depending on which module of the cycle loads first, it is `undefined` or throws a
+ * ReferenceError at that point.
+ */
+export interface InitOrderHazard {
+  /** File using the binding. */
+  from: string;
+  /** File the binding is imported from. */
+  to: string;
+  /** Local name of the binding, e.g. `Base` or `models.User` for a namespace import. */
+  binding: string;
+  /** 1-based line of the use in `from`. */
+  line: number;
+  usage: BindingUsage;
+}
+
+/**
+ * The cycles passing through files of one CODEOWNERS owner.
+ */
+export interface OwnerBreakdown {
+  /** Owner as written in CODEOWNERS, e.g. `@org/team`, `@user` or an email address. */
+  owner: string;
+  /** Ids of the cycles. */
+  cycles: string[];
+  /** How many of the cycles are cross-team. */
+  crossTeamCount: number;
+}
+
+/**
+ * A dependency from one file to another.
+ */
+export interface DependencyEdgeRef {
+  from: string;
+  to: string;
+}
+
+/**
+ * How a fix removes a dependency:
+ * - `type-only-import`: turns a value import whose bindings are only used as types into `import type`
+ * - `bypass-barrel`: imports from the files defining the bindings instead of an `index` file re-exporting them
+ */
+export type FixKind = 'type-only-import' | 'bypass-barrel';
+
+/**
+ * A replacement of whole lines in the importing file.
+ */
+export interface FixEdit {
+  kind: FixKind;
+  /** 1-based first replaced line. */
+  startLine: number;
+  /** 1-based last replaced line. */
+  endLine: number;
+  /** The replaced lines. */
+  original: string;
+  /** The lines replacing them. */
+  replacement: string;
+}
+
+/**
+ * Edits to the importing file of a cycle's dependency that remove it from the runtime graph.
+ * Every fix is checked by recomputing the file's imports with the edits applied.
+ */
+export interface CycleFix extends DependencyEdgeRef {
+  /** `from->to` of the removed dependency. */
+  id: string;
+  edits: FixEdit[];
+  /** Ids of the detected cycles going through the dependency. */
+  cycles: string[];
+}
+
+/**
+ * A dependency edge whose removal breaks one or more cycles.
+ */
+export interface BreakEdgeRecommendation extends DependencyEdgeRef {
+  /** Number of detected cycles this edge participates in. */
+  cycleCount: number;
+  /** Cycles broken by this edge that no higher-ranked recommendation already breaks. */
+  newlyBroken: number;
+}
+
+/**
+ * An approximate minimum set of edges whose removal breaks the detected cycles.
+ */
+export interface BreakRecommendations {
+  edges: BreakEdgeRecommendation[];
+  totalCycles: number;
+  /** Cycles broken by removing every recommended edge. */
+  brokenCycles: number;
 }
 
 /** Default glob patterns for files to exclude from analysis. */
@@ -30,47 +207,138 @@ export const DEFAULT_EXCLUDE_PATTERNS = [
   '**/__mocks__/**',
 ];
 
+/**
+ * Which files take part in the analysis, beyond the ignore patterns.
+ */
+export interface FileFilter {
+  /**
+   * When non-empty, only files matching one of these globs are analyzed. Matching files
+   * are analyzed even if a default exclude pattern covers them.
+   */
+  include?: string[];
+  /** Apply DEFAULT_EXCLUDE_PATTERNS. Defaults to true. */
+  defaultExcludes?: boolean;
+}
+
 /**
  * Checks if a file should be ignored based on exclude patterns.
  * @param filePath - The file path to check
  * @param ignorePatterns - Additional patterns to ignore
+ * @param filter - Include patterns and whether to apply the default excludes
  * @returns True if the file should be ignored
  */
-export function shouldIgnoreFile(filePath: string, ignorePatterns: string[] = []): boolean {
-  const allPatterns = [...DEFAULT_EXCLUDE_PATTERNS, ...ignorePatterns];
-  return allPatterns.some(pattern => minimatch(filePath, pattern));
+export function shouldIgnoreFile(filePath: string, ignorePatterns: string[] = [], filter: FileFilter = {}): boolean {
+  if (ignorePatterns.some(pattern => minimatch(filePath, pattern))) {
+    return true;
+  }
+  const include = filter.include || [];
+  if (include.length > 0) {
+    // Explicitly included files opt back in to paths the defaults exclude, such as build/.
+    return !include.some(pattern => minimatch(filePath, pattern));
+  }
+  return filter.defaultExcludes !== false && DEFAULT_EXCLUDE_PATTERNS.some(pattern => minimatch(filePath, pattern));
 }
 
 function normalizePath(value: string): string {
   return value.replace(/\\/g, '/');
 }
 
-function getFilePathFromNode(node: CodeGraphNode): string {
-  const props = node.properties || {};
-  return (
-    props.filePath ||
-    props.path ||
-    props.file ||
-    props.name ||
-    node.id
-  );
+function readNumberProperty(props: Record<string, any>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = Number(props[key]);
+    if (props[key] !== undefined && props[key] !== null && Number.isFinite(value) && value > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function readStringProperty(props: Record<string, any>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof props[key] === 'string' && props[key]) {
+      return props[key];
+    }
+  }
+  return undefined;
 }
 
-function isDependencyRelationship(rel: CodeGraphRelationship): boolean {
+/**
+ * Classifies a dependency relationship by how strongly it binds the two modules at runtime.
+ * @param rel - A dependency relationship
+ * @returns The edge kind
+ */
+export function classifyRelationship(rel: CodeGraphRelationship): EdgeKind {
+  const props: Record<string, any> = rel.properties || {};
   const type = (rel.type || '').toLowerCase();
-  if (type.includes('call')) {
-    return false;
+  const importKind = String(props.importKind || props.kind || '').toLowerCase();
+  const syntax = String(props.syntax || '').toLowerCase();
+
+  if (props.typeOnly === true || props.isTypeOnly === true || importKind === 'type' || /type_?only|import_?type/.test(type)) {
+    return 'type-only';
+  }
+  if (props.dynamic === true || props.isDynamic === true || syntax === 'dynamic-import' || importKind === 'dynamic' || type.includes('dynamic')) {
+    return 'dynamic';
+  }
+  if (props.reExport === true || props.isReExport === true || syntax === 'export' || importKind === 're-export' || type.includes('export')) {
+    return 're-export';
+  }
+  return 'runtime';
+}
+
+/**
+ * Picks the weakest of several edge kinds.
+ * @param kinds - Edge kinds
+ * @returns The weakest kind, or `runtime` when none are given
+ */
+export function getWeakestKind(kinds: EdgeKind[]): EdgeKind {
+  return kinds.reduce<EdgeKind>(
+    (weakest, kind) => (EDGE_KINDS.indexOf(kind) < EDGE_KINDS.indexOf(weakest) ? kind : weakest),
+    'runtime'
+  );
+}
+
+/**
+ * Picks the strongest of several edge kinds.
+ * @param kinds - Edge kinds
+ * @returns The strongest kind, or `runtime` when none are given
+ */
+export function getStrongestKind(kinds: EdgeKind[]): EdgeKind {
+  if (kinds.length === 0) {
+    return 'runtime';
+  }
+  return kinds.reduce<EdgeKind>(
+    (strongest, kind) => (EDGE_KINDS.indexOf(kind) > EDGE_KINDS.indexOf(strongest) ? kind : strongest),
+    'type-only'
+  );
+}
+
+/**
+ * Parses a list of edge kinds from user input.
+ * @param values - Raw kind names
+ * @returns Validated edge kinds
+ */
+export function parseEdgeKinds(values: string[]): EdgeKind[] {
+  return values.map(value => {
+    const kind = value.trim().toLowerCase() as EdgeKind;
+    if (!EDGE_KINDS.includes(kind)) {
+      throw new Error(`Unknown cycle kind "${value}". Expected one of: ${EDGE_KINDS.join(', ')}`);
+    }
+    return kind;
+  });
+}
+
+function getImportSite(rel: CodeGraphRelationship): ImportSite {
+  const props: Record<string, any> = rel.properties || {};
+  const site: ImportSite = { relationshipType: rel.type, kind: classifyRelationship(rel) };
+  const line = readNumberProperty(props, ['line', 'lineNumber', 'startLine', 'start_line']);
+  const specifier = readStringProperty(props, ['specifier', 'importPath', 'moduleSpecifier', 'source']);
+  if (line !== undefined) {
+    site.line = line;
+  }
+  if (specifier !== undefined) {
+    site.specifier = specifier;
   }
-  const dependencyMarkers = [
-    'import',
-    'depend',
-    'require',
-    'use',
-    'include',
-    'reference',
-    'module',
-  ];
-  return dependencyMarkers.some(marker => type.includes(marker));
+  return site;
 }
 
 function rotateToSmallest(values: string[]): string[] {
@@ -91,8 +359,13 @@ function normalizeCycle(cycle: string[]): string[] {
     ? cycle.slice(0, -1)
     : cycle.slice();
 
-  const forward = rotateToSmallest(trimmed);
-  const backward = rotateToSmallest(trimmed.slice().reverse());
+  // Only rotate: reversing would describe imports that do not exist.
+  return rotateToSmallest(trimmed);
+}
+
+function getCanonicalCycle(cycle: string[]): string[] {
+  const forward = normalizeCycle(cycle);
+  const backward = rotateToSmallest(forward.slice().reverse());
 
   const forwardKey = forward.join('->');
   const backwardKey = backward.join('->');
@@ -120,30 +393,215 @@ function resolveFilePath(candidate: string, referencePaths: Set<string>): string
         return withIndex;
       }
     }
+    const otherLanguages = ['.py', '/__init__.py', '.go', '.rs', '/mod.rs', '.java'];
+    return otherLanguages.map(suffix => `${normalized}${suffix}`).find(candidate => referencePaths.has(candidate));
   }
 
   return undefined;
 }
 
 /**
- * Analyzes a code graph to find circular dependencies between files/modules.
+ * File-level dependency graph derived from a code graph.
+ */
+export interface DependencyGraph {
+  /** Every analyzed file, mapped to the files it depends on. */
+  adjacency: Adjacency;
+  /** Import sites per edge, keyed by importing file and then imported file. */
+  imports: Map<string, Map<string, ImportSite[]>>;
+  /** How the code graph mapped to files and dependencies. */
+  diagnostics?: GraphDiagnostics;
+}
+
+/**
+ * How many items a diagnostic applies to, with a few of them as examples.
+ */
+export interface DiagnosticSample {
+  count: number;
+  /** Up to MAX_DIAGNOSTIC_SAMPLES examples. */
+  samples: string[];
+}
+
+/**
+ * What a graph schema matched in a code graph, and what it could not map.
+ */
+export interface GraphDiagnostics {
+  /** Name of the schema profile. */
+  schema: string;
+  nodes: number;
+  relationships: number;
+  /** Nodes whose label marks them as files or modules. */
+  fileNodes: number;
+  /** Dependency relationships with both ends mapped to files. */
+  dependencies: number;
+  /** Relationships per type, most frequent first, and whether the schema maps the type. */
+  relationshipTypes: Array<{ type: string; count: number; dependency: boolean }>;
+  /** Nodes without any of the schema's path properties, identified by their id instead. */
+  nodesWithoutPath: DiagnosticSample;
+  /** Dependencies whose start or end node is missing from the graph. */
+  danglingRelationships: DiagnosticSample;
+  /** Dependency targets that are no file of the graph, e.g. external packages or unresolved aliases. */
+  unresolvedTargets: DiagnosticSample;
+  /** Files left out by the ignore patterns and the include/exclude settings. */
+  ignoredFiles: DiagnosticSample;
+}
+
+/** Examples kept per diagnostic. */
+export const MAX_DIAGNOSTIC_SAMPLES = 10;
+
+function createSample(): DiagnosticSample & { add(item: string): void } {
+  const seen = new Set<string>();
+  const sample = {
+    count: 0,
+    samples: [] as string[],
+    add(item: string) {
+      if (seen.has(item)) {
+        return;
+      }
+      seen.add(item);
+      sample.count += 1;
+      if (sample.samples.length < MAX_DIAGNOSTIC_SAMPLES) {
+        sample.samples.push(item);
+      }
+    },
+  };
+  return sample;
+}
+
+function toDiagnosticSample({ count, samples }: DiagnosticSample): DiagnosticSample {
+  return { count, samples };
+}
+
+/**
+ * Options controlling how the file graph is built.
+ */
+export interface GraphBuildOptions {
+  /**
+   * Resolves import specifiers that do not point at a file node, such as tsconfig path
+   * aliases or workspace package names, to files of the graph.
+   */
+  resolveSpecifier?: SpecifierResolver;
+  /** Maps nodes named after a module instead of a file, e.g. `app.models.user`, to files. */
+  resolveModuleName?: ModuleNameResolver;
+  /** Maps a file to the module cycles are reported between, e.g. its Go package directory. */
+  getModulePath?: (filePath: string) => string;
+  /** Include patterns and default excludes, applied together with the ignore patterns. */
+  fileFilter?: FileFilter;
+  /** Which nodes are files and which relationships are dependencies. Defaults to the `auto` profile. */
+  schema?: GraphSchema;
+}
+
+/**
+ * Options controlling how cycles are detected.
+ */
+export interface CycleDetectionOptions {
+  /** Enumerate every elementary cycle (Johnson's algorithm) instead of one cycle per back edge. */
+  enumerateAllCycles?: boolean;
+  /** Longest cycle (in files) to report. Unlimited when omitted or zero. */
+  maxCycleLength?: number;
+  /** Maximum number of cycles to enumerate. Unlimited when omitted or zero. */
+  maxCycles?: number;
+  /** Cycles of components enumerated on earlier runs; only used with `enumerateAllCycles`. */
+  componentCache?: ComponentCycleCache;
+}
+
+/**
+ * Elementary cycles of strongly connected components, keyed by a hash of each component's
+ * edges and the length cap, so unchanged components are not enumerated again.
+ */
+export interface ComponentCycleCache {
+  get(signature: string): string[][] | undefined;
+  set(signature: string, cycles: string[][]): void;
+}
+
+/**
+ * Cycles found in a dependency graph.
+ */
+export interface CycleDetectionResult {
+  cycles: CircularDependencyResult[];
+  /** True when enumeration stopped at `maxCycles` and more cycles exist. */
+  truncated: boolean;
+}
+
+/**
+ * A dependency between two groups (packages or directories) and the file edges behind it.
+ */
+export interface GroupLink {
+  from: string;
+  to: string;
+  edges: DependencyEdgeRef[];
+}
+
+/**
+ * A cycle between groups of files, such as workspace packages or top-level directories.
+ */
+export interface GroupCycleResult {
+  id: string;
+  cycle: string[];
+  length: number;
+  /** Every group-to-group hop of the cycle, in order. */
+  links: GroupLink[];
+}
+
+/**
+ * A strongly connected component of the file graph: a tangle of files that all reach each other.
+ */
+export interface TangleResult {
+  id: string;
+  files: string[];
+  size: number;
+  /** Number of dependency edges between files of the tangle. */
+  internalEdges: number;
+}
+
+/**
+ * A dependency that breaks a layer or forbidden-dependency rule of the project configuration.
+ */
+export interface RuleViolation {
+  /** Stable id of the rule type and edge, e.g. `layer:src/domain/a.ts->src/ui/b.ts`. */
+  id: string;
+  /** The broken rule in words, e.g. "layer domain must not depend on ui". */
+  rule: string;
+  /** Why the dependency is forbidden, when the configuration says. */
+  reason?: string;
+  /** The offending dependency and the imports that create it. */
+  edge: CycleEdge;
+}
+
+/**
+ * Builds the file-level dependency graph from a code graph.
  * @param nodes - All nodes from the code graph
  * @param relationships - All relationships from the code graph
  * @param ignorePatterns - Additional glob patterns to ignore
- * @returns Array of circular dependency cycles
+ * @param options - Resolution settings and graph schema
+ * @returns Adjacency of files to the files they depend on, with diagnostics of the mapping
  */
-export function findCircularDependencies(
+export function buildDependencyGraph(
   nodes: CodeGraphNode[],
   relationships: CodeGraphRelationship[],
-  ignorePatterns: string[] = []
-): CircularDependencyResult[] {
+  ignorePatterns: string[] = [],
+  options: GraphBuildOptions = {}
+): DependencyGraph {
+  const schema = options.schema ?? GRAPH_SCHEMAS.auto;
+  const isDependencyType = createDependencyTypeMatcher(schema);
+  const nodesWithoutPath = createSample();
+  const ignoredFiles = createSample();
+  const danglingRelationships = createSample();
+  const unresolvedTargets = createSample();
+  const isIgnored = (filePath: string) => shouldIgnoreFile(filePath, ignorePatterns, options.fileFilter);
+  const getNodePath = (node: CodeGraphNode) => {
+    const rawPath = normalizePath(readNodePath(node, schema) || node.id);
+    return (rawPath && options.resolveModuleName?.(rawPath)) || rawPath;
+  };
+  const getModulePath = (filePath: string) => options.getModulePath?.(filePath) ?? filePath;
   const fileNodePaths = new Set<string>();
+  let fileNodes = 0;
   for (const node of nodes) {
-    if (!node.labels?.some(label => label === 'File' || label === 'Module')) {
+    if (!isFileNode(node, schema)) {
       continue;
     }
-    const rawPath = normalizePath(getFilePathFromNode(node));
-    if (!rawPath || shouldIgnoreFile(rawPath, ignorePatterns)) {
+    fileNodes += 1;
+    const rawPath = getNodePath(node);
+    if (!rawPath || isIgnored(rawPath)) {
       continue;
     }
     fileNodePaths.add(rawPath);
@@ -152,8 +610,8 @@ export function findCircularDependencies(
   const referencePaths = fileNodePaths.size > 0 ? fileNodePaths : new Set<string>();
   if (fileNodePaths.size === 0) {
     for (const node of nodes) {
-      const rawPath = normalizePath(getFilePathFromNode(node));
-      if (!rawPath || shouldIgnoreFile(rawPath, ignorePatterns)) {
+      const rawPath = getNodePath(node);
+      if (!rawPath || isIgnored(rawPath)) {
         continue;
       }
       referencePaths.add(rawPath);
@@ -162,34 +620,159 @@ export function findCircularDependencies(
 
   const filePathById = new Map<string, string>();
   for (const node of nodes) {
-    const rawPath = normalizePath(getFilePathFromNode(node));
-    if (!rawPath || shouldIgnoreFile(rawPath, ignorePatterns)) {
+    if (!readNodePath(node, schema)) {
+      nodesWithoutPath.add(node.id);
+    }
+    const rawPath = getNodePath(node);
+    if (!rawPath || isIgnored(rawPath)) {
+      if (rawPath) {
+        ignoredFiles.add(rawPath);
+      }
       continue;
     }
     const resolved = resolveFilePath(rawPath, referencePaths) || rawPath;
     filePathById.set(node.id, resolved);
   }
 
-  const adjacency = new Map<string, Set<string>>();
+  const adjacency: Adjacency = new Map();
+  const imports = new Map<string, Map<string, ImportSite[]>>();
   for (const filePath of filePathById.values()) {
-    if (!adjacency.has(filePath)) {
-      adjacency.set(filePath, new Set<string>());
+    if (!adjacency.has(getModulePath(filePath))) {
+      adjacency.set(getModulePath(filePath), new Set<string>());
     }
   }
 
-  const dependencyRelationships = relationships.filter(isDependencyRelationship);
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const relationshipTypes = new Map<string, { count: number; dependency: boolean }>();
+  for (const rel of relationships) {
+    const type = rel.type || '';
+    const entry = relationshipTypes.get(type) ?? { count: 0, dependency: isDependencyType(type) };
+    entry.count += 1;
+    relationshipTypes.set(type, entry);
+  }
+  const dependencyRelationships = relationships.filter(rel => relationshipTypes.get(rel.type || '')!.dependency);
+  let dependencies = 0;
+  const isFilePath = (candidate: string | undefined): candidate is string =>
+    !!candidate && referencePaths.has(candidate) && /\.[^/]+$/.test(candidate);
+
   for (const rel of dependencyRelationships) {
-    const startPath = filePathById.get(rel.startNode);
-    const endPath = filePathById.get(rel.endNode);
+    const startFile = filePathById.get(rel.startNode);
+    let endFile = filePathById.get(rel.endNode);
+    if (startFile && !isFilePath(endFile) && options.resolveSpecifier) {
+      const specifier = getImportSite(rel).specifier ?? endFile;
+      const resolved = specifier ? options.resolveSpecifier(specifier, startFile) : undefined;
+      let target = resolved ? resolveFilePath(resolved, referencePaths) : undefined;
+      if (resolved && !target && getModulePath(resolved) !== resolved && adjacency.has(getModulePath(resolved))) {
+        // Any file of a multi-file module stands for the module, even without its own node.
+        target = resolved;
+      }
+      if (target && !isIgnored(target)) {
+        endFile = target;
+      }
+    }
+    if (!nodeIds.has(rel.startNode) || !nodeIds.has(rel.endNode)) {
+      danglingRelationships.add(`${rel.startNode} -> ${rel.endNode}`);
+    }
+    const startPath = startFile && getModulePath(startFile);
+    const endPath = endFile && getModulePath(endFile);
     if (!startPath || !endPath) {
       continue;
     }
+    if (!isFilePath(endFile) && !(endPath !== endFile && adjacency.has(endPath))) {
+      unresolvedTargets.add(endFile!);
+    }
+    dependencies += 1;
     if (startPath === endPath) {
       continue;
     }
     adjacency.get(startPath)?.add(endPath);
+
+    if (!imports.has(startPath)) {
+      imports.set(startPath, new Map());
+    }
+    const sites = imports.get(startPath)!;
+    if (!sites.has(endPath)) {
+      sites.set(endPath, []);
+    }
+    const site = getImportSite(rel);
+    if (startFile !== startPath) {
+      site.file = startFile;
+    }
+    const existing = sites.get(endPath)!;
+    const duplicate = existing.some(other =>
+      other.line === site.line &&
+      other.specifier === site.specifier &&
+      other.relationshipType === site.relationshipType &&
+      other.kind === site.kind &&
+      other.file === site.file
+    );
+    if (!duplicate) {
+      existing.push(site);
+    }
   }
 
+  const diagnostics: GraphDiagnostics = {
+    schema: schema.name,
+    nodes: nodes.length,
+    relationships: relationships.length,
+    fileNodes,
+    dependencies,
+    relationshipTypes: Array.from(relationshipTypes, ([type, entry]) => ({ type, ...entry }))
+      .sort((left, right) => right.count - left.count || (left.type < right.type ? -1 : 1)),
+    nodesWithoutPath: toDiagnosticSample(nodesWithoutPath),
+    danglingRelationships: toDiagnosticSample(danglingRelationships),
+    unresolvedTargets: toDiagnosticSample(unresolvedTargets),
+    ignoredFiles: toDiagnosticSample(ignoredFiles),
+  };
+
+  return { adjacency, imports, diagnostics };
+}
+
+/**
+ * Looks up the import sites that create a dependency edge.
+ * @param graph - Graph built by buildDependencyGraph
+ * @param from - Importing file
+ * @param to - Imported file
+ * @returns Import sites, sorted by line
+ */
+export function getImportSites(graph: DependencyGraph, from: string, to: string): ImportSite[] {
+  return (graph.imports.get(from)?.get(to) || [])
+    .slice()
+    .sort((left, right) => (left.line ?? Infinity) - (right.line ?? Infinity));
+}
+
+function attachCycleEdges(graph: DependencyGraph, cycle: CircularDependencyResult): CircularDependencyResult {
+  const edges: CycleEdge[] = cycle.cycle.map((from, index) => {
+    const to = cycle.cycle[(index + 1) % cycle.cycle.length];
+    const imports = getImportSites(graph, from, to);
+    return { from, to, kind: getStrongestKind(imports.map(site => site.kind)), imports };
+  });
+  return { ...cycle, edges, kind: getWeakestKind(edges.map(edge => edge.kind)) };
+}
+
+/**
+ * Computes the id of a cycle given as a list of files, in any rotation and with or
+ * without the first file repeated at the end. The id does not depend on the direction of
+ * the cycle, so it may list the files in the opposite order of the imports; read the
+ * import order from `cycle` instead. A cycle and its reverse share an id, which baselines,
+ * allowances and base comparisons match on.
+ * @param files - Files along the cycle, each importing the next
+ * @returns Cycle id, as used in results and baselines
+ */
+export function getCycleId(files: string[]): string {
+  return getCanonicalCycle(files).join('->');
+}
+
+function toCycleResult(cycle: string[]): CircularDependencyResult {
+  const normalized = normalizeCycle(cycle);
+  return {
+    id: getCycleId(normalized),
+    cycle: normalized,
+    length: normalized.length,
+  };
+}
+
+function findBackEdgeCycles(adjacency: Adjacency): CircularDependencyResult[] {
   const results: CircularDependencyResult[] = [];
   const seenCycles = new Set<string>();
   const visited = new Set<string>();
@@ -209,16 +792,11 @@ export function findCircularDependencies(
       }
       if (onStack.has(neighbor)) {
         const cycleStartIndex = stack.indexOf(neighbor);
-        const cycleIds = stack.slice(cycleStartIndex).concat(neighbor);
-        const normalized = normalizeCycle(cycleIds);
-        const cycleKey = normalized.join('->');
-        if (!seenCycles.has(cycleKey)) {
-          seenCycles.add(cycleKey);
-          results.push({
-            id: cycleKey,
-            cycle: normalized,
-            length: normalized.length,
-          });
+        const result = toCycleResult(stack.slice(cycleStartIndex).concat(neighbor));
+        const key = result.cycle.join('->');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          results.push(result);
         }
       }
     }
@@ -236,39 +814,852 @@ export function findCircularDependencies(
   return results;
 }
 
+function getComponentSignature(subgraph: Adjacency, maxLength: number | undefined): string {
+  const hash = createHash('sha256').update(`maxLength=${maxLength || 0}\n`);
+  for (const from of Array.from(subgraph.keys()).sort()) {
+    for (const to of Array.from(subgraph.get(from)!).sort()) {
+      hash.update(`${from}\0${to}\n`);
+    }
+  }
+  return hash.digest('hex');
+}
+
+function enumerateCycles(graph: DependencyGraph, options: CycleDetectionOptions): CycleEnumeration {
+  const enumerationOptions = { maxLength: options.maxCycleLength, maxCycles: options.maxCycles };
+  const cache = options.componentCache;
+  if (!cache) {
+    return findElementaryCycles(graph.adjacency, enumerationOptions);
+  }
+
+  // Cycles never leave their component, so enumerating component by component finds the
+  // same cycles as one pass over the whole graph.
+  // When the count cap is hit, which cycles are kept depends on the order of the single
+  // pass, so that pass is run instead.
+  const maxCycles = options.maxCycles && options.maxCycles > 0 ? options.maxCycles : Infinity;
+  const cycles: string[][] = [];
+  for (const members of findStronglyConnectedComponents(graph.adjacency)) {
+    if (members.length < 2) {
+      continue;
+    }
+    const subgraph = inducedSubgraph(graph.adjacency, new Set(members));
+    const signature = getComponentSignature(subgraph, options.maxCycleLength);
+    let componentCycles = cache.get(signature);
+    if (!componentCycles) {
+      const enumeration = findElementaryCycles(subgraph, enumerationOptions);
+      if (enumeration.truncated) {
+        return findElementaryCycles(graph.adjacency, enumerationOptions);
+      }
+      componentCycles = enumeration.cycles;
+      cache.set(signature, componentCycles);
+    }
+    cycles.push(...componentCycles);
+    if (cycles.length > maxCycles) {
+      return findElementaryCycles(graph.adjacency, enumerationOptions);
+    }
+  }
+  return { cycles, truncated: false };
+}
+
 /**
- * Formats circular dependency results as a GitHub PR comment.
- * @param cycles - Array of circular dependency cycles
- * @returns Markdown-formatted comment string
+ * Detects cycles in a file-level dependency graph.
+ * @param graph - Graph built by buildDependencyGraph
+ * @param options - Detection mode and caps
+ * @returns The cycles found and whether enumeration was truncated
+ */
+export function detectCycles(
+  graph: DependencyGraph,
+  options: CycleDetectionOptions = {}
+): CycleDetectionResult {
+  const maxLength = options.maxCycleLength && options.maxCycleLength > 0
+    ? options.maxCycleLength
+    : Infinity;
+
+  if (!options.enumerateAllCycles) {
+    return {
+      cycles: findBackEdgeCycles(graph.adjacency)
+        .filter(cycle => cycle.length <= maxLength)
+        .map(cycle => attachCycleEdges(graph, cycle)),
+      truncated: false,
+    };
+  }
+
+  const enumeration = enumerateCycles(graph, options);
+
+  // Ids do not depend on direction, so a cycle and its reverse share one; tell them apart
+  // by the files in import order.
+  const cycles: CircularDependencyResult[] = [];
+  const seenCycles = new Set<string>();
+  for (const cycle of enumeration.cycles) {
+    const result = toCycleResult(cycle);
+    const key = result.cycle.join('->');
+    if (!seenCycles.has(key)) {
+      seenCycles.add(key);
+      cycles.push(attachCycleEdges(graph, result));
+    }
+  }
+  const sortKey = (cycle: CircularDependencyResult) => `${cycle.id}\n${cycle.cycle.join('->')}`;
+  cycles.sort((left, right) => (sortKey(left) < sortKey(right) ? -1 : sortKey(left) > sortKey(right) ? 1 : 0));
+
+  return { cycles, truncated: enumeration.truncated };
+}
+
+/**
+ * Finds every tangle (strongly connected component with more than one file) in the graph.
+ * @param graph - Graph built by buildDependencyGraph
+ * @returns Tangles sorted by size, largest first
+ */
+export function findTangles(graph: DependencyGraph): TangleResult[] {
+  return findStronglyConnectedComponents(graph.adjacency)
+    .filter(files => files.length > 1)
+    .map(files => {
+      const members = new Set(files);
+      let internalEdges = 0;
+      for (const file of files) {
+        for (const target of graph.adjacency.get(file) || []) {
+          if (members.has(target)) {
+            internalEdges += 1;
+          }
+        }
+      }
+      return {
+        id: files.join('|'),
+        files,
+        size: files.length,
+        internalEdges,
+      };
+    })
+    .sort((left, right) => right.size - left.size || (left.id < right.id ? -1 : 1));
+}
+
+/**
+ * Analyzes a code graph to find circular dependencies between files/modules.
+ * @param nodes - All nodes from the code graph
+ * @param relationships - All relationships from the code graph
+ * @param ignorePatterns - Additional glob patterns to ignore
+ * @param options - Resolution settings, detection mode and caps
+ * @returns Array of circular dependency cycles
+ */
+export function findCircularDependencies(
+  nodes: CodeGraphNode[],
+  relationships: CodeGraphRelationship[],
+  ignorePatterns: string[] = [],
+  options: GraphBuildOptions & CycleDetectionOptions = {}
+): CircularDependencyResult[] {
+  const graph = buildDependencyGraph(nodes, relationships, ignorePatterns, options);
+  return detectCycles(graph, options).cycles;
+}
+
+/**
+ * Result of comparing the cycles of a base commit with the cycles of the head commit.
+ */
+export interface CycleComparison {
+  introduced: CircularDependencyResult[];
+  fixed: CircularDependencyResult[];
+  unchanged: CircularDependencyResult[];
+}
+
+/**
+ * A cycle the project configuration accepts, and why.
+ */
+export interface CycleAllowance {
+  /** Id of the accepted cycle. */
+  id: string;
+  /** Justification from the configuration, or the severity rule that silences the cycle. */
+  reason: string;
+  /** Date (YYYY-MM-DD) after which the cycle is reported again. */
+  expires?: string;
+}
+
+/**
+ * Result of checking the current cycles against a baseline.
  */
-export function formatPrComment(cycles: CircularDependencyResult[]): string {
+export interface BaselineComparison {
+  /** Cycles that are not in the baseline and should fail the build. */
+  introduced: CircularDependencyResult[];
+  /** Cycles that are accepted by the baseline. */
+  known: CircularDependencyResult[];
+  /** Baseline ids that no longer occur and can be removed from the file. */
+  removable: string[];
+}
+
+/**
+ * Diffs two sets of cycles by their normalized id.
+ * @param baseCycles - Cycles found on the base commit
+ * @param headCycles - Cycles found on the head commit
+ * @returns Cycles introduced, fixed and left unchanged by the head commit
+ */
+export function compareCircularDependencies(
+  baseCycles: CircularDependencyResult[],
+  headCycles: CircularDependencyResult[]
+): CycleComparison {
+  const baseIds = new Set(baseCycles.map(cycle => cycle.id));
+  const headIds = new Set(headCycles.map(cycle => cycle.id));
+
+  return {
+    introduced: headCycles.filter(cycle => !baseIds.has(cycle.id)),
+    fixed: baseCycles.filter(cycle => !headIds.has(cycle.id)),
+    unchanged: headCycles.filter(cycle => baseIds.has(cycle.id)),
+  };
+}
+
+/** Options controlling the content of the PR comment. */
+export interface PrCommentOptions {
+  /** When set, cycles are grouped into introduced, fixed and unchanged sections. */
+  comparison?: CycleComparison;
+  /** When set, cycles accepted by the committed baseline are reported as known. */
+  baseline?: BaselineComparison;
+  /** Strongly connected components to list below the cycles. */
+  tangles?: TangleResult[];
+  /** Cycles between packages or directories, listed after the file-level cycles. */
+  groupCycles?: GroupCycleResult[];
+  /** Pre-rendered diagram section, placed after the refactoring plan. */
+  diagrams?: string;
+  /** Edges to remove first, rendered as a refactoring plan. */
+  breakRecommendations?: BreakRecommendations;
+  /** Base URL of the analyzed tree, e.g. `https://github.com/owner/repo/blob/<sha>`, used to link import sites. */
+  sourceUrl?: string;
+  /** Base URL of the base commit tree, used to link import sites of fixed cycles. */
+  baseSourceUrl?: string;
+  /**
+   * Ids of the cycles reported by this action's previous comment on the PR, used to show
+   * what changed since the last push. Omit when there is no previous comment.
+   */
+  previousCycleIds?: string[];
+  /** Cycles accepted by the project configuration; they are listed but never reported as problems. */
+  allowances?: CycleAllowance[];
+  /** Reported breaches of the layer and forbidden-dependency rules. */
+  violations?: RuleViolation[];
+  /** Mechanical fixes; those breaking a reported cycle are listed. */
+  fixes?: CycleFix[];
+  /** @-mention the owners of the reported cycles, which notifies them. */
+  mentionOwners?: boolean;
+  /** Longest comment to return, in characters. Defaults to MAX_COMMENT_LENGTH. */
+  maxLength?: number;
+}
+
+/**
+ * Selects the cycles a PR comment reports as problems: cycles introduced by the PR when
+ * comparing with the base, cycles outside the baseline when one is used, otherwise all cycles.
+ * Cycles accepted by the project configuration are never reported.
+ * @param cycles - All detected cycles
+ * @param options - Comparison data
+ * @returns The reported cycles
+ */
+export function getReportedCycles(
+  cycles: CircularDependencyResult[],
+  options: Pick<PrCommentOptions, 'comparison' | 'baseline' | 'allowances'> = {}
+): CircularDependencyResult[] {
+  const excluded = new Set((options.allowances || []).map(allowance => allowance.id));
+  for (const cycle of options.baseline?.known || []) {
+    excluded.add(cycle.id);
+  }
+  const reported = options.comparison ? options.comparison.introduced : cycles;
+  return excluded.size > 0 ? reported.filter(cycle => !excluded.has(cycle.id)) : reported;
+}
+
+function pluralizeDependency(count: number): string {
+  return `circular dependenc${count === 1 ? 'y' : 'ies'}`;
+}
+
+function formatHop(file: string, edge: CycleEdge | undefined, sourceUrl: string | undefined): string {
+  const site = edge?.imports.find(candidate => candidate.line !== undefined);
+  if (!sourceUrl || !site) {
+    return file;
+  }
+  const title = site.specifier ? ` "${site.specifier.replace(/"/g, "'")}"` : '';
+  return `[${file}:${site.line}](${sourceUrl}/${encodeURI(file)}#L${site.line}${title})`;
+}
+
+function formatCyclePath(cycle: CircularDependencyResult, sourceUrl: string | undefined): string {
+  const hops = cycle.cycle.map((file, index) => formatHop(file, cycle.edges?.[index], sourceUrl));
+  return hops.concat(cycle.cycle[0]).join(' -> ');
+}
+
+/** Listings longer than this are collapsed behind a `<details>` toggle. */
+const COLLAPSE_AFTER_ROWS = 10;
+
+/** GitHub rejects comment bodies longer than this many characters. */
+export const MAX_COMMENT_LENGTH = 65536;
+
+/**
+ * Longest cycle table, tried first; the tables share the comment's budget, so each retry
+ * halves it until the whole comment fits.
+ */
+const MAX_TABLE_LENGTH = 20000;
+
+/** Entries of plain id lists, such as fixed or removable cycles, shown before the rest are counted. */
+const MAX_LIST_ITEMS = 20;
+
+/** Escapes the pipes of a table cell, e.g. in file names, so they do not split the row. */
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function formatDetails(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+}
+
+function formatCycleKind(cycle: CircularDependencyResult): string {
+  return cycle.initOrder === 'hazardous' ? `${cycle.kind ?? 'runtime'}, **hazardous**` : cycle.kind ?? '';
+}
+
+/**
+ * Orders cycles so the ones with initialization-order hazards come first, keeping the
+ * order of the rest.
+ * @param cycles - Cycles to rank
+ * @returns A sorted copy
+ */
+export function rankByInitOrder(cycles: CircularDependencyResult[]): CircularDependencyResult[] {
+  const hazardous = cycles.filter(cycle => cycle.initOrder === 'hazardous');
+  return hazardous.length > 0 ? hazardous.concat(cycles.filter(cycle => cycle.initOrder !== 'hazardous')) : cycles;
+}
+
+/**
+ * Groups cycles by the CODEOWNERS owners of their files. A cycle counts for each of its owners.
+ * @param cycles - Cycles annotated with owners
+ * @returns One entry per owner, owners of the most cycles first
+ */
+export function summarizeOwners(cycles: CircularDependencyResult[]): OwnerBreakdown[] {
+  const byOwner = new Map<string, OwnerBreakdown>();
+  for (const cycle of cycles) {
+    for (const owner of cycle.owners || []) {
+      if (!byOwner.has(owner)) {
+        byOwner.set(owner, { owner, cycles: [], crossTeamCount: 0 });
+      }
+      const breakdown = byOwner.get(owner)!;
+      breakdown.cycles.push(cycle.id);
+      breakdown.crossTeamCount += cycle.crossTeam ? 1 : 0;
+    }
+  }
+  return Array.from(byOwner.values())
+    .sort((a, b) => b.cycles.length - a.cycles.length || a.owner.localeCompare(b.owner));
+}
+
+/** Owners in code spans, so listing them does not notify anyone. */
+function formatOwnerList(owners: string[]): string {
+  return owners.map(owner => `\`${owner}\``).join(', ');
+}
+
+function formatCycleOwners(cycle: CircularDependencyResult): string {
+  if (!cycle.owners || cycle.owners.length === 0) {
+    return '-';
+  }
+  return `${cycle.crossTeam ? '**cross-team**: ' : ''}${formatOwnerList(cycle.owners)}`;
+}
+
+function formatCycleTable(
+  cycles: CircularDependencyResult[],
+  sourceUrl?: string,
+  maxLength: number = MAX_TABLE_LENGTH
+): string {
+  const showKind = cycles.some(cycle => cycle.kind !== undefined);
+  const showOwners = cycles.some(cycle => cycle.owners !== undefined);
+  const columns = ['#', ...(showKind ? ['Kind'] : []), 'Cycle', ...(showOwners ? ['Owners'] : [])];
+  const header = `| ${columns.join(' | ')} |\n|${columns.map(column => '-'.repeat(column.length + 2)).join('|')}|`;
+
+  const rows: string[] = [];
+  let length = header.length;
+  for (const [index, cycle] of rankByInitOrder(cycles).entries()) {
+    const cells = [
+      `${index + 1}`,
+      ...(showKind ? [formatCycleKind(cycle)] : []),
+      formatCyclePath(cycle, sourceUrl),
+      ...(showOwners ? [formatCycleOwners(cycle)] : []),
+    ];
+    const row = `| ${cells.map(escapeTableCell).join(' | ')} |`;
+    if (length + row.length > maxLength) {
+      break;
+    }
+    rows.push(row);
+    length += row.length + 1;
+  }
+
+  let table = `${header}
+${rows.join('\n')}`;
+
+  if (rows.length < cycles.length) {
+    table += `\n\n_...and ${cycles.length - rows.length} more that do not fit in a comment. See action output for full list._`;
+  }
+
+  return cycles.length > COLLAPSE_AFTER_ROWS ? formatDetails(`Show all ${cycles.length} cycles`, table) : table;
+}
+
+function formatComparisonBody(comparison: CycleComparison, options: PrCommentOptions, tableLength: number): string {
+  const { introduced, fixed, unchanged } = comparison;
+  const sections: string[] = [];
+
+  if (introduced.length === 0) {
+    sections.push('No new circular dependencies introduced by this PR.');
+  } else {
+    sections.push(`This PR introduces **${introduced.length}** new ${pluralizeDependency(introduced.length)}.`);
+  }
+
+  if (introduced.length > 0) {
+    sections.push(`### New cycles (${introduced.length})\n\n${formatCycleTable(introduced, options.sourceUrl, tableLength)}`);
+  }
+  if (fixed.length > 0) {
+    sections.push(`### Fixed cycles (${fixed.length})\n\n${formatCycleTable(fixed, options.baseSourceUrl, tableLength)}`);
+  }
+  if (unchanged.length > 0) {
+    sections.push(
+      `### Unchanged cycles (${unchanged.length})\n\n${formatCycleTable(unchanged, options.sourceUrl, tableLength)}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+function formatCycleListBody(
+  cycles: CircularDependencyResult[],
+  options: PrCommentOptions,
+  tableLength: number
+): string {
+  const allowed = new Set((options.allowances || []).map(allowance => allowance.id));
+  const listed = cycles.filter(cycle => !allowed.has(cycle.id));
   if (cycles.length === 0) {
-    return `## Circular Dependency Hunter
+    return 'No circular dependencies found.';
+  }
+  if (listed.length === 0) {
+    return 'No circular dependencies outside the allowed cycles.';
+  }
+  return `Found **${listed.length}** ${pluralizeDependency(listed.length)}:\n\n` +
+    formatCycleTable(listed, options.sourceUrl, tableLength);
+}
+
+function formatBaselineBody(
+  baseline: BaselineComparison,
+  sourceUrl: string | undefined,
+  tableLength: number
+): string {
+  const { introduced, known } = baseline;
+  const sections: string[] = [];
 
-No circular dependencies found! Your codebase is clean.`;
+  if (introduced.length === 0) {
+    sections.push('No circular dependencies outside the baseline.');
+  } else {
+    sections.push(`Found **${introduced.length}** ${pluralizeDependency(introduced.length)} not in the baseline.`);
+    sections.push(`### New cycles (${introduced.length})\n\n${formatCycleTable(introduced, sourceUrl, tableLength)}`);
+  }
+  if (known.length > 0) {
+    sections.push(`### Known cycles (${known.length})\n\n${formatCycleTable(known, sourceUrl, tableLength)}`);
   }
 
-  const rows = cycles
-    .slice(0, 50)
-    .map((cycle, index) => {
-      const path = cycle.cycle.concat(cycle.cycle[0]).join(' -> ');
-      return `| ${index + 1} | ${path} |`;
+  return sections.join('\n\n');
+}
+
+function formatIdList(ids: string[], format: (id: string) => string = id => id.split('->').join(' -> ')): string {
+  const items = ids.slice(0, MAX_LIST_ITEMS).map(id => `- \`${format(id)}\``);
+  if (ids.length > MAX_LIST_ITEMS) {
+    items.push(`- _...and ${ids.length - MAX_LIST_ITEMS} more_`);
+  }
+  return items.join('\n');
+}
+
+function formatRemovableBaselineEntries(removable: string[]): string {
+  // Baseline ids are listed as stored, so they can be searched for in the baseline file.
+  const items = formatIdList(removable, id => id);
+  return `### Removable from baseline (${removable.length})
+
+These cycles no longer exist. Regenerate the baseline with \`update-baseline: true\` to lock in the improvement:
+
+${items}`;
+}
+
+function formatViolationTable(violations: RuleViolation[], sourceUrl: string | undefined): string {
+  const rows = violations
+    .slice(0, 20)
+    .map((violation, index) => {
+      const rule = violation.reason ? `${violation.rule}: ${violation.reason}` : violation.rule;
+      const dependency = `${formatHop(violation.edge.from, violation.edge, sourceUrl)} -> ${violation.edge.to}`;
+      return `| ${index + 1} | ${escapeTableCell(rule)} | ${escapeTableCell(dependency)} |`;
     })
     .join('\n');
+  const more = violations.length > 20
+    ? `\n\n_...and ${violations.length - 20} more. See the \`rule-violations-json\` output for the full list._`
+    : '';
 
-  let comment = `## Circular Dependency Hunter
+  return `### Architecture violations (${violations.length})
+
+Dependencies that break the layer and forbidden-dependency rules of the project config:
+
+| # | Rule | Dependency |
+|---|------|------------|
+${rows}${more}`;
+}
 
-Found **${cycles.length}** circular dependenc${cycles.length === 1 ? 'y' : 'ies'}:
+const USAGE_LABELS: Record<BindingUsage, string> = {
+  extends: 'class extends',
+  decorator: 'decorator',
+  initializer: 'initializer',
+  statement: 'top-level code',
+};
 
-| # | Cycle |
-|---|-------|
+function formatInitOrderHazards(cycles: CircularDependencyResult[], sourceUrl: string | undefined): string {
+  const hazards = cycles.flatMap(cycle => (cycle.hazards || []).map(hazard => ({ cycle, hazard })));
+  const rows = hazards
+    .slice(0, 20)
+    .map(({ cycle, hazard }) => {
+      const location = sourceUrl
+        ? `[${hazard.from}:${hazard.line}](${sourceUrl}/${encodeURI(hazard.from)}#L${hazard.line})`
+        : `${hazard.from}:${hazard.line}`;
+      const cycleCell = `\`${cycle.id.split('->').join(' -> ')}\``;
+      const cells = [`\`${hazard.binding}\``, USAGE_LABELS[hazard.usage], location, hazard.to, cycleCell];
+      return `| ${cells.map(escapeTableCell).join(' | ')} |`;
+    })
+    .join('\n');
+  const more = hazards.length > 20
+    ? `\n\n_...and ${hazards.length - 20} more. See the \`circular-dependency-json\` output for the full list._`
+    : '';
+
+  return `### Initialization-order hazards (${cycles.length})
+
+These cycles use an imported binding while a module initializes. Depending on which module loads first, ` +
+    `the binding is \`undefined\` or throws a \`ReferenceError\`, so fix them first:
+
+| Binding | Used in | At | Imported from | Cycle |
+|---------|---------|----|---------------|-------|
+${rows}${more}`;
+}
+
+function formatOwnerBreakdown(cycles: CircularDependencyResult[]): string {
+  const breakdown = summarizeOwners(cycles);
+  const rows = breakdown
+    .slice(0, 20)
+    .map(entry => `| \`${entry.owner}\` | ${entry.cycles.length} | ${entry.crossTeamCount} |`)
+    .join('\n');
+  const notes: string[] = [];
+  if (breakdown.length > 20) {
+    notes.push(`_...and ${breakdown.length - 20} more. See the \`owner-breakdown-json\` output for the full list._`);
+  }
+  const unowned = cycles.filter(cycle => cycle.owners!.length === 0).length;
+  if (unowned > 0) {
+    notes.push(`_${unowned} ${unowned === 1 ? 'cycle has' : 'cycles have'} no owner in CODEOWNERS._`);
+  }
+  const table = breakdown.length > 0
+    ? `| Owner | Cycles | Cross-team |\n|-------|--------|------------|\n${rows}`
+    : undefined;
+
+  return [`### Cycles by owner (${breakdown.length})`, table, ...notes].filter(Boolean).join('\n\n');
+}
+
+function formatOwnerMentions(cycles: CircularDependencyResult[]): string | undefined {
+  // Email owners cannot be mentioned.
+  const owners = summarizeOwners(cycles).map(entry => entry.owner).filter(owner => owner.startsWith('@'));
+  return owners.length > 0 ? `**Owners:** ${owners.join(' ')}, these cycles pass through files you own.` : undefined;
+}
+
+function formatAllowedCycles(allowances: CycleAllowance[]): string {
+  const rows = allowances
+    .slice(0, 20)
+    .map(allowance => {
+      const reason = escapeTableCell(allowance.reason).replace(/\n/g, ' ');
+      const cycle = escapeTableCell(`\`${allowance.id.split('->').join(' -> ')}\``);
+      return `| ${cycle} | ${reason} | ${allowance.expires || '-'} |`;
+    })
+    .join('\n');
+  const more = allowances.length > 20 ? `\n\n_...and ${allowances.length - 20} more._` : '';
+
+  return `### Allowed cycles (${allowances.length})
+
+Accepted by the project configuration:
+
+| Cycle | Reason | Expires |
+|-------|--------|---------|
+${rows}${more}`;
+}
+
+function formatTangleTable(tangles: TangleResult[]): string {
+  const rows = tangles
+    .slice(0, 20)
+    .map((tangle, index) => {
+      const shown = escapeTableCell(tangle.files.slice(0, 10).join(', '));
+      const more = tangle.size > 10 ? ` _(+${tangle.size - 10} more)_` : '';
+      return `| ${index + 1} | ${tangle.size} | ${tangle.internalEdges} | ${shown}${more} |`;
+    })
+    .join('\n');
+
+  let table = `### Tangles (${tangles.length})
+
+Groups of files that all depend on each other, directly or indirectly:
+
+| # | Files | Internal edges | Members |
+|---|-------|----------------|---------|
+${rows}`;
+
+  if (tangles.length > 20) {
+    table += `\n\n_...and ${tangles.length - 20} more. See action output for full list._`;
+  }
+
+  return table;
+}
+
+function formatBreakRecommendations(recommendations: BreakRecommendations): string {
+  const { edges, totalCycles, brokenCycles } = recommendations;
+  const rows = edges
+    .slice(0, 10)
+    .map((edge, index) => {
+      const dependency = escapeTableCell(`\`${edge.from} -> ${edge.to}\``);
+      return `| ${index + 1} | ${dependency} | ${edge.cycleCount} of ${totalCycles} |`;
+    })
+    .join('\n');
+
+  let section = `### Where to start
+
+Removing these ${edges.length === 1 ? 'dependency' : `${edges.length} dependencies`} breaks ${brokenCycles} of ${totalCycles} cycles:
+
+| # | Dependency to remove | Cycles it appears in |
+|---|----------------------|----------------------|
+${rows}`;
+
+  if (edges.length > 10) {
+    section += `\n\n_...and ${edges.length - 10} more. See action output for full list._`;
+  }
+
+  return section;
+}
+
+const FIX_LABELS: Record<FixKind, string> = {
+  'type-only-import': 'use `import type`',
+  'bypass-barrel': 'import from the defining files instead of the barrel',
+};
+
+function formatFixes(fixes: CycleFix[]): string {
+  const rows = fixes
+    .slice(0, 20)
+    .map((fix, index) => {
+      const edits = fix.edits
+        .map(edit => `${FIX_LABELS[edit.kind]} (${edit.startLine === edit.endLine
+          ? `line ${edit.startLine}`
+          : `lines ${edit.startLine}-${edit.endLine}`})`)
+        .join('<br>');
+      const dependency = escapeTableCell(`\`${fix.from} -> ${fix.to}\``);
+      return `| ${index + 1} | ${dependency} | ${edits} | ${fix.cycles.length} |`;
+    })
+    .join('\n');
+  const more = fixes.length > 20
+    ? `\n\n_...and ${fixes.length - 20} more. See the \`fixes-json\` output for the full list._`
+    : '';
+
+  return `### Mechanical fixes (${fixes.length})
+
+These dependencies can be removed by editing imports alone. Each edit was checked by recomputing the imports of the file:
+
+| # | Dependency | Fix | Cycles it appears in |
+|---|------------|-----|----------------------|
+${rows}${more}`;
+}
+
+function formatGroupLink(link: GroupLink): string {
+  const [first] = link.edges;
+  const more = link.edges.length > 1 ? ` (+${link.edges.length - 1} more)` : '';
+  return `\`${link.from}\` -> \`${link.to}\`: ${first.from} -> ${first.to}${more}`;
+}
+
+function formatGroupCycleTable(groupCycles: GroupCycleResult[]): string {
+  const rows = groupCycles
+    .slice(0, 20)
+    .map((cycle, index) => {
+      const path = escapeTableCell(cycle.cycle.concat(cycle.cycle[0]).join(' -> '));
+      const links = escapeTableCell(cycle.links.map(formatGroupLink).join('<br>'));
+      return `| ${index + 1} | ${path} | ${links} |`;
+    })
+    .join('\n');
+
+  let table = `### Group cycles (${groupCycles.length})
+
+| # | Cycle | Caused by |
+|---|-------|-----------|
 ${rows}`;
 
-  if (cycles.length > 50) {
-    comment += `\n\n_...and ${cycles.length - 50} more. See action output for full list._`;
+  if (groupCycles.length > 20) {
+    table += `\n\n_...and ${groupCycles.length - 20} more. See action output for full list._`;
+  }
+
+  return table;
+}
+
+function formatChangesSinceLastPush(
+  reported: CircularDependencyResult[],
+  previousCycleIds: string[],
+  sourceUrl: string | undefined,
+  tableLength: number
+): string | undefined {
+  const previous = new Set(previousCycleIds);
+  const current = new Set(reported.map(cycle => cycle.id));
+  const added = reported.filter(cycle => !previous.has(cycle.id));
+  const fixed = previousCycleIds.filter(id => !current.has(id));
+
+  if (added.length === 0 && fixed.length === 0) {
+    return undefined;
+  }
+
+  const sections = ['### Since the last push'];
+  if (fixed.length > 0) {
+    sections.push(formatDetails(`Fixed (${fixed.length})`, formatIdList(fixed)));
+  }
+  if (added.length > 0) {
+    sections.push(formatDetails(`Added (${added.length})`, formatCycleTable(added, sourceUrl, tableLength)));
+  }
+  return sections.join('\n\n');
+}
+
+const COMMENT_HEADER = '## Circular Dependency Hunter\n\n';
+const COMMENT_FOOTER = `\n\n---\n_Powered by [Supermodel](https://supermodeltools.com) graph analysis_`;
+const OMITTED_NOTE = '_Some sections were left out to stay within the size limit of GitHub. See the action outputs for everything._';
+
+/**
+ * Renders the sections of a comment, split into those that must be kept and those that may be
+ * left out when the comment does not fit, in order of importance.
+ */
+function formatCommentSections(
+  cycles: CircularDependencyResult[],
+  options: PrCommentOptions,
+  tableLength: number
+): { required: string[]; optional: string[] } {
+  const {
+    comparison,
+    baseline,
+    tangles = [],
+    breakRecommendations,
+    groupCycles = [],
+    previousCycleIds,
+    violations = [],
+  } = options;
+  const reported = getReportedCycles(cycles, options);
+  const changes = previousCycleIds &&
+    formatChangesSinceLastPush(reported, previousCycleIds, options.sourceUrl, tableLength);
+  const resolved = reported.length === 0 && !!previousCycleIds && previousCycleIds.length > 0
+    ? `**Resolved:** ${previousCycleIds.length === 1 ? 'the' : `all ${previousCycleIds.length}`} ` +
+      `${pluralizeDependency(previousCycleIds.length)} reported earlier on this PR ` +
+      `${previousCycleIds.length === 1 ? 'is' : 'are'} fixed.`
+    : undefined;
+
+  if (cycles.length === 0 && groupCycles.length === 0 && violations.length === 0 && !comparison && !baseline) {
+    const clean = 'No circular dependencies found! Your codebase is clean.';
+    return { required: resolved ? [resolved, clean] : [clean], optional: resolved && changes ? [changes] : [] };
+  }
+
+  const required: string[] = [];
+  if (resolved) {
+    required.push(resolved);
+  }
+  if (comparison) {
+    required.push(formatComparisonBody(comparison, options, tableLength));
+  } else if (baseline) {
+    required.push(formatBaselineBody(baseline, options.sourceUrl, tableLength));
+  } else {
+    required.push(formatCycleListBody(cycles, options, tableLength));
+  }
+  const owned = reported.filter(cycle => cycle.owners !== undefined);
+  const mentions = options.mentionOwners ? formatOwnerMentions(owned) : undefined;
+  if (mentions) {
+    required.push(mentions);
+  }
+
+  const optional: string[] = [];
+  if (changes) {
+    optional.push(changes);
+  }
+  const hazardous = reported.filter(cycle => cycle.initOrder === 'hazardous');
+  if (hazardous.length > 0) {
+    optional.push(formatInitOrderHazards(hazardous, options.sourceUrl));
+  }
+  if (owned.length > 0) {
+    optional.push(formatOwnerBreakdown(owned));
+  }
+  if (violations.length > 0) {
+    optional.push(formatViolationTable(violations, options.sourceUrl));
+  }
+  if (baseline && baseline.removable.length > 0) {
+    optional.push(formatRemovableBaselineEntries(baseline.removable));
+  }
+  if (options.allowances && options.allowances.length > 0) {
+    optional.push(formatAllowedCycles(options.allowances));
+  }
+  if (groupCycles.length > 0) {
+    optional.push(formatGroupCycleTable(groupCycles));
+  }
+  if (breakRecommendations && breakRecommendations.edges.length > 0) {
+    optional.push(formatBreakRecommendations(breakRecommendations));
+  }
+  const reportedIds = new Set(reported.map(cycle => cycle.id));
+  const fixes = (options.fixes || []).filter(fix => fix.cycles.some(id => reportedIds.has(id)));
+  if (fixes.length > 0) {
+    optional.push(formatFixes(fixes));
+  }
+  if (options.diagrams) {
+    optional.push(options.diagrams);
+  }
+  if (tangles.length > 0) {
+    optional.push(formatTangleTable(tangles));
+  }
+  return { required, optional };
+}
+
+function joinComment(sections: string[], footer: boolean): string {
+  return `${COMMENT_HEADER}${sections.join('\n\n')}${footer ? COMMENT_FOOTER : ''}`;
+}
+
+/**
+ * Formats circular dependency results as a GitHub PR comment. The whole comment shares one
+ * character budget: cycle tables are shortened first, then the least important sections are
+ * left out, and as a last resort the comment is cut off.
+ * @param cycles - Array of circular dependency cycles
+ * @param options - Optional comparison data and formatting settings
+ * @returns Markdown-formatted comment string, at most `maxLength` characters long
+ */
+export function formatPrComment(
+  cycles: CircularDependencyResult[],
+  options: PrCommentOptions = {}
+): string {
+  const maxLength = options.maxLength ?? MAX_COMMENT_LENGTH;
+  const clean = cycles.length === 0 && (options.groupCycles || []).length === 0 &&
+    (options.violations || []).length === 0 && !options.comparison && !options.baseline;
+
+  let sections = formatCommentSections(cycles, options, MAX_TABLE_LENGTH);
+  for (let tableLength = MAX_TABLE_LENGTH / 2; tableLength >= 1000; tableLength /= 2) {
+    if (joinComment([...sections.required, ...sections.optional], !clean).length <= maxLength) {
+      break;
+    }
+    sections = formatCommentSections(cycles, options, tableLength);
   }
 
-  comment += `\n\n---\n_Powered by [Supermodel](https://supermodeltools.com) graph analysis_`;
+  const { required, optional } = sections;
+  const comment = joinComment([...required, ...optional], !clean);
+  if (comment.length <= maxLength) {
+    return comment;
+  }
+  for (let kept = optional.length - 1; kept >= 0; kept--) {
+    const shortened = joinComment([...required, ...optional.slice(0, kept), OMITTED_NOTE], !clean);
+    if (shortened.length <= maxLength) {
+      return shortened;
+    }
+  }
+  return truncateComment(joinComment(required, false), `\n\n${OMITTED_NOTE}${clean ? '' : COMMENT_FOOTER}`, maxLength);
+}
 
-  return comment;
+/**
+ * Cuts a comment off at a line boundary so it fits the budget together with its ending,
+ * closing any code fence or `<details>` block the cut leaves open so the ending and any
+ * hidden markers around the comment still render as intended.
+ * @param body - Comment to cut
+ * @param ending - Text to append after the cut comment
+ * @param maxLength - Longest result, in characters
+ * @returns The cut comment followed by the ending
+ */
+function truncateComment(body: string, ending: string, maxLength: number): string {
+  let budget = maxLength - ending.length;
+  while (budget > 0) {
+    const newline = body.lastIndexOf('\n', budget);
+    const kept = body.slice(0, newline === -1 ? 0 : newline).trimEnd();
+    const fences = kept.split('\n').filter(line => line.trimStart().startsWith('```')).length;
+    const openDetails = kept.split('<details>').length - kept.split('</details>').length;
+    const closing = `${fences % 2 === 1 ? '\n```' : ''}${'\n\n</details>'.repeat(Math.max(0, openDetails))}`;
+    const truncated = `${kept}${closing}${ending}`;
+    if (truncated.length <= maxLength) {
+      return truncated;
+    }
+    budget -= truncated.length - maxLength;
+  }
+  return ending.slice(0, Math.max(0, maxLength));
 }
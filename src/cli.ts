@@ -0,0 +1,518 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { createFixPatch } from './autofix';
+import { DEFAULT_BASELINE_PATH } from './baseline';
+import {
+  CircularDependencyResult,
+  EDGE_KINDS,
+  formatPrComment,
+  parseEdgeKinds,
+  rankByInitOrder,
+  summarizeOwners,
+} from './circular-deps';
+import { ProjectConfig, loadConfig } from './config';
+import { renderCyclicSubgraphDot } from './diagrams';
+import { findRepositoryRoot, getGitPath, listStagedFiles, snapshotIndex, snapshotWorkingTree } from './git-tree';
+import { writeDiagnostics } from './graph-diagnostics';
+import { GraphFileFormat, parseGraphFileFormat, writeGraphFile } from './graph-file';
+import { GraphProviderName, Logger, parseGraphProviderName } from './graph-provider';
+import { GraphSchema, parseGraphSchemaName } from './graph-schema';
+import { parseGroupPatterns, parseGroupingMode } from './grouping';
+import { DependencyMetrics, computeMetrics, loadMetrics, mergeHistory, writeMetrics } from './metrics';
+import { AnalysisOptions, AnalysisResult, analyze, createProvider } from './pipeline';
+import { createSarifReport } from './sarif';
+
+/** No cycle or architecture rule violation fails the check. */
+export const EXIT_OK = 0;
+/** At least one cycle or architecture rule violation fails the check. */
+export const EXIT_CYCLES_FOUND = 1;
+/** The command line or a configuration file is invalid. */
+export const EXIT_USAGE = 2;
+/** The analysis itself failed, e.g. git or the Supermodel API returned an error. */
+export const EXIT_ERROR = 3;
+
+export const OUTPUT_FORMATS = ['text', 'json', 'markdown', 'sarif'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Where the CLI writes its report and its progress messages.
+ */
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+/**
+ * Parsed command line of the CLI.
+ */
+export interface CliOptions {
+  cwd: string;
+  /** Commit to analyze; the working copy when omitted. */
+  ref?: string;
+  staged: boolean;
+  /** Config file; the repository's .circular-deps.yml or .json when omitted. */
+  config?: string;
+  graphProvider: GraphProviderName;
+  apiKey: string;
+  /** Overall time budget of one Supermodel graph request. */
+  apiTimeoutMs: number;
+  /** Largest archive to upload to Supermodel; no limit when zero. */
+  maxArchiveBytes: number;
+  /** Graph file to analyze instead of building a graph. */
+  graphFile?: string;
+  /** Format of the graph file; detected from its contents when omitted. */
+  graphFormat?: GraphFileFormat;
+  /** Where to save the analyzed graph. */
+  saveGraphFile?: string;
+  /** Graph schema; the config file's or `auto` when omitted. */
+  schema?: GraphSchema;
+  /** Where to write the graph diagnostics report. */
+  diagnosticsFile?: string;
+  compareTo?: string;
+  baselineFile: string;
+  updateBaseline: boolean;
+  ignorePatterns: string[];
+  failingKinds: AnalysisOptions['failingKinds'];
+  detection: NonNullable<AnalysisOptions['detection']>;
+  grouping?: AnalysisOptions['grouping'];
+  graphvizFile?: string;
+  /** Metrics file; the history of an existing file is kept. */
+  metricsFile?: string;
+  /** Where to write the mechanical fixes of the cycles as a patch. */
+  fixPatchFile?: string;
+  /** CODEOWNERS file; the one GitHub would use when omitted. */
+  codeownersFile?: string;
+  /** Cache directory; inside the git directory when omitted. */
+  cacheDirectory?: string;
+  cache: boolean;
+  format: OutputFormat;
+  output?: string;
+  failOnCycles: boolean;
+  debug: boolean;
+  help: boolean;
+}
+
+const USAGE = `Usage: circular-dependency-hunter [options]
+
+Finds circular dependencies in the git repository containing the current directory.
+Analyzes the working copy, including uncommitted changes, unless --ref or --staged is given.
+
+Options:
+  --cwd <dir>                  Directory inside the repository (default: current directory)
+  --ref <ref>                  Analyze a commit, branch or tag instead of the working copy
+  --staged                     Analyze the staged changes and only report cycles through staged files
+  --config <path>              Config file (default: .circular-deps.yml or .json in the repository root)
+  --graph-provider <name>      supermodel or local (default: supermodel when an API key is set, else local)
+  --api-key <key>              Supermodel API key (default: $SUPERMODEL_API_KEY)
+  --api-timeout <seconds>      Give up on a Supermodel graph after this long (default: 900)
+  --max-archive-size <mb>      Refuse to upload larger archives, 0 for no limit (default: 100)
+  --graph-file <path>          Analyze a saved Supermodel, madge, dependency-cruiser, LSIF or SCIP graph
+  --graph-format <name>        Format of the graph file (default: detected from its contents)
+  --save-graph-file <path>     Save the analyzed graph for a later --graph-file run
+  --graph-schema <name>        Map the graph with the auto, dependency or parse profile
+  --diagnostics-file <path>    Write a JSON report of unmapped relationship types and unresolved nodes
+  --compare-to <ref>           Only report cycles introduced since this commit
+  --baseline-file <path>       Baseline of accepted cycles (default: ${DEFAULT_BASELINE_PATH})
+  --update-baseline            Rewrite the baseline from the current cycles
+  --ignore <glob>              Ignore matching files; repeatable
+  --failing-cycle-kinds <list> Comma-separated kinds that fail: ${EDGE_KINDS.join(', ')}
+  --enumerate-all-cycles       Report every elementary cycle
+  --max-cycle-length <n>       Longest cycle to report, 0 for no limit (default: 0)
+  --max-cycles <n>             Stop after this many cycles, 0 for no limit (default: 1000)
+  --group-by <mode>            Also report cycles between package, directory or glob groups
+  --group-depth <n>            Directory segments naming a group (default: 1)
+  --groups <json>              JSON object mapping glob patterns to group names
+  --graphviz-file <path>       Write a Graphviz DOT file of every tangle
+  --metrics-file <path>        Write cycle and tangle metrics, appending to the history of an existing file
+  --fix-patch-file <path>      Write a patch of import edits that remove dependencies of the cycles
+  --codeowners <path>          CODEOWNERS file (default: .github/CODEOWNERS, CODEOWNERS or docs/CODEOWNERS)
+  --cache-dir <dir>            Keep graphs between runs here (default: .git/circular-dependency-hunter)
+  --no-cache                   Build every graph from scratch and keep nothing
+  --format <format>            ${OUTPUT_FORMATS.join(', ')} (default: text)
+  --output <path>              Write the report to a file instead of stdout
+  --no-fail                    Exit with 0 even when cycles fail the check
+  --debug                      Log the full graph diagnostics report
+  -h, --help                   Show this help
+
+Exit codes:
+  ${EXIT_OK}  no failing cycles or rule violations
+  ${EXIT_CYCLES_FOUND}  failing cycles or rule violations found
+  ${EXIT_USAGE}  invalid arguments or configuration
+  ${EXIT_ERROR}  analysis failed
+`;
+
+function parseCount(flag: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${flag} must be a non-negative integer, got "${value}"`);
+  }
+  return count;
+}
+
+/**
+ * Parses the CLI's command line.
+ * @param argv - Arguments after the executable and script
+ * @param env - Environment, for the API key
+ * @returns Parsed options
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    allowPositionals: false,
+    options: {
+      'cwd': { type: 'string' },
+      'ref': { type: 'string' },
+      'staged': { type: 'boolean' },
+      'config': { type: 'string' },
+      'graph-provider': { type: 'string' },
+      'api-key': { type: 'string' },
+      'api-timeout': { type: 'string' },
+      'max-archive-size': { type: 'string' },
+      'graph-file': { type: 'string' },
+      'graph-format': { type: 'string' },
+      'save-graph-file': { type: 'string' },
+      'graph-schema': { type: 'string' },
+      'diagnostics-file': { type: 'string' },
+      'compare-to': { type: 'string' },
+      'baseline-file': { type: 'string' },
+      'update-baseline': { type: 'boolean' },
+      'ignore': { type: 'string', multiple: true },
+      'failing-cycle-kinds': { type: 'string' },
+      'enumerate-all-cycles': { type: 'boolean' },
+      'max-cycle-length': { type: 'string' },
+      'max-cycles': { type: 'string' },
+      'group-by': { type: 'string' },
+      'group-depth': { type: 'string' },
+      'groups': { type: 'string' },
+      'graphviz-file': { type: 'string' },
+      'metrics-file': { type: 'string' },
+      'fix-patch-file': { type: 'string' },
+      'codeowners': { type: 'string' },
+      'cache-dir': { type: 'string' },
+      'no-cache': { type: 'boolean' },
+      'format': { type: 'string' },
+      'output': { type: 'string' },
+      'no-fail': { type: 'boolean' },
+      'debug': { type: 'boolean' },
+      'help': { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const string = (name: keyof typeof values) => values[name] as string | undefined;
+  const flag = (name: keyof typeof values) => values[name] === true;
+
+  const format = (string('format') || 'text').toLowerCase();
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown format "${string('format')}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (flag('staged') && string('ref')) {
+    throw new Error('--staged and --ref cannot be combined');
+  }
+  if (string('graph-file') && string('compare-to')) {
+    throw new Error('--graph-file and --compare-to cannot be combined');
+  }
+  if (flag('no-cache') && string('cache-dir')) {
+    throw new Error('--cache-dir and --no-cache cannot be combined');
+  }
+
+  const apiKey = (string('api-key') ?? env.SUPERMODEL_API_KEY ?? '').trim();
+  const groupingMode = parseGroupingMode(string('group-by') || '');
+  return {
+    cwd: path.resolve(string('cwd') || '.'),
+    ref: string('ref'),
+    staged: flag('staged'),
+    config: string('config'),
+    graphProvider: parseGraphProviderName(string('graph-provider') || (apiKey ? 'supermodel' : 'local')),
+    apiKey,
+    apiTimeoutMs: parseCount('--api-timeout', string('api-timeout'), 900) * 1000,
+    maxArchiveBytes: parseCount('--max-archive-size', string('max-archive-size'), 100) * 1024 * 1024,
+    graphFile: string('graph-file'),
+    graphFormat: parseGraphFileFormat(string('graph-format') || ''),
+    saveGraphFile: string('save-graph-file'),
+    schema: string('graph-schema') ? parseGraphSchemaName(string('graph-schema')!) : undefined,
+    diagnosticsFile: string('diagnostics-file'),
+    compareTo: string('compare-to'),
+    baselineFile: string('baseline-file') || DEFAULT_BASELINE_PATH,
+    updateBaseline: flag('update-baseline'),
+    ignorePatterns: (values.ignore as string[] | undefined) || [],
+    failingKinds: string('failing-cycle-kinds')
+      ? parseEdgeKinds(string('failing-cycle-kinds')!.split(',').map(kind => kind.trim()).filter(Boolean))
+      : EDGE_KINDS,
+    detection: {
+      enumerateAllCycles: flag('enumerate-all-cycles'),
+      maxCycleLength: parseCount('--max-cycle-length', string('max-cycle-length'), 0),
+      maxCycles: parseCount('--max-cycles', string('max-cycles'), 1000),
+    },
+    grouping: groupingMode && {
+      mode: groupingMode,
+      depth: parseCount('--group-depth', string('group-depth'), 1),
+      patterns: parseGroupPatterns(string('groups') || '{}'),
+    },
+    graphvizFile: string('graphviz-file'),
+    metricsFile: string('metrics-file'),
+    fixPatchFile: string('fix-patch-file'),
+    codeownersFile: string('codeowners'),
+    cacheDirectory: string('cache-dir'),
+    cache: !flag('no-cache'),
+    format: format as OutputFormat,
+    output: string('output'),
+    failOnCycles: !flag('no-fail'),
+    debug: flag('debug'),
+    help: flag('help'),
+  };
+}
+
+function formatHops(cycle: CircularDependencyResult): string {
+  const hops = cycle.cycle.map((file, index) => {
+    const line = cycle.edges?.[index]?.imports.find(site => site.line !== undefined)?.line;
+    return line !== undefined ? `${file}:${line}` : file;
+  });
+  return hops.concat(cycle.cycle[0]).join(' -> ');
+}
+
+/**
+ * Formats analysis results for a terminal.
+ * @param result - Analysis results
+ * @returns Plain-text report
+ */
+export function formatTextReport(result: AnalysisResult): string {
+  const { cycles, reportedCycles, failingCycles, breakRecommendations, reportedViolations } = result;
+  const failing = new Set(failingCycles.map(cycle => cycle.id));
+
+  const lines = reportedViolations.map(violation => {
+    const { from, to, imports } = violation.edge;
+    const line = imports.find(site => site.line !== undefined)?.line;
+    const reason = violation.reason ? ` (${violation.reason})` : '';
+    return `error    ${line !== undefined ? `${from}:${line}` : from} -> ${to}  breaks ${violation.rule}${reason}`;
+  });
+  if (reportedViolations.length > 0) {
+    const count = reportedViolations.length;
+    lines.push('', `${count} architecture rule violation${count === 1 ? '' : 's'}.`, '');
+  }
+
+  if (reportedCycles.length === 0) {
+    lines.push(cycles.length === 0
+      ? 'No circular dependencies found.'
+      : `No circular dependencies to report (${cycles.length} known, allowed, unchanged or outside the checked files).`);
+    return `${lines.join('\n')}\n`;
+  }
+
+  for (const cycle of rankByInitOrder(reportedCycles)) {
+    const level = failing.has(cycle.id) ? 'error  ' : 'warning';
+    const labels = [
+      cycle.kind,
+      cycle.initOrder === 'hazardous' ? 'hazardous' : undefined,
+      cycle.crossTeam ? 'cross-team' : undefined,
+    ].filter(Boolean);
+    lines.push(`${level}  ${formatHops(cycle)}${labels.length > 0 ? `  [${labels.join(', ')}]` : ''}`);
+    for (const hazard of cycle.hazards || []) {
+      lines.push(`           ${hazard.from}:${hazard.line} uses ${hazard.binding} from ${hazard.to} (${hazard.usage})`);
+    }
+    if (cycle.owners && cycle.owners.length > 0) {
+      lines.push(`           owned by ${cycle.owners.join(', ')}`);
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    `${reportedCycles.length} circular dependenc${reportedCycles.length === 1 ? 'y' : 'ies'} reported ` +
+    `(${failingCycles.length} failing), ${cycles.length} found in total.`
+  );
+  const [first] = breakRecommendations.edges;
+  if (first) {
+    lines.push(
+      `Start by removing ${first.from} -> ${first.to} ` +
+      `(appears in ${first.cycleCount} of ${breakRecommendations.totalCycles} cycles).`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders analysis results in the requested format.
+ * @param result - Analysis results
+ * @param format - Output format
+ * @returns The report
+ */
+export function formatReport(result: AnalysisResult, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify({
+        cycles: result.cycles,
+        reported: result.reportedCycles.map(cycle => cycle.id),
+        failing: result.failingCycles.map(cycle => cycle.id),
+        breakRecommendations: result.breakRecommendations,
+        fixes: result.fixes,
+        owners: result.codeownersFile ? summarizeOwners(result.cycles) : undefined,
+        tangles: result.tangles,
+        groupCycles: result.groupCycles,
+        allowances: result.allowances,
+        violations: result.violations,
+        reportedViolations: result.reportedViolations.map(violation => violation.id),
+        comparison: result.comparison,
+        baseline: result.baseline,
+      }, null, 2)}\n`;
+    case 'markdown':
+      return `${formatPrComment(result.cycles, {
+        comparison: result.comparison,
+        baseline: result.baseline,
+        tangles: result.tangles,
+        groupCycles: result.groupCycles,
+        breakRecommendations: result.breakRecommendations,
+        allowances: result.allowances,
+        violations: result.reportedViolations,
+        fixes: result.fixes,
+      })}\n`;
+    case 'sarif':
+      return `${JSON.stringify(createSarifReport(result.reportedCycles, {
+        violations: result.reportedViolations,
+      }), null, 2)}\n`;
+    default:
+      return formatTextReport(result);
+  }
+}
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Runs the CLI.
+ * @param argv - Arguments after the executable and script
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export async function main(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error: any) {
+    io.stderr(`${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (options.help) {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+
+  // Progress goes to stderr so the report on stdout stays machine-readable.
+  const logger: Logger = {
+    info: message => io.stderr(`${message}\n`),
+    warning: message => io.stderr(`warning: ${message}\n`),
+  };
+
+  try {
+    const workspacePath = await findRepositoryRoot(options.cwd);
+    let config: ProjectConfig | undefined;
+    try {
+      config = (await loadConfig(workspacePath, options.config && path.resolve(options.cwd, options.config)))?.config;
+    } catch (error: any) {
+      io.stderr(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+      return EXIT_USAGE;
+    }
+    const ref = options.staged
+      ? await snapshotIndex(workspacePath)
+      : options.ref ?? await snapshotWorkingTree(workspacePath);
+    let cacheDirectory: string | undefined;
+    if (options.cacheDirectory) {
+      cacheDirectory = path.resolve(options.cwd, options.cacheDirectory);
+    } else if (options.cache) {
+      cacheDirectory = await getGitPath(workspacePath, 'circular-dependency-hunter');
+    }
+
+    const result = await analyze({
+      workspacePath,
+      provider: createProvider(options.graphProvider, options.apiKey, logger, {
+        cacheDirectory,
+        apiTimeoutMs: options.apiTimeoutMs,
+        maxArchiveBytes: options.maxArchiveBytes,
+        graphFile: options.graphFile && path.resolve(options.cwd, options.graphFile),
+        graphFormat: options.graphFormat,
+      }),
+      ref,
+      baseRef: options.compareTo,
+      baselineFile: options.baselineFile,
+      updateBaseline: options.updateBaseline,
+      ignorePatterns: options.ignorePatterns,
+      failingKinds: options.failingKinds,
+      detection: options.detection,
+      grouping: options.grouping,
+      config,
+      focusFiles: options.staged ? await listStagedFiles(workspacePath) : undefined,
+      cacheDirectory,
+      schema: options.schema,
+      findFixes: !!options.fixPatchFile,
+      codeownersFile: options.codeownersFile &&
+        path.relative(workspacePath, path.resolve(options.cwd, options.codeownersFile)).split(path.sep).join('/'),
+      debug: options.debug,
+      logger,
+    });
+
+    if (options.diagnosticsFile) {
+      await writeDiagnostics(path.resolve(options.cwd, options.diagnosticsFile), result.diagnostics);
+    }
+
+    if (options.saveGraphFile) {
+      await writeGraphFile(path.resolve(options.cwd, options.saveGraphFile), result.codeGraph);
+    }
+
+    if (options.graphvizFile) {
+      await fs.writeFile(
+        path.resolve(options.cwd, options.graphvizFile),
+        renderCyclicSubgraphDot(result.graph, result.tangles, result.breakRecommendations.edges),
+        'utf8'
+      );
+    }
+
+    if (options.fixPatchFile) {
+      await fs.writeFile(
+        path.resolve(options.cwd, options.fixPatchFile),
+        await createFixPatch(workspacePath, ref, result.fixes),
+        'utf8'
+      );
+      logger.info(`Wrote ${result.fixes.length} fix(es) to ${options.fixPatchFile}`);
+    }
+
+    if (options.metricsFile) {
+      const metricsPath = path.resolve(options.cwd, options.metricsFile);
+      const metrics = computeMetrics(result.graph, result.cycles, result.tangles);
+      let previous: DependencyMetrics | undefined;
+      try {
+        previous = await loadMetrics(metricsPath);
+      } catch (error: any) {
+        logger.warning(`Starting a new metrics history, could not read ${options.metricsFile}: ${error.message}`);
+      }
+      await writeMetrics(metricsPath, mergeHistory(metrics, previous));
+    }
+
+    const report = formatReport(result, options.format);
+    if (options.output) {
+      await fs.writeFile(path.resolve(options.cwd, options.output), report, 'utf8');
+    } else {
+      io.stdout(report);
+    }
+
+    const failures = result.failingCycles.length + result.reportedViolations.length;
+    return failures > 0 && options.failOnCycles && !options.updateBaseline
+      ? EXIT_CYCLES_FOUND
+      : EXIT_OK;
+  } catch (error: any) {
+    io.stderr(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_ERROR;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
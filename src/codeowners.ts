@@ -0,0 +1,182 @@
+import * as github from '@actions/github';
+import { minimatch } from 'minimatch';
+import { CircularDependencyResult } from './circular-deps';
+import { readTreeFiles } from './git-tree';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Where GitHub looks for a CODEOWNERS file, in order of precedence. */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+/**
+ * One line of a CODEOWNERS file.
+ */
+export interface CodeownersRule {
+  pattern: string;
+  /** Owners as written, e.g. `@org/team`, `@user` or an email address; empty when the line unassigns the files. */
+  owners: string[];
+  /** 1-based line in the CODEOWNERS file. */
+  line: number;
+}
+
+/**
+ * Users and teams to request a pull request review from.
+ */
+export interface ReviewRequest {
+  reviewers: string[];
+  /** Team slugs within the repository's organization. */
+  teamReviewers: string[];
+}
+
+/**
+ * The pull request whose review is requested.
+ */
+export interface ReviewRequestTarget {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** Login of the pull request author, who cannot review their own pull request. */
+  author?: string;
+}
+
+/**
+ * Parses a CODEOWNERS file. Comments, blank lines and trailing comments are skipped.
+ * @param content - File contents
+ * @returns Rules in file order
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    const tokens = text.trim().split(/\s+/);
+    const comment = tokens.findIndex(token => token.startsWith('#'));
+    const [pattern, ...owners] = comment === -1 ? tokens : tokens.slice(0, comment);
+    if (pattern) {
+      rules.push({ pattern: pattern.replace(/\\#/g, '#'), owners, line: index + 1 });
+    }
+  });
+  return rules;
+}
+
+/**
+ * Translates a CODEOWNERS pattern, which follows gitignore rules, into a glob over
+ * repository paths. Patterns with a leading or inner slash are anchored to the root; other
+ * patterns match at any depth. A pattern naming a directory covers everything below it,
+ * except `dir/*`, which only covers the files directly inside.
+ */
+function toGlob(pattern: string): string {
+  const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  let glob = pattern.replace(/^\/+/, '');
+  if (glob.endsWith('/')) {
+    glob += '**';
+  } else if (!glob.endsWith('/*')) {
+    glob += '{,/**}';
+  }
+  return anchored ? glob : `**/${glob}`;
+}
+
+/**
+ * Creates a lookup of the owners of a file. As on GitHub, the last matching rule wins.
+ * @param rules - Rules from parseCodeowners
+ * @returns Function returning the owners of a repository path, empty when it has none
+ */
+export function createOwnerMatcher(rules: CodeownersRule[]): (filePath: string) => string[] {
+  const globs = rules.map(rule => ({ glob: toGlob(rule.pattern), owners: rule.owners })).reverse();
+  const cache = new Map<string, string[]>();
+  return filePath => {
+    if (!cache.has(filePath)) {
+      cache.set(filePath, globs.find(({ glob }) => minimatch(filePath, glob, { dot: true }))?.owners ?? []);
+    }
+    return cache.get(filePath)!;
+  };
+}
+
+/**
+ * Attributes cycles to the owners of their files. A cycle is cross-team when no single
+ * owner owns every owned file of it; files without owners are left out of that test.
+ * @param cycles - Detected cycles
+ * @param ownersOf - Owner lookup from createOwnerMatcher
+ * @returns Copies of the cycles with `owners` and `crossTeam` set
+ */
+export function annotateOwners(
+  cycles: CircularDependencyResult[],
+  ownersOf: (filePath: string) => string[]
+): CircularDependencyResult[] {
+  return cycles.map(cycle => {
+    const fileOwners = cycle.cycle.map(ownersOf).filter(owners => owners.length > 0);
+    const owners = Array.from(new Set(fileOwners.flat()));
+    const crossTeam = fileOwners.length > 0 && !owners.some(owner => fileOwners.every(list => list.includes(owner)));
+    return { ...cycle, owners, crossTeam };
+  });
+}
+
+/**
+ * Reads the CODEOWNERS file of a git tree.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree to read
+ * @param file - CODEOWNERS file relative to the repository root; the first of CODEOWNERS_PATHS when omitted
+ * @returns The file and its rules, or undefined when no file was given and none exists
+ */
+export async function loadCodeowners(
+  workspacePath: string,
+  ref: string,
+  file?: string
+): Promise<{ file: string; rules: CodeownersRule[] } | undefined> {
+  const candidates = file ? [file] : CODEOWNERS_PATHS;
+  const contents = await readTreeFiles(workspacePath, ref, candidates);
+  const found = candidates.find(candidate => contents.has(candidate));
+  if (!found) {
+    if (file) {
+      throw new Error(`CODEOWNERS file ${file} does not exist`);
+    }
+    return undefined;
+  }
+  return { file: found, rules: parseCodeowners(contents.get(found)!) };
+}
+
+/**
+ * Splits owners into the users and teams a review can be requested from. Teams of other
+ * organizations, email owners and the pull request author are left out.
+ * @param owners - Owners as written in CODEOWNERS
+ * @param organization - Owner of the repository
+ * @param author - Login of the pull request author
+ * @returns Users and team slugs
+ */
+export function getReviewRequest(owners: string[], organization: string, author?: string): ReviewRequest {
+  const request: ReviewRequest = { reviewers: [], teamReviewers: [] };
+  for (const owner of new Set(owners)) {
+    const team = /^@([^/\s]+)\/(\S+)$/.exec(owner);
+    if (team) {
+      if (team[1].toLowerCase() === organization.toLowerCase()) {
+        request.teamReviewers.push(team[2]);
+      }
+    } else if (/^@[^/\s]+$/.test(owner) && owner.slice(1).toLowerCase() !== author?.toLowerCase()) {
+      request.reviewers.push(owner.slice(1));
+    }
+  }
+  return request;
+}
+
+/**
+ * Requests a review of the pull request from the owners.
+ * @param octokit - Authenticated GitHub client
+ * @param target - Pull request and its author
+ * @param owners - Owners of the cycles the pull request introduces
+ * @returns The users and teams asked to review; nothing is requested when both are empty
+ */
+export async function requestOwnerReviews(
+  octokit: Octokit,
+  target: ReviewRequestTarget,
+  owners: string[]
+): Promise<ReviewRequest> {
+  const request = getReviewRequest(owners, target.owner, target.author);
+  if (request.reviewers.length > 0 || request.teamReviewers.length > 0) {
+    await octokit.rest.pulls.requestReviewers({
+      owner: target.owner,
+      repo: target.repo,
+      pull_number: target.pullNumber,
+      reviewers: request.reviewers,
+      team_reviewers: request.teamReviewers,
+    });
+  }
+  return request;
+}
@@ -0,0 +1,509 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { parse as parseYaml } from 'yaml';
+import { CircularDependencyResult, CycleAllowance, FileFilter, getCycleId } from './circular-deps';
+import { GRAPH_SCHEMAS, GRAPH_SCHEMA_NAMES, GraphSchema, GraphSchemaName } from './graph-schema';
+
+/** Config files looked up in the repository root, in order. */
+export const CONFIG_FILE_NAMES = ['.circular-deps.yml', '.circular-deps.yaml', '.circular-deps.json'];
+
+export const SEVERITIES = ['error', 'warn', 'ignore'] as const;
+
+/**
+ * How cycles through a path are treated: `error` fails the build, `warn` reports without
+ * failing and `ignore` accepts the cycle.
+ */
+export type Severity = typeof SEVERITIES[number];
+
+/**
+ * Severity of the files matching a glob. A plain path such as `legacy` covers the
+ * file or everything below the directory.
+ */
+export interface SeverityRule {
+  pattern: string;
+  severity: Severity;
+}
+
+/**
+ * An architectural layer. Layers are listed from the top down: a layer may depend on the
+ * layers listed after it, never on those listed before it.
+ */
+export interface LayerRule {
+  name: string;
+  /** Globs or plain paths of the files in the layer. */
+  paths: string[];
+}
+
+/**
+ * Files matching `from` must not import files matching `to`.
+ */
+export interface ForbiddenRule {
+  from: string[];
+  to: string[];
+  /** Why the dependency is forbidden, shown with each violation. */
+  reason?: string;
+}
+
+/**
+ * A cycle accepted on purpose.
+ */
+export interface AllowedCycle {
+  /** Files along the cycle, each importing the next. */
+  files: string[];
+  justification: string;
+  /** Date (YYYY-MM-DD) after which the cycle is reported again. */
+  expires?: string;
+}
+
+/**
+ * Project settings read from `.circular-deps.yml` or `.circular-deps.json`.
+ */
+export interface ProjectConfig {
+  /** When non-empty, only matching files are analyzed, even those the default excludes cover. */
+  include: string[];
+  /** Globs of files to leave out, added to the ignore-patterns input. */
+  exclude: string[];
+  /** Apply the built-in excludes (node_modules, dist, build, tests...). */
+  defaultExcludes: boolean;
+  /** Severity per directory or glob; the last matching rule wins. */
+  severity: SeverityRule[];
+  /** Longest cycle (in files) to report. */
+  maxCycleLength?: number;
+  allowedCycles: AllowedCycle[];
+  /** Architectural layers, from the top down. */
+  layers: LayerRule[];
+  forbidden: ForbiddenRule[];
+  /** How the code graph maps to files and dependencies: a built-in profile, possibly adjusted. */
+  graphSchema?: GraphSchema;
+}
+
+/**
+ * Cycles the configuration accepts and allowances that no longer apply.
+ */
+export interface AllowedCycleMatch {
+  allowances: CycleAllowance[];
+  /** Allowed cycles past their expiry date, which are reported again. */
+  expired: AllowedCycle[];
+}
+
+const CONFIG_KEYS = [
+  'include',
+  'exclude',
+  'defaultExcludes',
+  'severity',
+  'maxCycleLength',
+  'allowedCycles',
+  'layers',
+  'forbidden',
+  'graphSchema',
+];
+const ALLOWED_CYCLE_KEYS = ['cycle', 'justification', 'expires'];
+const LAYER_KEYS = ['name', 'paths'];
+const FORBIDDEN_KEYS = ['from', 'to', 'reason'];
+const GRAPH_SCHEMA_KEYS = ['extends', 'fileLabels', 'dependencyTypes', 'pathProperties'];
+const SEVERITY_RANK: Record<Severity, number> = { ignore: 0, warn: 1, error: 2 };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function readGlobList(value: unknown, key: string, errors: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim() !== '')) {
+    errors.push(`${key}: expected a list of glob patterns`);
+    return [];
+  }
+  return value.map(item => item.trim());
+}
+
+function readPathList(value: unknown, key: string, errors: string[]): string[] | undefined {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return [value.trim()];
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim() !== '')) {
+    return value.map(item => item.trim());
+  }
+  errors.push(`${key}: expected a glob or a non-empty list of globs`);
+  return undefined;
+}
+
+function checkKeys(entry: Record<string, unknown>, key: string, allowed: string[], errors: string[]): void {
+  for (const unknown of Object.keys(entry).filter(name => !allowed.includes(name))) {
+    errors.push(`${key}.${unknown}: unknown key (expected ${allowed.join(', ')})`);
+  }
+}
+
+function readSeverityRules(value: unknown, errors: string[]): SeverityRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isRecord(value)) {
+    errors.push('severity: expected a map of directory or glob to error, warn or ignore');
+    return [];
+  }
+  const rules: SeverityRule[] = [];
+  for (const [pattern, severity] of Object.entries(value)) {
+    if (typeof severity !== 'string' || !(SEVERITIES as readonly string[]).includes(severity)) {
+      errors.push(`severity.${pattern}: expected one of ${SEVERITIES.join(', ')}, got ${JSON.stringify(severity)}`);
+      continue;
+    }
+    rules.push({ pattern, severity: severity as Severity });
+  }
+  return rules;
+}
+
+function readCycleFiles(value: unknown, key: string, errors: string[]): string[] | undefined {
+  const files = typeof value === 'string'
+    ? value.split('->').map(file => file.trim())
+    : Array.isArray(value) && value.every(file => typeof file === 'string')
+      ? value.map(file => file.trim())
+      : undefined;
+  if (!files) {
+    errors.push(`${key}: expected a list of files or a string such as "src/a.ts -> src/b.ts"`);
+    return undefined;
+  }
+  const distinct = files.length > 1 && files[0] === files[files.length - 1] ? files.slice(0, -1) : files;
+  if (distinct.length < 2 || distinct.some(file => file === '')) {
+    errors.push(`${key}: a cycle needs at least two files`);
+    return undefined;
+  }
+  return distinct;
+}
+
+function readAllowedCycles(value: unknown, errors: string[]): AllowedCycle[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push('allowedCycles: expected a list');
+    return [];
+  }
+  const allowed: AllowedCycle[] = [];
+  value.forEach((entry, index) => {
+    const key = `allowedCycles[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${key}: expected an object with cycle and justification`);
+      return;
+    }
+    checkKeys(entry, key, ALLOWED_CYCLE_KEYS, errors);
+    const files = readCycleFiles(entry.cycle, `${key}.cycle`, errors);
+    const { justification, expires } = entry;
+    if (typeof justification !== 'string' || justification.trim() === '') {
+      errors.push(`${key}.justification: is required and must explain why the cycle is acceptable`);
+    }
+    if (expires !== undefined && (typeof expires !== 'string' || !isValidDate(expires))) {
+      errors.push(`${key}.expires: expected a date such as 2025-12-31, got ${JSON.stringify(expires)}`);
+    }
+    if (files && typeof justification === 'string' && justification.trim() !== '') {
+      allowed.push({
+        files,
+        justification: justification.trim(),
+        ...(typeof expires === 'string' && isValidDate(expires) ? { expires } : {}),
+      });
+    }
+  });
+  return allowed;
+}
+
+function readLayers(value: unknown, errors: string[]): LayerRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push('layers: expected a list of layers, from the top down');
+    return [];
+  }
+  const layers: LayerRule[] = [];
+  const names = new Set<string>();
+  value.forEach((entry, index) => {
+    const key = `layers[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${key}: expected an object with name and paths`);
+      return;
+    }
+    checkKeys(entry, key, LAYER_KEYS, errors);
+    const { name } = entry;
+    if (typeof name !== 'string' || name.trim() === '') {
+      errors.push(`${key}.name: is required`);
+    } else if (names.has(name.trim())) {
+      errors.push(`${key}.name: duplicate layer "${name.trim()}"`);
+    }
+    const paths = readPathList(entry.paths, `${key}.paths`, errors);
+    if (typeof name === 'string' && name.trim() !== '' && !names.has(name.trim()) && paths) {
+      names.add(name.trim());
+      layers.push({ name: name.trim(), paths });
+    }
+  });
+  return layers;
+}
+
+function readForbiddenRules(value: unknown, errors: string[]): ForbiddenRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push('forbidden: expected a list of rules with from and to');
+    return [];
+  }
+  const rules: ForbiddenRule[] = [];
+  value.forEach((entry, index) => {
+    const key = `forbidden[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${key}: expected an object with from and to`);
+      return;
+    }
+    checkKeys(entry, key, FORBIDDEN_KEYS, errors);
+    const from = readPathList(entry.from, `${key}.from`, errors);
+    const to = readPathList(entry.to, `${key}.to`, errors);
+    const { reason } = entry;
+    if (reason !== undefined && typeof reason !== 'string') {
+      errors.push(`${key}.reason: expected a string`);
+    }
+    if (from && to) {
+      rules.push({ from, to, ...(typeof reason === 'string' && reason.trim() !== '' ? { reason: reason.trim() } : {}) });
+    }
+  });
+  return rules;
+}
+
+function readNameList(value: unknown, key: string, errors: string[]): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0 || !value.every(item => typeof item === 'string' && item.trim() !== '')) {
+    errors.push(`${key}: expected a non-empty list of names`);
+    return undefined;
+  }
+  return value.map(item => item.trim());
+}
+
+function readGraphSchema(value: unknown, errors: string[]): GraphSchema | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const isProfile = (name: unknown): name is GraphSchemaName =>
+    typeof name === 'string' && (GRAPH_SCHEMA_NAMES as readonly string[]).includes(name);
+  if (typeof value === 'string') {
+    if (!isProfile(value)) {
+      errors.push(`graphSchema: expected one of ${GRAPH_SCHEMA_NAMES.join(', ')} or a mapping, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return GRAPH_SCHEMAS[value];
+  }
+  if (!isRecord(value)) {
+    errors.push('graphSchema: expected a profile name or an object with fileLabels, dependencyTypes and pathProperties');
+    return undefined;
+  }
+  checkKeys(value, 'graphSchema', GRAPH_SCHEMA_KEYS, errors);
+  if (value.extends !== undefined && !isProfile(value.extends)) {
+    errors.push(`graphSchema.extends: expected one of ${GRAPH_SCHEMA_NAMES.join(', ')}, got ${JSON.stringify(value.extends)}`);
+    return undefined;
+  }
+  const base = GRAPH_SCHEMAS[isProfile(value.extends) ? value.extends : 'auto'];
+  const fileLabels = readNameList(value.fileLabels, 'graphSchema.fileLabels', errors);
+  const dependencyTypes = readNameList(value.dependencyTypes, 'graphSchema.dependencyTypes', errors);
+  const pathProperties = readNameList(value.pathProperties, 'graphSchema.pathProperties', errors);
+  return {
+    name: value.extends === undefined ? 'custom' : `custom (${base.name})`,
+    fileLabels: fileLabels ?? base.fileLabels,
+    dependencyTypes: dependencyTypes ?? base.dependencyTypes,
+    pathProperties: pathProperties ?? base.pathProperties,
+  };
+}
+
+/**
+ * Parses and validates the contents of a config file.
+ * @param content - Raw YAML or JSON content
+ * @param fileName - Name of the file, used to pick the parser and in error messages
+ * @returns The validated configuration, with defaults filled in
+ */
+export function parseConfig(content: string, fileName: string): ProjectConfig {
+  let parsed: unknown;
+  try {
+    parsed = fileName.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    parsed = {};
+  }
+  if (!isRecord(parsed)) {
+    throw new Error(`Invalid config file ${fileName}: expected an object at the top level`);
+  }
+
+  const errors: string[] = [];
+  for (const unknown of Object.keys(parsed).filter(key => !CONFIG_KEYS.includes(key))) {
+    errors.push(`${unknown}: unknown key (expected ${CONFIG_KEYS.join(', ')})`);
+  }
+  const include = readGlobList(parsed.include, 'include', errors);
+  const exclude = readGlobList(parsed.exclude, 'exclude', errors);
+  if (parsed.defaultExcludes !== undefined && typeof parsed.defaultExcludes !== 'boolean') {
+    errors.push('defaultExcludes: expected true or false');
+  }
+  const { maxCycleLength } = parsed;
+  if (maxCycleLength !== undefined && (!Number.isInteger(maxCycleLength) || (maxCycleLength as number) < 2)) {
+    errors.push(`maxCycleLength: expected an integer of at least 2, got ${JSON.stringify(maxCycleLength)}`);
+  }
+  const severity = readSeverityRules(parsed.severity, errors);
+  const allowedCycles = readAllowedCycles(parsed.allowedCycles, errors);
+  const layers = readLayers(parsed.layers, errors);
+  const forbidden = readForbiddenRules(parsed.forbidden, errors);
+  const graphSchema = readGraphSchema(parsed.graphSchema, errors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${fileName}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return {
+    include,
+    exclude,
+    defaultExcludes: parsed.defaultExcludes !== false,
+    severity,
+    ...(typeof maxCycleLength === 'number' ? { maxCycleLength } : {}),
+    allowedCycles,
+    layers,
+    forbidden,
+    ...(graphSchema ? { graphSchema } : {}),
+  };
+}
+
+/**
+ * Loads the project configuration.
+ * @param workspacePath - Repository root
+ * @param configFile - Config file relative to the root; when omitted, the first of
+ *   CONFIG_FILE_NAMES that exists is used
+ * @returns The configuration and its path, or undefined if there is no config file
+ */
+export async function loadConfig(
+  workspacePath: string,
+  configFile?: string
+): Promise<{ config: ProjectConfig; file: string } | undefined> {
+  for (const file of configFile ? [configFile] : CONFIG_FILE_NAMES) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.resolve(workspacePath, file), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' && !configFile) {
+        continue;
+      }
+      if (error?.code === 'ENOENT') {
+        throw new Error(`Config file ${file} does not exist`);
+      }
+      throw error;
+    }
+    return { config: parseConfig(content, file), file };
+  }
+  return undefined;
+}
+
+/**
+ * Derives the file filter of a configuration.
+ * @param config - Project configuration
+ * @returns Include patterns and whether the default excludes apply
+ */
+export function getFileFilter(config: ProjectConfig): FileFilter {
+  return { include: config.include, defaultExcludes: config.defaultExcludes };
+}
+
+/**
+ * Matches a file against a config path pattern. Globs are matched as is; a plain path
+ * names a file or everything below a directory.
+ * @param filePath - File to test
+ * @param pattern - Glob or plain path from the configuration
+ * @returns True if the pattern covers the file
+ */
+export function matchesPathPattern(filePath: string, pattern: string): boolean {
+  const trimmed = pattern.replace(/\/+$/, '');
+  return minimatch(filePath, /[*?[\]{}]/.test(trimmed) ? trimmed : `${trimmed}{,/**}`);
+}
+
+/**
+ * Finds the severity of a file: the last matching rule wins, and files no rule matches
+ * are errors.
+ * @param rules - Severity rules of the configuration
+ * @param filePath - File to look up
+ * @returns The rule that applies, or undefined for the default `error`
+ */
+export function getFileSeverity(rules: SeverityRule[], filePath: string): SeverityRule | undefined {
+  let match: SeverityRule | undefined;
+  for (const rule of rules) {
+    if (matchesPathPattern(filePath, rule.pattern)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/**
+ * Finds the severity of a cycle: the strictest severity among its files, so a cycle is
+ * only ignored when every file in it is.
+ * @param rules - Severity rules of the configuration
+ * @param cycle - Cycle to look up
+ * @returns The severity and the rule it comes from, if any
+ */
+export function getCycleSeverity(
+  rules: SeverityRule[],
+  cycle: CircularDependencyResult
+): { severity: Severity; rule?: SeverityRule } {
+  let strictest: { severity: Severity; rule?: SeverityRule } | undefined;
+  for (const file of cycle.cycle) {
+    const rule = getFileSeverity(rules, file);
+    const severity = rule?.severity ?? 'error';
+    if (!strictest || SEVERITY_RANK[severity] > SEVERITY_RANK[strictest.severity]) {
+      strictest = { severity, rule };
+    }
+  }
+  return strictest ?? { severity: 'error' };
+}
+
+/**
+ * Matches the allowed cycles and `ignore` severity rules of a configuration with the
+ * detected cycles.
+ * @param cycles - Detected cycles
+ * @param config - Project configuration
+ * @param today - Current date (YYYY-MM-DD); allowances expire after their expiry date
+ * @returns Allowances for the accepted cycles, and the expired allowed cycles
+ */
+export function matchAllowedCycles(
+  cycles: CircularDependencyResult[],
+  config: ProjectConfig,
+  today: string = new Date().toISOString().slice(0, 10)
+): AllowedCycleMatch {
+  const active = new Map<string, AllowedCycle>();
+  const expired: AllowedCycle[] = [];
+  for (const allowed of config.allowedCycles) {
+    if (allowed.expires && allowed.expires < today) {
+      expired.push(allowed);
+    } else {
+      active.set(getCycleId(allowed.files), allowed);
+    }
+  }
+
+  const allowances: CycleAllowance[] = [];
+  for (const cycle of cycles) {
+    const allowed = active.get(cycle.id);
+    if (allowed) {
+      allowances.push({
+        id: cycle.id,
+        reason: allowed.justification,
+        ...(allowed.expires ? { expires: allowed.expires } : {}),
+      });
+      continue;
+    }
+    const { severity, rule } = getCycleSeverity(config.severity, cycle);
+    if (severity === 'ignore' && rule) {
+      allowances.push({ id: cycle.id, reason: `Severity of \`${rule.pattern}\` is ignore` });
+    }
+  }
+  return { allowances, expired };
+}
@@ -0,0 +1,239 @@
+import {
+  CircularDependencyResult,
+  DependencyEdgeRef,
+  DependencyGraph,
+  EdgeKind,
+  TangleResult,
+  getImportSites,
+  getStrongestKind,
+} from './circular-deps';
+
+/**
+ * Limits that keep rendered diagrams readable.
+ */
+export interface DiagramOptions {
+  /** Largest number of files drawn in one diagram; longer cycles are collapsed. Defaults to 8. */
+  maxNodes?: number;
+  /** Largest number of diagrams in one report. Defaults to 10. */
+  maxDiagrams?: number;
+}
+
+const BREAK_EDGE_STYLE = 'stroke:#d73a49,stroke-width:3px';
+
+function edgeKey(from: string, to: string): string {
+  return `${from}\u0000${to}`;
+}
+
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+interface MermaidEdge {
+  from: number;
+  to: number;
+  highlighted: boolean;
+  collapsed: boolean;
+}
+
+function renderMermaid(labels: string[], edges: MermaidEdge[]): string {
+  const lines = ['flowchart LR'];
+  labels.forEach((label, index) => lines.push(`  n${index}["${mermaidLabel(label)}"]`));
+  edges.forEach(edge => {
+    const arrow = edge.highlighted ? '==>' : edge.collapsed ? '-.->' : '-->';
+    lines.push(`  n${edge.from} ${arrow} n${edge.to}`);
+  });
+  edges.forEach((edge, index) => {
+    if (edge.highlighted) {
+      lines.push(`  linkStyle ${index} ${BREAK_EDGE_STYLE}`);
+    }
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Renders a cycle as a Mermaid flowchart. The recommended break edge is drawn first and
+ * highlighted; cycles with more files than `maxNodes` keep their first and last files and
+ * collapse the middle of the path into a single placeholder.
+ * @param cycle - Cycle to draw
+ * @param options - Size limits
+ * @returns Mermaid source
+ */
+export function renderCycleMermaid(cycle: CircularDependencyResult, options: DiagramOptions = {}): string {
+  const maxNodes = Math.max(4, options.maxNodes ?? 8);
+  let files = cycle.cycle;
+  const breakStart = cycle.breakEdge ? files.indexOf(cycle.breakEdge.from) : -1;
+  if (breakStart > 0) {
+    files = files.slice(breakStart).concat(files.slice(0, breakStart));
+  }
+
+  const labels = files.length > maxNodes
+    ? [...files.slice(0, maxNodes - 2), `… ${files.length - maxNodes + 1} more files`, files[files.length - 1]]
+    : files;
+  const collapsedIndex = files.length > maxNodes ? maxNodes - 2 : -1;
+
+  const edges = labels.map((_, index) => ({
+    from: index,
+    to: (index + 1) % labels.length,
+    highlighted: index === 0 && breakStart !== -1,
+    collapsed: index === collapsedIndex || index + 1 === collapsedIndex,
+  }));
+  return renderMermaid(labels, edges);
+}
+
+/**
+ * Renders every dependency between the files of a tangle as a Mermaid flowchart.
+ * @param tangle - Strongly connected component to draw
+ * @param graph - File-level dependency graph
+ * @param breakEdges - Recommended edges to remove, which are highlighted
+ * @returns Mermaid source
+ */
+export function renderTangleMermaid(
+  tangle: TangleResult,
+  graph: DependencyGraph,
+  breakEdges: DependencyEdgeRef[] = []
+): string {
+  const index = new Map(tangle.files.map((file, position) => [file, position]));
+  const highlighted = new Set(breakEdges.map(edge => edgeKey(edge.from, edge.to)));
+  const edges: MermaidEdge[] = [];
+
+  for (const from of tangle.files) {
+    for (const to of Array.from(graph.adjacency.get(from) || []).sort()) {
+      if (index.has(to)) {
+        edges.push({
+          from: index.get(from)!,
+          to: index.get(to)!,
+          highlighted: highlighted.has(edgeKey(from, to)),
+          collapsed: false,
+        });
+      }
+    }
+  }
+  return renderMermaid(tangle.files, edges);
+}
+
+function fence(source: string): string {
+  return `\`\`\`mermaid\n${source}\n\`\`\``;
+}
+
+/**
+ * Renders the diagram section of a report: one diagram per tangle of three or more files,
+ * or, for tangles too large to draw, one collapsed diagram per cycle inside them.
+ * @param cycles - Detected cycles, with break edges attached
+ * @param tangles - Strongly connected components of the graph
+ * @param graph - File-level dependency graph
+ * @param breakEdges - Recommended edges to remove
+ * @param options - Size limits
+ * @returns Markdown section, or undefined when there is nothing worth drawing
+ */
+export function formatDiagramSection(
+  cycles: CircularDependencyResult[],
+  tangles: TangleResult[],
+  graph: DependencyGraph,
+  breakEdges: DependencyEdgeRef[] = [],
+  options: DiagramOptions = {}
+): string | undefined {
+  const maxNodes = Math.max(4, options.maxNodes ?? 8);
+  const maxDiagrams = options.maxDiagrams ?? 10;
+  const diagrams: string[] = [];
+
+  // Collects one diagram more than shown, to tell whether the section was cut short.
+  for (const [position, tangle] of tangles.entries()) {
+    if (diagrams.length > maxDiagrams) {
+      break;
+    }
+    if (tangle.size < 3) {
+      continue;
+    }
+    if (tangle.size <= maxNodes) {
+      diagrams.push(`<details>\n<summary>Tangle ${position + 1} (${tangle.size} files)</summary>\n\n` +
+        `${fence(renderTangleMermaid(tangle, graph, breakEdges))}\n\n</details>`);
+      continue;
+    }
+    const members = new Set(tangle.files);
+    for (const cycle of cycles) {
+      if (diagrams.length > maxDiagrams) {
+        break;
+      }
+      if (cycle.length >= 3 && members.has(cycle.cycle[0])) {
+        diagrams.push(`<details>\n<summary>Cycle in tangle ${position + 1} (${cycle.length} files)</summary>\n\n` +
+          `${fence(renderCycleMermaid(cycle, { maxNodes }))}\n\n</details>`);
+      }
+    }
+  }
+
+  if (diagrams.length === 0) {
+    return undefined;
+  }
+  const more = diagrams.length > maxDiagrams
+    ? `\n\n_Only the first ${maxDiagrams} diagrams are shown. Use \`graphviz-file\` for the complete cyclic subgraph._`
+    : '';
+  return `### Diagrams
+
+Thick red arrows are the recommended dependencies to remove.
+
+${diagrams.slice(0, maxDiagrams).join('\n\n')}${more}`;
+}
+
+const DOT_EDGE_STYLES: Record<EdgeKind, string> = {
+  'runtime': '',
+  're-export': 'style=bold',
+  'dynamic': 'style=dotted',
+  'type-only': 'style=dashed',
+};
+
+/**
+ * Renders the cyclic part of the graph, every tangle and the edges inside it, as a
+ * Graphviz DOT document. Each tangle is a cluster; edge styles show the import kind and
+ * recommended break edges are drawn in red.
+ * @param graph - File-level dependency graph
+ * @param tangles - Strongly connected components of the graph
+ * @param breakEdges - Recommended edges to remove
+ * @returns DOT source, ready for `dot -Tsvg`
+ */
+export function renderCyclicSubgraphDot(
+  graph: DependencyGraph,
+  tangles: TangleResult[],
+  breakEdges: DependencyEdgeRef[] = []
+): string {
+  const highlighted = new Set(breakEdges.map(edge => edgeKey(edge.from, edge.to)));
+  const lines = [
+    'digraph cycles {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  tangles.forEach((tangle, position) => {
+    lines.push(`  subgraph cluster_${position} {`);
+    lines.push(`    label=${dotString(`Tangle ${position + 1} (${tangle.size} files)`)};`);
+    for (const file of tangle.files) {
+      lines.push(`    ${dotString(file)};`);
+    }
+    lines.push('  }');
+  });
+
+  for (const tangle of tangles) {
+    const members = new Set(tangle.files);
+    for (const from of tangle.files) {
+      for (const to of Array.from(graph.adjacency.get(from) || []).sort()) {
+        if (!members.has(to)) {
+          continue;
+        }
+        const kind = getStrongestKind(getImportSites(graph, from, to).map(site => site.kind));
+        const attributes = [DOT_EDGE_STYLES[kind]];
+        if (highlighted.has(edgeKey(from, to))) {
+          attributes.push('color="#d73a49"', 'penwidth=3', 'label="break"');
+        }
+        const attributeList = attributes.filter(Boolean).join(', ');
+        lines.push(`  ${dotString(from)} -> ${dotString(to)}${attributeList ? ` [${attributeList}]` : ''};`);
+      }
+    }
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,175 @@
+import * as exec from '@actions/exec';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+async function gitOutput(
+  workspacePath: string,
+  args: string[],
+  input?: Buffer,
+  env?: Record<string, string>
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await exec.exec('git', args, {
+    cwd: workspacePath,
+    input,
+    env,
+    listeners: {
+      stdout: (data: Buffer) => {
+        chunks.push(data);
+      },
+    },
+    silent: true,
+  });
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Lists every file of a git tree.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch or tag to list
+ * @returns Paths relative to the repository root
+ */
+export async function listTreeFiles(workspacePath: string, ref: string): Promise<string[]> {
+  const listing = await gitOutput(workspacePath, ['ls-tree', '-r', '-z', '--name-only', ref]);
+  return listing.toString('utf8').split('\0').filter(Boolean);
+}
+
+/**
+ * Lists every file of a git tree with the id of its blob, which changes exactly when the
+ * file's contents do.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree to list
+ * @returns Blob ids keyed by path relative to the repository root
+ */
+export async function listTreeBlobs(workspacePath: string, ref: string): Promise<Map<string, string>> {
+  const listing = await gitOutput(workspacePath, ['ls-tree', '-r', '-z', ref]);
+  const blobs = new Map<string, string>();
+  for (const entry of listing.toString('utf8').split('\0').filter(Boolean)) {
+    // Each entry reads "<mode> <type> <id>\t<path>".
+    const tab = entry.indexOf('\t');
+    const [, type, id] = entry.slice(0, tab).split(' ');
+    if (type === 'blob') {
+      blobs.set(entry.slice(tab + 1), id);
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Resolves a ref to the id of its tree, a hash of the complete contents. Commits with
+ * identical contents, such as a rebased branch, share the same tree.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree
+ * @returns Id of the tree object
+ */
+export async function getTreeHash(workspacePath: string, ref: string): Promise<string> {
+  return (await gitOutput(workspacePath, ['rev-parse', `${ref}^{tree}`])).toString('utf8').trim();
+}
+
+/**
+ * Reads files of a git tree without touching the working copy.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch or tag to read
+ * @param paths - Files to read, relative to the repository root
+ * @returns File contents keyed by path; paths that are not blobs are skipped
+ */
+export async function readTreeFiles(
+  workspacePath: string,
+  ref: string,
+  paths: string[]
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  if (paths.length === 0) {
+    return files;
+  }
+
+  const request = Buffer.from(paths.map(filePath => `${ref}:${filePath}`).join('\n') + '\n', 'utf8');
+  const output = await gitOutput(workspacePath, ['cat-file', '--batch'], request);
+
+  let offset = 0;
+  for (const filePath of paths) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    if (headerEnd === -1) {
+      break;
+    }
+    const header = output.toString('utf8', offset, headerEnd).split(' ');
+    offset = headerEnd + 1;
+    if (header[1] !== 'blob') {
+      continue;
+    }
+    const size = parseInt(header[2], 10);
+    files.set(filePath, output.toString('utf8', offset, offset + size));
+    offset += size + 1;
+  }
+
+  return files;
+}
+
+/**
+ * Writes the staged contents of the index as a tree object.
+ * @param workspacePath - Root of the git checkout
+ * @returns Id of the tree, usable as a ref by the graph providers
+ */
+export async function snapshotIndex(workspacePath: string): Promise<string> {
+  return (await gitOutput(workspacePath, ['write-tree'])).toString('utf8').trim();
+}
+
+/**
+ * Writes the working copy, including untracked files that are not ignored, as a tree
+ * object. A temporary index is used so the real index is left untouched.
+ * @param workspacePath - Root of the git checkout
+ * @returns Id of the tree, usable as a ref by the graph providers
+ */
+export async function snapshotWorkingTree(workspacePath: string): Promise<string> {
+  const indexPath = path.resolve(
+    workspacePath,
+    (await gitOutput(workspacePath, ['rev-parse', '--git-path', 'index'])).toString('utf8').trim()
+  );
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'circular-dependency-hunter-'));
+  const tempIndex = path.join(tempDir, 'index');
+  try {
+    await fs.copyFile(indexPath, tempIndex).catch((error: any) => {
+      // A repository without commits or staged files has no index yet.
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+    const env = { ...process.env, GIT_INDEX_FILE: tempIndex } as Record<string, string>;
+    await gitOutput(workspacePath, ['add', '-A'], undefined, env);
+    return (await gitOutput(workspacePath, ['write-tree'], undefined, env)).toString('utf8').trim();
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Lists files that are added, copied, modified or renamed in the index.
+ * @param workspacePath - Root of the git checkout
+ * @returns Staged paths relative to the repository root
+ */
+export async function listStagedFiles(workspacePath: string): Promise<string[]> {
+  const listing = await gitOutput(workspacePath, ['diff', '--cached', '--name-only', '-z', '--diff-filter=ACMR']);
+  return listing.toString('utf8').split('\0').filter(Boolean);
+}
+
+/**
+ * Finds the root of the git checkout containing a directory.
+ * @param directory - Any directory inside the checkout
+ * @returns Absolute path of the top-level directory
+ */
+export async function findRepositoryRoot(directory: string): Promise<string> {
+  return (await gitOutput(directory, ['rev-parse', '--show-toplevel'])).toString('utf8').trim();
+}
+
+/**
+ * Resolves a path inside the repository's git directory, e.g. for files that must not be
+ * committed or show up as untracked.
+ * @param workspacePath - Root of the git checkout
+ * @param name - Path relative to the git directory
+ * @returns Absolute path
+ */
+export async function getGitPath(workspacePath: string, name: string): Promise<string> {
+  const gitPath = (await gitOutput(workspacePath, ['rev-parse', '--git-path', name])).toString('utf8').trim();
+  return path.resolve(workspacePath, gitPath);
+}
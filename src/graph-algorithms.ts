@@ -0,0 +1,217 @@
+/** Directed graph as a map from each node to the nodes it points at. */
+export type Adjacency = Map<string, Set<string>>;
+
+/** Caps applied while enumerating elementary cycles. */
+export interface CycleEnumerationOptions {
+  /** Longest cycle (in nodes) to report. Unlimited when omitted. */
+  maxLength?: number;
+  /** Stop after this many cycles. Unlimited when omitted. */
+  maxCycles?: number;
+}
+
+/** Cycles produced by findElementaryCycles. */
+export interface CycleEnumeration {
+  cycles: string[][];
+  /** True when enumeration stopped early because `maxCycles` was reached. */
+  truncated: boolean;
+}
+
+function sortedNodes(adjacency: Adjacency): string[] {
+  const nodes = new Set<string>(adjacency.keys());
+  for (const targets of adjacency.values()) {
+    for (const target of targets) {
+      nodes.add(target);
+    }
+  }
+  return Array.from(nodes).sort();
+}
+
+function sortedNeighbors(adjacency: Adjacency, node: string): string[] {
+  return Array.from(adjacency.get(node) || []).sort();
+}
+
+/**
+ * Finds strongly connected components with Tarjan's algorithm.
+ * Runs iteratively so deep graphs do not overflow the call stack, and visits
+ * nodes in sorted order so the output is deterministic.
+ * @param adjacency - Directed graph
+ * @returns Components, each sorted, in the order Tarjan's algorithm completes them
+ */
+export function findStronglyConnectedComponents(adjacency: Adjacency): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of sortedNodes(adjacency)) {
+    if (indices.has(root)) {
+      continue;
+    }
+
+    const work: Array<{ node: string; neighbors: string[]; position: number }> = [];
+    const enter = (node: string) => {
+      indices.set(node, nextIndex);
+      lowLinks.set(node, nextIndex);
+      nextIndex += 1;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, neighbors: sortedNeighbors(adjacency, node), position: 0 });
+    };
+
+    enter(root);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+
+      if (frame.position < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.position];
+        frame.position += 1;
+        if (!indices.has(neighbor)) {
+          enter(neighbor);
+        } else if (onStack.has(neighbor)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(neighbor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+      }
+
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component.sort());
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Restricts a graph to a set of nodes and the edges between them.
+ * @param adjacency - Directed graph
+ * @param members - Nodes to keep
+ * @returns Subgraph with an entry for every member
+ */
+export function inducedSubgraph(adjacency: Adjacency, members: Set<string>): Adjacency {
+  const subgraph: Adjacency = new Map();
+  for (const node of members) {
+    const targets = new Set<string>();
+    for (const target of adjacency.get(node) || []) {
+      if (members.has(target)) {
+        targets.add(target);
+      }
+    }
+    subgraph.set(node, targets);
+  }
+  return subgraph;
+}
+
+/**
+ * Enumerates every elementary cycle with Johnson's algorithm.
+ * Start nodes are processed in sorted order, so each cycle is reported once,
+ * beginning at its smallest node, and the output order is deterministic.
+ * @param adjacency - Directed graph
+ * @param options - Caps on cycle length and count
+ * @returns The cycles found (without repeating the start node) and whether the count cap was hit
+ */
+export function findElementaryCycles(
+  adjacency: Adjacency,
+  options: CycleEnumerationOptions = {}
+): CycleEnumeration {
+  const maxLength = options.maxLength && options.maxLength > 0 ? options.maxLength : Infinity;
+  const maxCycles = options.maxCycles && options.maxCycles > 0 ? options.maxCycles : Infinity;
+  const cycles: string[][] = [];
+  const order = findStronglyConnectedComponents(adjacency)
+    .filter(members => members.length > 1)
+    .flatMap(members => members.map((node, index) => ({ node, rest: members.slice(index) })))
+    .sort((left, right) => (left.node < right.node ? -1 : left.node > right.node ? 1 : 0));
+
+  for (const { node: start, rest } of order) {
+    const component = findStronglyConnectedComponents(inducedSubgraph(adjacency, new Set(rest)))
+      .find(members => members.includes(start));
+    if (!component || component.length < 2) {
+      continue;
+    }
+
+    const subgraph = inducedSubgraph(adjacency, new Set(component));
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (node: string) => {
+      const pending = [node];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        if (!blocked.delete(current)) {
+          continue;
+        }
+        const dependents = blockedBy.get(current);
+        if (dependents) {
+          blockedBy.delete(current);
+          pending.push(...dependents);
+        }
+      }
+    };
+
+    const work: Array<{ node: string; neighbors: string[]; position: number; release: boolean }> = [];
+    const enter = (node: string) => {
+      path.push(node);
+      blocked.add(node);
+      work.push({ node, neighbors: sortedNeighbors(subgraph, node), position: 0, release: false });
+    };
+
+    enter(start);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+
+      if (frame.position < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.position];
+        frame.position += 1;
+        if (neighbor === start) {
+          if (cycles.length >= maxCycles) {
+            return { cycles, truncated: true };
+          }
+          cycles.push(path.slice());
+          frame.release = true;
+        } else if (!blocked.has(neighbor)) {
+          if (path.length < maxLength) {
+            enter(neighbor);
+          } else {
+            // Pruned by the length cap: keep the node unblocked so shorter paths can still reach it.
+            frame.release = true;
+          }
+        }
+        continue;
+      }
+
+      work.pop();
+      path.pop();
+      if (frame.release) {
+        unblock(frame.node);
+      } else {
+        for (const neighbor of frame.neighbors) {
+          if (!blockedBy.has(neighbor)) {
+            blockedBy.set(neighbor, new Set<string>());
+          }
+          blockedBy.get(neighbor)!.add(frame.node);
+        }
+      }
+      if (work.length > 0 && frame.release) {
+        work[work.length - 1].release = true;
+      }
+    }
+  }
+
+  return { cycles, truncated: false };
+}
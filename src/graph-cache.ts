@@ -0,0 +1,130 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getTreeHash } from './git-tree';
+import { CodeGraph, GraphProvider, Logger } from './graph-provider';
+
+/** Bumped whenever the format of cached data changes, so stale entries are ignored. */
+export const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * A map persisted as one JSON file. Once it grows past its limit, the least recently
+ * used entries are dropped when it is saved.
+ */
+export interface CacheStore<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  /** Writes the entries back to disk, if any were added. */
+  save(): Promise<void>;
+}
+
+/**
+ * Settings for caching fetched graphs on disk.
+ */
+export interface GraphCacheOptions {
+  /** Directory holding the cache; persist it between CI runs, e.g. with actions/cache. */
+  directory: string;
+  /** Graphs kept per provider; the least recently used are removed. Defaults to 10. */
+  maxGraphs?: number;
+  /** Destination of progress messages. Defaults to the Actions log. */
+  logger?: Logger;
+}
+
+async function readJson(filePath: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    // A missing or corrupt entry is a cache miss; it is rewritten after the next analysis.
+    return undefined;
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename, so an interrupted run never leaves a truncated entry behind.
+  const temporary = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value), 'utf8');
+  await fs.rename(temporary, filePath);
+}
+
+/**
+ * Opens a persisted key-value cache.
+ * @param filePath - JSON file holding the entries
+ * @param maxEntries - Entries kept when saving
+ * @returns The store, empty if the file is missing, unreadable or from another format version
+ */
+export async function openCacheStore<T>(filePath: string, maxEntries: number): Promise<CacheStore<T>> {
+  const stored = await readJson(filePath);
+  // Map iteration follows insertion order, so re-inserting on every access keeps it in LRU order.
+  const entries = new Map<string, T>(
+    stored?.version === CACHE_FORMAT_VERSION && stored.entries ? Object.entries(stored.entries) : []
+  );
+  let dirty = false;
+
+  return {
+    get(key: string): T | undefined {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set(key: string, value: T): void {
+      entries.delete(key);
+      entries.set(key, value);
+      dirty = true;
+    },
+    async save(): Promise<void> {
+      if (!dirty) {
+        return;
+      }
+      const kept = Array.from(entries).slice(-maxEntries);
+      await writeJson(filePath, { version: CACHE_FORMAT_VERSION, entries: Object.fromEntries(kept) });
+      dirty = false;
+    },
+  };
+}
+
+async function pruneGraphs(directory: string, prefix: string, maxGraphs: number): Promise<void> {
+  const names = (await fs.readdir(directory)).filter(name => name.startsWith(prefix) && name.endsWith('.json'));
+  const entries = await Promise.all(names.map(async name => ({
+    name,
+    mtime: (await fs.stat(path.join(directory, name))).mtimeMs,
+  })));
+  entries.sort((left, right) => right.mtime - left.mtime);
+  await Promise.all(entries.slice(maxGraphs).map(entry => fs.rm(path.join(directory, entry.name), { force: true })));
+}
+
+/**
+ * Wraps a provider so each graph is stored under the hash of the analyzed tree and reused
+ * whenever the same contents are analyzed again, whatever the commit.
+ * @param provider - Provider that builds graphs on a cache miss
+ * @param options - Cache directory and size
+ * @returns Provider with the same name, backed by the cache
+ */
+export function createCachedProvider(provider: GraphProvider, options: GraphCacheOptions): GraphProvider {
+  const logger = options.logger ?? core;
+  const prefix = `graph-${provider.name}-`;
+
+  return {
+    name: provider.name,
+    async generateGraph(workspacePath: string, ref: string): Promise<CodeGraph> {
+      const tree = await getTreeHash(workspacePath, ref);
+      const filePath = path.join(options.directory, `${prefix}${tree}.json`);
+
+      const cached = await readJson(filePath);
+      if (cached?.version === CACHE_FORMAT_VERSION && cached.graph) {
+        logger.info(`Reusing cached ${provider.name} graph of tree ${tree.slice(0, 7)}`);
+        const now = new Date();
+        await fs.utimes(filePath, now, now).catch(() => undefined);
+        return cached.graph;
+      }
+
+      const graph = await provider.generateGraph(workspacePath, ref);
+      await writeJson(filePath, { version: CACHE_FORMAT_VERSION, tree, graph });
+      await pruneGraphs(options.directory, prefix, options.maxGraphs ?? 10);
+      return graph;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DiagnosticSample, GraphDiagnostics } from './circular-deps';
+
+function formatSample(title: string, sample: DiagnosticSample): string | undefined {
+  if (sample.count === 0) {
+    return undefined;
+  }
+  const more = sample.count > sample.samples.length ? `, ... (${sample.count - sample.samples.length} more)` : '';
+  return `${title} (${sample.count}): ${sample.samples.join(', ')}${more}`;
+}
+
+/**
+ * Summarizes in one line how a code graph mapped to files and dependencies.
+ * @param diagnostics - Diagnostics of the built graph
+ * @returns Summary for the log
+ */
+export function summarizeDiagnostics(diagnostics: GraphDiagnostics): string {
+  const unmapped = diagnostics.relationshipTypes.filter(entry => !entry.dependency);
+  const unmappedText = unmapped.length > 0
+    ? `; ignored ${unmapped.map(entry => `${entry.type || '(untyped)'} (${entry.count})`).slice(0, 5).join(', ')}` +
+      `${unmapped.length > 5 ? ` and ${unmapped.length - 5} more types` : ''}`
+    : '';
+  return `Mapped ${diagnostics.dependencies} of ${diagnostics.relationships} relationships to dependencies ` +
+    `with the ${diagnostics.schema} schema${unmappedText}`;
+}
+
+/**
+ * Lists the signs that the schema does not fit the graph, which would make cycles vanish
+ * or appear for the wrong reasons.
+ * @param diagnostics - Diagnostics of the built graph
+ * @returns Warnings, empty when the mapping looks sound
+ */
+export function getDiagnosticWarnings(diagnostics: GraphDiagnostics): string[] {
+  const warnings: string[] = [];
+  const types = diagnostics.relationshipTypes.map(entry => entry.type || '(untyped)').join(', ');
+  if (diagnostics.relationships > 0 && diagnostics.dependencies === 0) {
+    warnings.push(
+      `None of the ${diagnostics.relationships} relationships maps to a dependency with the ` +
+      `${diagnostics.schema} schema, so no cycle can be found. Relationship types in the graph: ${types}`
+    );
+  }
+  if (diagnostics.nodes > 0 && diagnostics.fileNodes === 0) {
+    warnings.push(
+      `No node is labeled as a file by the ${diagnostics.schema} schema; every node is treated as a file`
+    );
+  }
+  if (diagnostics.danglingRelationships.count > 0) {
+    warnings.push(formatSample('Dependencies pointing at nodes missing from the graph', diagnostics.danglingRelationships)!);
+  }
+  return warnings;
+}
+
+/**
+ * Formats the full diagnostics report for the log.
+ * @param diagnostics - Diagnostics of the built graph
+ * @returns Multi-line report
+ */
+export function formatDiagnosticsReport(diagnostics: GraphDiagnostics): string {
+  const width = Math.max(4, ...diagnostics.relationshipTypes.map(entry => (entry.type || '(untyped)').length));
+  const lines = [
+    `Graph schema: ${diagnostics.schema}`,
+    `Nodes: ${diagnostics.nodes} (${diagnostics.fileNodes} files or modules)`,
+    `Relationships: ${diagnostics.relationships} (${diagnostics.dependencies} dependencies)`,
+    'Relationship types:',
+    ...diagnostics.relationshipTypes.map(entry =>
+      `  ${(entry.type || '(untyped)').padEnd(width)}  ${String(entry.count).padStart(7)}  ` +
+      `${entry.dependency ? 'dependency' : 'ignored'}`),
+    formatSample('Nodes without a path property', diagnostics.nodesWithoutPath),
+    formatSample('Dependencies pointing at missing nodes', diagnostics.danglingRelationships),
+    formatSample('Dependency targets that are not files', diagnostics.unresolvedTargets),
+    formatSample('Ignored files', diagnostics.ignoredFiles),
+  ];
+  return lines.filter((line): line is string => line !== undefined).join('\n');
+}
+
+/**
+ * Writes the diagnostics as JSON.
+ * @param filePath - Destination file; missing directories are created
+ * @param diagnostics - Diagnostics of the built graph
+ */
+export async function writeDiagnostics(filePath: string, diagnostics: GraphDiagnostics): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(diagnostics, null, 2)}\n`, 'utf8');
+}
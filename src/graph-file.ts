@@ -0,0 +1,441 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+import { CodeGraph, GraphProvider, Logger } from './graph-provider';
+
+/** Graph formats a graph file can be in; detected from its contents unless one is given. */
+export const GRAPH_FILE_FORMATS = ['supermodel', 'madge', 'dependency-cruiser', 'lsif', 'scip'] as const;
+
+export type GraphFileFormat = typeof GRAPH_FILE_FORMATS[number];
+
+/**
+ * Settings for reading a graph file.
+ */
+export interface GraphFileOptions {
+  /** Format of the file; detected from its contents when omitted. */
+  format?: GraphFileFormat;
+  /**
+   * Directory the paths of LSIF and SCIP indexes are made relative to, when the
+   * index does not name its project root.
+   */
+  root?: string;
+}
+
+/**
+ * A graph loaded from a file, with the format it was in.
+ */
+export interface ParsedGraphFile {
+  format: GraphFileFormat;
+  graph: CodeGraph;
+}
+
+/** The SCIP symbol role bit of an occurrence that defines its symbol. */
+const SCIP_DEFINITION_ROLE = 1;
+
+interface GraphBuilder {
+  addFile(filePath: string): void;
+  addImport(from: string, to: string, properties?: Record<string, unknown>): void;
+  build(format: GraphFileFormat): CodeGraph;
+}
+
+function normalizeFilePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '');
+}
+
+function createGraphBuilder(): GraphBuilder {
+  const nodes = new Map<string, CodeGraphNode>();
+  const relationships: CodeGraphRelationship[] = [];
+
+  const addFile = (filePath: string) => {
+    if (!nodes.has(filePath)) {
+      nodes.set(filePath, { id: filePath, labels: ['File'], properties: { filePath, name: path.posix.basename(filePath) } });
+    }
+  };
+
+  return {
+    addFile,
+    addImport(from: string, to: string, properties: Record<string, unknown> = {}): void {
+      addFile(from);
+      addFile(to);
+      relationships.push({
+        id: `${from}#${relationships.length}`,
+        type: 'IMPORTS',
+        startNode: from,
+        endNode: to,
+        properties,
+      });
+    },
+    build(format: GraphFileFormat): CodeGraph {
+      return {
+        nodes: Array.from(nodes.values()),
+        relationships,
+        stats: { format, files: nodes.size, imports: relationships.length },
+      };
+    },
+  };
+}
+
+function toProjectPath(uri: string, root: string | undefined): string | undefined {
+  const absolute = uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+  if (!path.isAbsolute(absolute)) {
+    return normalizeFilePath(absolute);
+  }
+  if (!root) {
+    return undefined;
+  }
+  const relative = path.relative(root.startsWith('file:') ? fileURLToPath(root) : root, absolute);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? undefined : normalizeFilePath(relative);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function getRecords(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function isGraphNode(value: unknown): value is CodeGraphNode {
+  return isRecord(value) && typeof value.id === 'string';
+}
+
+function isGraphRelationship(value: unknown): value is CodeGraphRelationship {
+  return isRecord(value) && typeof value.startNode === 'string' && typeof value.endNode === 'string';
+}
+
+function parseSupermodel(parsed: Record<string, unknown>): CodeGraph {
+  const graph = isRecord(parsed.graph) ? parsed.graph : parsed;
+  return {
+    nodes: Array.isArray(graph.nodes) ? graph.nodes.filter(isGraphNode) : [],
+    relationships: Array.isArray(graph.relationships) ? graph.relationships.filter(isGraphRelationship) : [],
+    message: getString(parsed.message),
+    stats: parsed.stats,
+  };
+}
+
+function parseMadge(parsed: Record<string, string[]>): CodeGraph {
+  const builder = createGraphBuilder();
+  for (const [file, dependencies] of Object.entries(parsed)) {
+    const from = normalizeFilePath(file);
+    builder.addFile(from);
+    for (const dependency of dependencies) {
+      builder.addImport(from, normalizeFilePath(dependency));
+    }
+  }
+  return builder.build('madge');
+}
+
+function parseDependencyCruiser(parsed: Record<string, unknown>): CodeGraph {
+  const builder = createGraphBuilder();
+  for (const module of getRecords(parsed.modules)) {
+    const source = getString(module.source);
+    if (!source || module.coreModule || module.couldNotResolve) {
+      continue;
+    }
+    const from = normalizeFilePath(source);
+    builder.addFile(from);
+    for (const dependency of getRecords(module.dependencies)) {
+      const resolved = getString(dependency.resolved);
+      if (dependency.coreModule || dependency.couldNotResolve || !resolved) {
+        continue;
+      }
+      const types = isStringArray(dependency.dependencyTypes) ? dependency.dependencyTypes : [];
+      builder.addImport(from, normalizeFilePath(resolved), {
+        specifier: getString(dependency.module),
+        typeOnly: types.includes('type-only') || types.includes('type-import'),
+        dynamic: dependency.dynamic === true || types.includes('dynamic-import'),
+      });
+    }
+  }
+  return builder.build('dependency-cruiser');
+}
+
+/**
+ * Links each document of an LSIF dump to the documents defining the symbols it references:
+ * document -contains-> range -next-> result set -textDocument/definition-> definition result
+ * -item-> ranges of the defining document.
+ */
+function parseLsif(elements: Array<Record<string, unknown>>, options: GraphFileOptions): CodeGraph {
+  const documents = new Map<string, string>();
+  const rangeLines = new Map<string, number>();
+  const rangeDocuments = new Map<string, string>();
+  const next = new Map<string, string>();
+  const definitionResults = new Map<string, string>();
+  const definitionDocuments = new Map<string, Set<string>>();
+  let root = options.root;
+
+  for (const element of elements) {
+    if (element.type === 'vertex' && element.label === 'metaData' && getString(element.projectRoot)) {
+      root = getString(element.projectRoot);
+    }
+  }
+  for (const element of elements) {
+    const id = String(element.id);
+    if (element.type === 'vertex') {
+      const uri = getString(element.uri);
+      if (element.label === 'document' && uri) {
+        const filePath = toProjectPath(uri, root);
+        if (filePath) {
+          documents.set(id, filePath);
+        }
+      } else if (element.label === 'range') {
+        rangeLines.set(id, (getNumber(isRecord(element.start) ? element.start.line : undefined) ?? 0) + 1);
+      }
+      continue;
+    }
+    const inVs = (Array.isArray(element.inVs) ? element.inVs : [element.inV]).map(String);
+    const outV = String(element.outV);
+    if (element.label === 'contains') {
+      for (const inV of inVs) {
+        rangeDocuments.set(inV, outV);
+      }
+    } else if (element.label === 'next') {
+      next.set(outV, inVs[0]);
+    } else if (element.label === 'textDocument/definition') {
+      definitionResults.set(outV, inVs[0]);
+    } else if (element.label === 'item') {
+      const document = String(element.document ?? element.shard);
+      if (!definitionDocuments.has(outV)) {
+        definitionDocuments.set(outV, new Set());
+      }
+      definitionDocuments.get(outV)!.add(document);
+    }
+  }
+
+  const builder = createGraphBuilder();
+  const linked = new Set<string>();
+  for (const filePath of documents.values()) {
+    builder.addFile(filePath);
+  }
+  for (const [rangeId, documentId] of rangeDocuments) {
+    const from = documents.get(documentId);
+    if (!from || !rangeLines.has(rangeId)) {
+      continue;
+    }
+    const visited = new Set<string>();
+    for (let vertex: string | undefined = rangeId; vertex && !visited.has(vertex); vertex = next.get(vertex)) {
+      visited.add(vertex);
+      const result = definitionResults.get(vertex);
+      for (const targetId of (result && definitionDocuments.get(result)) || []) {
+        const to = documents.get(targetId);
+        if (!to || to === from || linked.has(`${from}\u0000${to}`)) {
+          continue;
+        }
+        linked.add(`${from}\u0000${to}`);
+        builder.addImport(from, to, { line: rangeLines.get(rangeId) });
+      }
+    }
+  }
+  return builder.build('lsif');
+}
+
+/**
+ * Links each document of a SCIP index (as printed by `scip print --json`) to the
+ * documents defining the global symbols it references.
+ */
+function parseScip(parsed: Record<string, unknown>, options: GraphFileOptions): CodeGraph {
+  const metadata = isRecord(parsed.metadata) ? parsed.metadata : {};
+  const root = getString(metadata.projectRoot) ?? getString(metadata.project_root) ?? options.root;
+  const documents: Array<{ filePath: string; occurrences: Array<Record<string, unknown>> }> = [];
+  for (const document of getRecords(parsed.documents)) {
+    const relativePath = getString(document.relativePath) ?? getString(document.relative_path);
+    const filePath = relativePath && toProjectPath(relativePath, root);
+    if (filePath) {
+      documents.push({ filePath, occurrences: getRecords(document.occurrences) });
+    }
+  }
+
+  const roles = (occurrence: Record<string, unknown>): number =>
+    getNumber(occurrence.symbolRoles) ?? getNumber(occurrence.symbol_roles) ?? 0;
+  const isGlobal = (symbol: unknown): symbol is string => typeof symbol === 'string' && !symbol.startsWith('local ');
+  const definedIn = new Map<string, string>();
+  for (const { filePath, occurrences } of documents) {
+    for (const occurrence of occurrences) {
+      if (isGlobal(occurrence.symbol) && roles(occurrence) & SCIP_DEFINITION_ROLE && !definedIn.has(occurrence.symbol)) {
+        definedIn.set(occurrence.symbol, filePath);
+      }
+    }
+  }
+
+  const builder = createGraphBuilder();
+  const linked = new Set<string>();
+  for (const { filePath, occurrences } of documents) {
+    builder.addFile(filePath);
+    for (const occurrence of occurrences) {
+      if (!isGlobal(occurrence.symbol) || roles(occurrence) & SCIP_DEFINITION_ROLE) {
+        continue;
+      }
+      const to = definedIn.get(occurrence.symbol);
+      if (!to || to === filePath || linked.has(`${filePath}\u0000${to}`)) {
+        continue;
+      }
+      linked.add(`${filePath}\u0000${to}`);
+      const line = Array.isArray(occurrence.range) ? getNumber(occurrence.range[0]) : undefined;
+      builder.addImport(filePath, to, { line: (line ?? 0) + 1 });
+    }
+  }
+  return builder.build('scip');
+}
+
+function readJsonDocuments(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // LSIF dumps are usually written as one JSON element per line.
+    try {
+      return content.split('\n').filter(line => line.trim()).map((line): unknown => JSON.parse(line));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function isLsifElement(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && (value.type === 'vertex' || value.type === 'edge') && typeof value.label === 'string';
+}
+
+function isMadgeGraph(value: unknown): value is Record<string, string[]> {
+  return isRecord(value) && Object.values(value).every(isStringArray);
+}
+
+/**
+ * Tells whether parsed contents have the shape of a format. A madge graph of no files is an
+ * empty object, which any JSON object could be mistaken for, so it is only accepted when
+ * the format is given.
+ */
+function hasGraphFileShape(parsed: unknown, format: GraphFileFormat, explicit: boolean): boolean {
+  switch (format) {
+    case 'lsif':
+      return Array.isArray(parsed) && (explicit || parsed.length > 0) && parsed.every(isLsifElement);
+    case 'supermodel':
+      return isRecord(parsed) && (
+        (isRecord(parsed.graph) && Array.isArray(parsed.graph.nodes)) ||
+        (Array.isArray(parsed.nodes) && Array.isArray(parsed.relationships))
+      );
+    case 'dependency-cruiser':
+      return isRecord(parsed) && Array.isArray(parsed.modules);
+    case 'scip':
+      return isRecord(parsed) && Array.isArray(parsed.documents);
+    case 'madge':
+      return isMadgeGraph(parsed) && (explicit || Object.keys(parsed).length > 0);
+  }
+}
+
+/**
+ * Parses a graph file format name.
+ * @param value - Format name; empty to detect the format from the contents
+ * @returns The format, or undefined when it should be detected
+ * @throws Error when the name is not one of GRAPH_FILE_FORMATS
+ */
+export function parseGraphFileFormat(value: string): GraphFileFormat | undefined {
+  const format = (value || '').trim().toLowerCase();
+  if (!format || format === 'auto') {
+    return undefined;
+  }
+  if (!(GRAPH_FILE_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown graph format "${value}". Expected one of: auto, ${GRAPH_FILE_FORMATS.join(', ')}`);
+  }
+  return format as GraphFileFormat;
+}
+
+/** Formats in the order they are detected, the least specific shapes last. */
+const DETECTION_ORDER: GraphFileFormat[] = ['lsif', 'supermodel', 'dependency-cruiser', 'scip', 'madge'];
+
+function readGraphFile(parsed: unknown, format: GraphFileFormat, options: GraphFileOptions): CodeGraph {
+  if (format === 'lsif') {
+    return parseLsif(Array.isArray(parsed) ? parsed.filter(isLsifElement) : [], options);
+  }
+  if (format === 'madge') {
+    return parseMadge(isMadgeGraph(parsed) ? parsed : {});
+  }
+  const record = isRecord(parsed) ? parsed : {};
+  if (format === 'supermodel') {
+    return parseSupermodel(record);
+  }
+  return format === 'scip' ? parseScip(record, options) : parseDependencyCruiser(record);
+}
+
+/**
+ * Reads a graph exported by Supermodel or another dependency tool: a saved Supermodel
+ * response, `madge --json`, dependency-cruiser JSON, an LSIF dump or a SCIP index printed
+ * as JSON. The format is detected from the contents unless it is given.
+ * @param content - Contents of the file
+ * @param options - Format of the file, and root for the absolute paths of LSIF and SCIP indexes
+ * @returns The graph, with one `File` node per file and `IMPORTS` relationships between them
+ * @throws Error when the format is not recognized, or the contents do not match the given format
+ */
+export function parseGraphFile(content: string, options: GraphFileOptions = {}): ParsedGraphFile {
+  const parsed = readJsonDocuments(content);
+
+  if (options.format) {
+    if (!hasGraphFileShape(parsed, options.format, true)) {
+      throw new Error(`Graph file is not ${options.format} JSON`);
+    }
+    return { format: options.format, graph: readGraphFile(parsed, options.format, options) };
+  }
+  const format = DETECTION_ORDER.find(candidate => hasGraphFileShape(parsed, candidate, false));
+  if (format) {
+    return { format, graph: readGraphFile(parsed, format, options) };
+  }
+
+  if (isRecord(parsed) && Object.keys(parsed).length === 0) {
+    throw new Error('Graph file holds an empty object. Set the graph format to madge if it is a madge graph without files');
+  }
+  throw new Error(
+    `Unrecognized graph file. Expected one of: ${GRAPH_FILE_FORMATS.join(', ')}. ` +
+    'Binary SCIP indexes must be converted with `scip print --json` first'
+  );
+}
+
+/**
+ * Writes a graph in the shape of a Supermodel API response, so it can be loaded again
+ * with parseGraphFile.
+ * @param filePath - Destination file; missing directories are created
+ * @param graph - Graph to write
+ */
+export async function writeGraphFile(filePath: string, graph: CodeGraph): Promise<void> {
+  const { nodes, relationships, message, stats } = graph;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify({ graph: { nodes, relationships }, message, stats }), 'utf8');
+}
+
+/**
+ * Creates a provider that loads a graph from a file instead of building one. The same
+ * graph is returned for every ref.
+ * @param filePath - Graph file, in any of GRAPH_FILE_FORMATS
+ * @param logger - Destination of progress messages
+ * @param fileFormat - Format of the file; detected from its contents when omitted
+ * @returns Graph provider backed by the file
+ */
+export function createGraphFileProvider(
+  filePath: string,
+  logger: Logger = core,
+  fileFormat?: GraphFileFormat
+): GraphProvider {
+  return {
+    name: 'graph-file',
+    async generateGraph(workspacePath: string): Promise<CodeGraph> {
+      const content = await fs.readFile(filePath, 'utf8');
+      const { format, graph } = parseGraphFile(content, { root: workspacePath, format: fileFormat });
+      logger.info(
+        `Loaded ${format} graph from ${path.relative(workspacePath, filePath) || filePath} with ` +
+        `${graph.nodes.length} nodes and ${graph.relationships.length} relationships`
+      );
+      return graph;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+
+/**
+ * A code graph in the shape returned by the Supermodel API.
+ */
+export interface CodeGraph {
+  nodes: CodeGraphNode[];
+  relationships: CodeGraphRelationship[];
+  /** Informational message returned alongside the graph, if any. */
+  message?: string;
+  /** Provider-specific statistics, logged in debug mode. */
+  stats?: unknown;
+}
+
+/**
+ * Receives progress messages, so the same code can log to the Actions runner or a terminal.
+ */
+export interface Logger {
+  info(message: string): void;
+  warning(message: string): void;
+}
+
+/**
+ * Produces the code graph of a repository at a given git ref.
+ */
+export interface GraphProvider {
+  /** Name used in logs and in the `graph-provider` input. */
+  name: string;
+  /**
+   * Builds the graph of the tree at `ref`.
+   * @param workspacePath - Root of the git checkout
+   * @param ref - Commit, branch or tag to analyze
+   */
+  generateGraph(workspacePath: string, ref: string): Promise<CodeGraph>;
+}
+
+/** Names accepted by the `graph-provider` input. */
+export const GRAPH_PROVIDER_NAMES = ['supermodel', 'local'] as const;
+
+export type GraphProviderName = typeof GRAPH_PROVIDER_NAMES[number];
+
+/**
+ * Validates a provider name from user input.
+ * @param value - Raw input value
+ * @returns The provider name
+ */
+export function parseGraphProviderName(value: string): GraphProviderName {
+  const name = (value || 'supermodel').trim().toLowerCase();
+  if (!(GRAPH_PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown graph provider "${value}". Expected one of: ${GRAPH_PROVIDER_NAMES.join(', ')}`);
+  }
+  return name as GraphProviderName;
+}
@@ -0,0 +1,115 @@
+import { CodeGraphNode } from '@supermodeltools/sdk';
+
+/**
+ * How the nodes and relationships of a code graph map to files and dependencies.
+ */
+export interface GraphSchema {
+  /** Profile name, shown in logs and diagnostics. */
+  name: string;
+  /** Labels of nodes that are files or modules. */
+  fileLabels: string[];
+  /**
+   * Relationship types that are dependencies, compared ignoring case and separators, so
+   * `DEPENDS_ON` matches `dependsOn`. When omitted, dependencies are guessed from the type name.
+   */
+  dependencyTypes?: string[];
+  /** Node properties holding the file path, tried in order; the node id is the last resort. */
+  pathProperties: string[];
+}
+
+/** Names of the built-in schema profiles. */
+export const GRAPH_SCHEMA_NAMES = ['auto', 'dependency', 'parse'] as const;
+
+export type GraphSchemaName = typeof GRAPH_SCHEMA_NAMES[number];
+
+/**
+ * Built-in profiles:
+ * - `auto` guesses dependencies from relationship type names, as earlier versions did
+ * - `dependency` reads the Supermodel dependency graph, where modules import each other
+ * - `parse` reads the Supermodel parse graph, whose symbol nodes carry the path of their file
+ */
+export const GRAPH_SCHEMAS: Record<GraphSchemaName, GraphSchema> = {
+  auto: {
+    name: 'auto',
+    fileLabels: ['File', 'Module'],
+    pathProperties: ['filePath', 'path', 'file', 'name'],
+  },
+  dependency: {
+    name: 'dependency',
+    fileLabels: ['File', 'Module'],
+    dependencyTypes: ['IMPORTS', 'DEPENDS_ON', 'REQUIRES', 'INCLUDES'],
+    pathProperties: ['filePath', 'path', 'file', 'name'],
+  },
+  parse: {
+    name: 'parse',
+    fileLabels: ['File'],
+    dependencyTypes: ['IMPORTS'],
+    // Symbol names are not paths, so `name` is left out.
+    pathProperties: ['filePath', 'path', 'file'],
+  },
+};
+
+/**
+ * Looks up a built-in schema profile.
+ * @param value - Profile name from user input; `auto` when empty
+ * @returns The profile
+ */
+export function parseGraphSchemaName(value: string): GraphSchema {
+  const name = (value || 'auto').trim().toLowerCase();
+  if (!(GRAPH_SCHEMA_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown graph schema "${value}". Expected one of: ${GRAPH_SCHEMA_NAMES.join(', ')}`);
+  }
+  return GRAPH_SCHEMAS[name as GraphSchemaName];
+}
+
+function normalizeType(type: string): string {
+  return type.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function guessDependencyType(type: string): boolean {
+  const lowered = type.toLowerCase();
+  if (lowered.includes('call')) {
+    return false;
+  }
+  const dependencyMarkers = ['import', 'depend', 'require', 'use', 'include', 'reference', 'module'];
+  return dependencyMarkers.some(marker => lowered.includes(marker));
+}
+
+/**
+ * Creates a check of relationship types against a schema.
+ * @param schema - Graph schema
+ * @returns Whether relationships of a type are dependencies
+ */
+export function createDependencyTypeMatcher(schema: GraphSchema): (type: string) => boolean {
+  if (!schema.dependencyTypes) {
+    return guessDependencyType;
+  }
+  const types = new Set(schema.dependencyTypes.map(normalizeType));
+  return type => types.has(normalizeType(type));
+}
+
+/**
+ * Checks whether a node is a file or module under a schema.
+ * @param node - Node of the code graph
+ * @param schema - Graph schema
+ * @returns True for file and module nodes
+ */
+export function isFileNode(node: CodeGraphNode, schema: GraphSchema = GRAPH_SCHEMAS.auto): boolean {
+  return !!node.labels?.some(label => schema.fileLabels.includes(label));
+}
+
+/**
+ * Reads the path of a node from the first path property of the schema it has.
+ * @param node - Node of the code graph
+ * @param schema - Graph schema
+ * @returns The path, or undefined when the node has none of the path properties
+ */
+export function readNodePath(node: CodeGraphNode, schema: GraphSchema = GRAPH_SCHEMAS.auto): string | undefined {
+  const props: Record<string, any> = node.properties || {};
+  for (const key of schema.pathProperties) {
+    if (typeof props[key] === 'string' && props[key]) {
+      return props[key];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,156 @@
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { DependencyEdgeRef, DependencyGraph, GroupCycleResult, GroupLink } from './circular-deps';
+import { Adjacency, CycleEnumerationOptions, findElementaryCycles } from './graph-algorithms';
+import { WorkspacePackage } from './module-resolver';
+
+/** Ways of collapsing files into groups. */
+export const GROUPING_MODES = ['package', 'directory', 'glob'] as const;
+
+export type GroupingMode = typeof GROUPING_MODES[number];
+
+/** Maps a file to its group, or undefined to leave the file out of the group graph. */
+export type FileGrouper = (filePath: string) => string | undefined;
+
+/**
+ * A file graph collapsed into groups.
+ */
+export interface GroupGraph {
+  adjacency: Adjacency;
+  /** File edges behind each group-to-group dependency, keyed by source then target group. */
+  links: Map<string, Map<string, DependencyEdgeRef[]>>;
+}
+
+/**
+ * Parses the `group-by` input.
+ * @param value - Raw input; empty disables grouping
+ * @returns The grouping mode, or undefined when grouping is disabled
+ */
+export function parseGroupingMode(value: string): GroupingMode | undefined {
+  const mode = (value || '').trim().toLowerCase();
+  if (!mode || mode === 'none') {
+    return undefined;
+  }
+  if (!(GROUPING_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown grouping "${value}". Expected one of: none, ${GROUPING_MODES.join(', ')}`);
+  }
+  return mode as GroupingMode;
+}
+
+/**
+ * Groups files by the workspace package that contains them. Nested packages win over
+ * their parents; files outside every package are left out.
+ * @param packages - Packages of the repository, as returned by findWorkspacePackages
+ * @returns Grouper naming each file's package
+ */
+export function groupByPackage(packages: WorkspacePackage[]): FileGrouper {
+  const byDepth = [...packages].sort((left, right) => right.dir.length - left.dir.length);
+  return filePath => byDepth.find(pkg => !pkg.dir || filePath.startsWith(`${pkg.dir}/`))?.name;
+}
+
+/**
+ * Groups files by their directory, truncated to a number of path segments.
+ * Files shallower than the depth are grouped by their own directory, and files at the
+ * repository root by `.`.
+ * @param depth - Number of leading directory segments that name a group
+ * @returns Grouper naming each file's directory
+ */
+export function groupByDirectory(depth: number): FileGrouper {
+  const segments = Math.max(1, depth);
+  return filePath => {
+    const dir = path.posix.dirname(filePath);
+    return dir === '.' ? '.' : dir.split('/').slice(0, segments).join('/');
+  };
+}
+
+/**
+ * Groups files by user-defined glob patterns. The first matching pattern wins; files
+ * matching no pattern are left out.
+ * @param patterns - Group names keyed by glob pattern
+ * @returns Grouper naming each file's group
+ */
+export function groupByPatterns(patterns: Record<string, string>): FileGrouper {
+  const entries = Object.entries(patterns);
+  return filePath => entries.find(([pattern]) => minimatch(filePath, pattern))?.[1];
+}
+
+/**
+ * Parses the `groups` input, a JSON object mapping glob patterns to group names.
+ * @param value - Raw JSON content
+ * @returns Group names keyed by glob pattern
+ */
+export function parseGroupPatterns(value: string): Record<string, string> {
+  const parsed = JSON.parse(value || '{}');
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid groups: expected a JSON object mapping glob patterns to group names');
+  }
+  for (const [pattern, group] of Object.entries(parsed)) {
+    if (typeof group !== 'string' || !group) {
+      throw new Error(`Invalid groups: pattern "${pattern}" must map to a non-empty group name`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Collapses the file graph into groups. Edges inside a group are dropped; every other
+ * edge becomes a group dependency that remembers the file edges behind it.
+ * @param graph - File-level dependency graph
+ * @param grouper - Maps files to groups
+ * @returns Group graph with the file edges behind each group dependency
+ */
+export function collapseGraph(graph: DependencyGraph, grouper: FileGrouper): GroupGraph {
+  const adjacency: Adjacency = new Map();
+  const links = new Map<string, Map<string, DependencyEdgeRef[]>>();
+
+  const sources = Array.from(graph.adjacency.keys()).sort();
+  for (const from of sources) {
+    const fromGroup = grouper(from);
+    if (fromGroup === undefined) {
+      continue;
+    }
+    for (const to of Array.from(graph.adjacency.get(from)!).sort()) {
+      const toGroup = grouper(to);
+      if (toGroup === undefined || toGroup === fromGroup) {
+        continue;
+      }
+      if (!adjacency.has(fromGroup)) {
+        adjacency.set(fromGroup, new Set<string>());
+        links.set(fromGroup, new Map());
+      }
+      adjacency.get(fromGroup)!.add(toGroup);
+      const targets = links.get(fromGroup)!;
+      if (!targets.has(toGroup)) {
+        targets.set(toGroup, []);
+      }
+      targets.get(toGroup)!.push({ from, to });
+    }
+  }
+
+  return { adjacency, links };
+}
+
+/**
+ * Finds cycles between groups of files.
+ * @param graph - File-level dependency graph
+ * @param grouper - Maps files to groups
+ * @param options - Caps on cycle length and count
+ * @returns Group cycles, each with the file edges behind every hop
+ */
+export function findGroupCycles(
+  graph: DependencyGraph,
+  grouper: FileGrouper,
+  options: CycleEnumerationOptions = {}
+): GroupCycleResult[] {
+  const { adjacency, links } = collapseGraph(graph, grouper);
+
+  return findElementaryCycles(adjacency, options).cycles
+    .map(cycle => {
+      const hops: GroupLink[] = cycle.map((from, index) => {
+        const to = cycle[(index + 1) % cycle.length];
+        return { from, to, edges: links.get(from)!.get(to)! };
+      });
+      return { id: cycle.join('->'), cycle, length: cycle.length, links: hops };
+    })
+    .sort((left, right) => (left.id < right.id ? -1 : left.id > right.id ? 1 : 0));
+}
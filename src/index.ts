@@ -1,177 +1,401 @@
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
 import * as github from '@actions/github';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { CodeGraphNode, CodeGraphRelationship, Configuration, DefaultApi } from '@supermodeltools/sdk';
-import { findCircularDependencies, formatPrComment } from './circular-deps';
-
-async function createZipArchive(workspacePath: string): Promise<string> {
-  const zipPath = path.join(workspacePath, '.circular-dependency-hunter-repo.zip');
-
-  core.info('Creating zip archive...');
-
-  await exec.exec('git', ['archive', '-o', zipPath, 'HEAD'], {
-    cwd: workspacePath,
-  });
-
-  const stats = await fs.stat(zipPath);
-  core.info(`Archive size: ${stats.size} bytes (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
-
-  return zipPath;
-}
-
-async function generateIdempotencyKey(workspacePath: string): Promise<string> {
-  let output = '';
-  await exec.exec('git', ['rev-parse', '--short', 'HEAD'], {
-    cwd: workspacePath,
-    listeners: {
-      stdout: (data: Buffer) => {
-        output += data.toString();
-      },
-    },
-    silent: true,
-  });
-
-  const commitHash = output.trim();
-  const repoName = path.basename(workspacePath);
-
-  return `${repoName}:supermodel:${commitHash}`;
+import { createFixPatch } from './autofix';
+import { DEFAULT_BASELINE_PATH } from './baseline';
+import {
+  CheckConclusion,
+  MAX_SUMMARY_LENGTH,
+  createCycleAnnotations,
+  createViolationAnnotations,
+  listChangedFiles,
+  publishCheckRun,
+} from './check-run';
+import {
+  EDGE_KINDS,
+  MAX_COMMENT_LENGTH,
+  PrCommentOptions,
+  formatPrComment,
+  parseEdgeKinds,
+  summarizeOwners,
+} from './circular-deps';
+import { requestOwnerReviews } from './codeowners';
+import { loadConfig } from './config';
+import { formatDiagramSection, renderCyclicSubgraphDot } from './diagrams';
+import { writeDiagnostics } from './graph-diagnostics';
+import { parseGraphFileFormat, writeGraphFile } from './graph-file';
+import { parseGraphProviderName } from './graph-provider';
+import { parseGraphSchemaName } from './graph-schema';
+import { parseGroupPatterns, parseGroupingMode } from './grouping';
+import { DependencyMetrics, computeMetrics, formatMetricsSummary, loadMetrics, mergeHistory, writeMetrics } from './metrics';
+import { analyze, createProvider } from './pipeline';
+import { createFixSuggestions, listDiffLines, postFixSuggestions } from './review-suggestions';
+import { createSarifReport, writeSarifReport } from './sarif';
+import { SupermodelApiError } from './supermodel-client';
+import { embedCommentState, findStickyComment, upsertStickyComment } from './sticky-comment';
+
+function getCountInput(name: string, fallback: number): number {
+  const value = core.getInput(name).trim();
+  if (!value) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Input ${name} must be a non-negative integer, got "${value}"`);
+  }
+  return count;
 }
 
 async function run(): Promise<void> {
   try {
-    const apiKey = core.getInput('supermodel-api-key', { required: true }).trim();
-
-    if (!apiKey.startsWith('smsk_')) {
-      core.warning('API key format looks incorrect. Get your key at https://dashboard.supermodeltools.com');
-    }
-
+    const workspacePath = process.env.GITHUB_WORKSPACE || process.cwd();
+    const cacheDir = core.getInput('cache-dir');
+    const cacheDirectory = cacheDir ? path.resolve(workspacePath, cacheDir) : undefined;
+    const graphFile = core.getInput('graph-file');
+    const saveGraphFile = core.getInput('save-graph-file');
+    const provider = createProvider(
+      parseGraphProviderName(core.getInput('graph-provider')),
+      core.getInput('supermodel-api-key').trim(),
+      core,
+      {
+        cacheDirectory,
+        apiTimeoutMs: getCountInput('api-timeout', 900) * 1000,
+        maxArchiveBytes: getCountInput('max-archive-size', 100) * 1024 * 1024,
+        graphFile: graphFile ? path.resolve(workspacePath, graphFile) : undefined,
+        graphFormat: parseGraphFileFormat(core.getInput('graph-format')),
+      }
+    );
+    const githubToken = core.getInput('github-token') || process.env.GITHUB_TOKEN;
     const commentOnPr = core.getBooleanInput('comment-on-pr');
     const failOnCircularDeps = core.getBooleanInput('fail-on-circular-deps');
-    const ignorePatterns = JSON.parse(core.getInput('ignore-patterns') || '[]');
-    const debug = core.getBooleanInput('debug');
-
-    const workspacePath = process.env.GITHUB_WORKSPACE || process.cwd();
+    const compareToBase = core.getBooleanInput('compare-to-base');
+    const baselineFile = core.getInput('baseline-file') || DEFAULT_BASELINE_PATH;
+    const updateBaseline = core.getBooleanInput('update-baseline');
+    const sarifFile = core.getInput('sarif-file');
+    const renderDiagrams = core.getBooleanInput('diagrams');
+    const graphvizFile = core.getInput('graphviz-file');
+    const createCheckRun = core.getBooleanInput('create-check-run');
+    const checkName = core.getInput('check-name') || 'Circular dependencies';
+    const groupingMode = parseGroupingMode(core.getInput('group-by'));
+    const jobSummary = core.getBooleanInput('job-summary');
+    const metricsFile = core.getInput('metrics-file');
+    const graphSchema = core.getInput('graph-schema');
+    const diagnosticsFile = core.getInput('diagnostics-file');
+    const suggestFixes = core.getBooleanInput('suggest-fixes');
+    const fixPatchFile = core.getInput('fix-patch-file');
+    const codeownersFile = core.getInput('codeowners-file');
+    const mentionOwners = core.getBooleanInput('mention-owners');
+    const requestOwnerReview = core.getBooleanInput('request-owner-review');
 
     core.info('Circular Dependency Hunter starting...');
 
-    // Step 1: Create zip archive
-    const zipPath = await createZipArchive(workspacePath);
-
-    // Step 2: Generate idempotency key
-    const baseIdempotencyKey = await generateIdempotencyKey(workspacePath);
+    const loadedConfig = await loadConfig(workspacePath, core.getInput('config-file') || undefined);
+    if (loadedConfig) {
+      core.info(`Using config file ${loadedConfig.file}`);
+    }
 
-    // Step 3: Call Supermodel API
-    core.info('Analyzing codebase with Supermodel...');
+    const baseSha: string | undefined = github.context.payload.pull_request?.base?.sha;
+    if (compareToBase && !baseSha) {
+      core.warning('compare-to-base requires a pull_request event, analyzing HEAD only');
+    }
+    if (compareToBase && graphFile) {
+      core.warning('compare-to-base is ignored with graph-file, which only holds one graph');
+    }
 
-    const config = new Configuration({
-      basePath: process.env.SUPERMODEL_BASE_URL || 'https://api.supermodeltools.com',
-      apiKey: apiKey,
+    const {
+      codeGraph,
+      graph,
+      diagnostics,
+      cycles,
+      breakRecommendations,
+      tangles,
+      groupCycles,
+      comparison,
+      baseline,
+      allowances,
+      reportedCycles,
+      failingCycles,
+      codeownersFile: loadedCodeowners,
+      fixes,
+      violations,
+      reportedViolations,
+    } = await analyze({
+      workspacePath,
+      provider,
+      baseRef: compareToBase && !graphFile ? baseSha : undefined,
+      baselineFile,
+      updateBaseline,
+      ignorePatterns: JSON.parse(core.getInput('ignore-patterns') || '[]'),
+      failingKinds: parseEdgeKinds(JSON.parse(core.getInput('failing-cycle-kinds') || JSON.stringify(EDGE_KINDS))),
+      detection: {
+        enumerateAllCycles: core.getBooleanInput('enumerate-all-cycles'),
+        maxCycleLength: getCountInput('max-cycle-length', 0),
+        maxCycles: getCountInput('max-cycles', 0),
+      },
+      grouping: groupingMode && {
+        mode: groupingMode,
+        depth: getCountInput('group-depth', 1),
+        patterns: parseGroupPatterns(core.getInput('groups')),
+      },
+      config: loadedConfig?.config,
+      cacheDirectory,
+      schema: graphSchema ? parseGraphSchemaName(graphSchema) : undefined,
+      findFixes: suggestFixes || !!fixPatchFile,
+      codeownersFile: codeownersFile || undefined,
+      debug: core.getBooleanInput('debug'),
     });
 
-    const api = new DefaultApi(config);
+    // Step 3: Set outputs
+    core.setOutput('circular-dependency-count', cycles.length);
+    core.setOutput('circular-dependency-json', JSON.stringify(cycles));
+    core.setOutput('break-recommendations-json', JSON.stringify(breakRecommendations));
+    core.setOutput('hazardous-cycle-count', cycles.filter(cycle => cycle.initOrder === 'hazardous').length);
+    core.setOutput('tangle-count', tangles.length);
+    core.setOutput('tangles-json', JSON.stringify(tangles));
+    if (groupingMode) {
+      core.setOutput('group-cycle-count', groupCycles.length);
+      core.setOutput('group-cycles-json', JSON.stringify(groupCycles));
+    }
+    if (comparison || baseline) {
+      core.setOutput('new-circular-dependency-count', failingCycles.length);
+    }
+    if (loadedConfig && (loadedConfig.config.layers.length > 0 || loadedConfig.config.forbidden.length > 0)) {
+      core.setOutput('rule-violation-count', reportedViolations.length);
+      core.setOutput('rule-violations-json', JSON.stringify(violations));
+    }
+    if (comparison) {
+      core.setOutput('fixed-circular-dependency-count', comparison.fixed.length);
+    }
+    if (baseline) {
+      core.setOutput('removable-baseline-json', JSON.stringify(baseline.removable));
+    }
 
-    const zipBuffer = await fs.readFile(zipPath);
-    const zipBlob = new Blob([zipBuffer], { type: 'application/zip' });
+    if (loadedCodeowners) {
+      core.setOutput('cross-team-cycle-count', cycles.filter(cycle => cycle.crossTeam).length);
+      core.setOutput('owner-breakdown-json', JSON.stringify(summarizeOwners(cycles)));
+    } else if (mentionOwners || requestOwnerReview) {
+      core.warning('No CODEOWNERS file found, the owners of cycles are not notified');
+    }
 
-    let response: any = await api.generateDependencyGraph({
-      idempotencyKey: `${baseIdempotencyKey}:dep`,
-      file: zipBlob,
-    });
+    if (suggestFixes || fixPatchFile) {
+      core.setOutput('fix-count', fixes.length);
+      core.setOutput('fixes-json', JSON.stringify(fixes));
+    }
+    if (fixPatchFile) {
+      const patchPath = path.resolve(workspacePath, fixPatchFile);
+      await fs.mkdir(path.dirname(patchPath), { recursive: true });
+      await fs.writeFile(patchPath, await createFixPatch(workspacePath, 'HEAD', fixes), 'utf8');
+      core.setOutput('fix-patch-file', fixPatchFile);
+      core.info(`Wrote ${fixes.length} fix(es) to ${fixPatchFile}`);
+    }
 
-    if (!response?.graph || ((response.graph.nodes?.length ?? 0) === 0 && (response.graph.relationships?.length ?? 0) === 0)) {
-      core.warning('Dependency graph empty, falling back to parse graph');
-      response = await api.generateParseGraph({
-        idempotencyKey: `${baseIdempotencyKey}:parse`,
-        file: zipBlob,
-      });
+    if (diagnosticsFile) {
+      await writeDiagnostics(path.resolve(workspacePath, diagnosticsFile), diagnostics);
+      core.setOutput('diagnostics-file', diagnosticsFile);
     }
 
-    // Step 4: Analyze for circular dependencies
-    const nodes: CodeGraphNode[] = response.graph?.nodes || [];
-    const relationships: CodeGraphRelationship[] = response.graph?.relationships || [];
+    if (saveGraphFile) {
+      await writeGraphFile(path.resolve(workspacePath, saveGraphFile), codeGraph);
+      core.setOutput('saved-graph-file', saveGraphFile);
+      core.info(`Saved the graph to ${saveGraphFile}`);
+    }
 
-    if (debug) {
-      const message = (response as any)?.message;
-      const stats = (response as any)?.stats;
-      if (message) {
-        core.info(`Graph message: ${message}`);
-      }
-      if (stats) {
-        core.info(`Graph stats: ${JSON.stringify(stats)}`);
+    const headSha: string = github.context.payload.pull_request?.head?.sha || github.context.sha;
+    let metrics: DependencyMetrics = computeMetrics(graph, cycles, tangles, { commit: headSha });
+    if (metricsFile) {
+      const metricsPath = path.resolve(workspacePath, metricsFile);
+      let previous: DependencyMetrics | undefined;
+      try {
+        previous = await loadMetrics(metricsPath);
+      } catch (error: any) {
+        core.warning(`Starting a new metrics history, could not read ${metricsFile}: ${error.message}`);
       }
-      const sampleNodes = nodes.slice(0, 10).map(node => ({
-        id: node.id,
-        labels: node.labels,
-        properties: node.properties,
-      }));
-      const sampleRelationships = relationships.slice(0, 10).map(rel => ({
-        type: rel.type,
-        startNode: rel.startNode,
-        endNode: rel.endNode,
-      }));
-      core.info(`Sample nodes: ${JSON.stringify(sampleNodes, null, 2)}`);
-      core.info(`Sample relationships: ${JSON.stringify(sampleRelationships, null, 2)}`);
-      const relationshipTypes = Array.from(
-        new Set(relationships.map(rel => rel.type).filter(Boolean))
-      ).sort();
-      core.info(`Graph nodes: ${nodes.length}`);
-      core.info(`Graph relationships: ${relationships.length}`);
-      core.info(`Relationship types: ${relationshipTypes.join(', ') || 'none'}`);
-      const sampleEdges = relationships.slice(0, 20).map(rel => ({
-        type: rel.type,
-        startNode: rel.startNode,
-        endNode: rel.endNode,
+      metrics = mergeHistory(metrics, previous);
+      await writeMetrics(metricsPath, metrics);
+      core.setOutput('metrics-file', metricsFile);
+      core.info(`Wrote metrics with ${metrics.history.length} run(s) of history to ${metricsFile}`);
+    }
+    core.setOutput('health-score', metrics.healthScore);
+
+    if (sarifFile) {
+      const allowedIds = new Set(allowances.map(allowance => allowance.id));
+      const sarifCycles = cycles.filter(cycle => !allowedIds.has(cycle.id));
+      await writeSarifReport(path.resolve(workspacePath, sarifFile), createSarifReport(sarifCycles, {
+        toolVersion: process.env.GITHUB_ACTION_REF || undefined,
+        violations: loadedConfig ? violations : undefined,
       }));
-      core.info(`Sample edges: ${JSON.stringify(sampleEdges, null, 2)}`);
+      core.setOutput('sarif-file', sarifFile);
+      core.info(`Wrote SARIF report with ${sarifCycles.length} result(s) to ${sarifFile}`);
     }
 
-    const cycles = findCircularDependencies(nodes, relationships, ignorePatterns);
-
-    core.info(`Found ${cycles.length} circular dependenc${cycles.length === 1 ? 'y' : 'ies'}`);
-
-    // Step 5: Set outputs
-    core.setOutput('circular-dependency-count', cycles.length);
-    core.setOutput('circular-dependency-json', JSON.stringify(cycles));
+    if (graphvizFile) {
+      const dotPath = path.resolve(workspacePath, graphvizFile);
+      await fs.mkdir(path.dirname(dotPath), { recursive: true });
+      await fs.writeFile(dotPath, renderCyclicSubgraphDot(graph, tangles, breakRecommendations.edges), 'utf8');
+      core.setOutput('graphviz-file', graphvizFile);
+      core.info(`Wrote Graphviz diagram of ${tangles.length} tangle(s) to ${graphvizFile}`);
+    }
 
-    // Step 6: Post PR comment if enabled
+    const diagrams = renderDiagrams
+      ? formatDiagramSection(cycles, tangles, graph, breakRecommendations.edges)
+      : undefined;
+    const repoUrl = `${github.context.serverUrl}/${github.context.repo.owner}/${github.context.repo.repo}`;
+    const reportOptions: PrCommentOptions = {
+      comparison,
+      baseline,
+      tangles,
+      groupCycles,
+      breakRecommendations,
+      diagrams,
+      allowances,
+      violations: reportedViolations,
+      fixes,
+      sourceUrl: `${repoUrl}/blob/${headSha}`,
+      baseSourceUrl: baseSha ? `${repoUrl}/blob/${baseSha}` : undefined,
+    };
+
+    // Step 4: Post PR comment if enabled
     if (commentOnPr && github.context.payload.pull_request) {
-      const token = process.env.GITHUB_TOKEN;
-      if (token) {
-        const octokit = github.getOctokit(token);
-        const comment = formatPrComment(cycles);
-
-        await octokit.rest.issues.createComment({
+      if (githubToken) {
+        const octokit = github.getOctokit(githubToken);
+        const target = {
           owner: github.context.repo.owner,
           repo: github.context.repo.repo,
-          issue_number: github.context.payload.pull_request.number,
-          body: comment,
+          issueNumber: github.context.payload.pull_request.number,
+        };
+        const previous = await findStickyComment(octokit, target);
+        const cycleIds = reportedCycles.map(cycle => cycle.id);
+        const comment = formatPrComment(cycles, {
+          ...reportOptions,
+          previousCycleIds: previous ? previous.cycleIds ?? [] : undefined,
+          mentionOwners,
+          maxLength: MAX_COMMENT_LENGTH - embedCommentState('', cycleIds).length,
         });
+        const body = embedCommentState(comment, cycleIds);
+
+        const action = await upsertStickyComment(octokit, target, body, previous);
+        core.info(action === 'updated' ? 'Updated findings on PR' : 'Posted findings to PR');
+      } else {
+        core.warning('No GitHub token available, skipping PR comment');
+      }
+    }
+
+    // Step 4a: Suggest the mechanical fixes on the lines the PR changed
+    if (suggestFixes && github.context.payload.pull_request) {
+      if (githubToken) {
+        const octokit = github.getOctokit(githubToken);
+        const { owner, repo } = github.context.repo;
+        const pullNumber = github.context.payload.pull_request.number;
+        try {
+          const suggestions = createFixSuggestions(fixes, await listDiffLines(octokit, owner, repo, pullNumber));
+          const posted = await postFixSuggestions(octokit, { owner, repo, pullNumber, commitId: headSha }, suggestions);
+          core.info(
+            `Posted ${posted} of ${suggestions.length} suggested change(s) on the PR diff; ` +
+            `${suggestions.length - posted} were posted earlier`
+          );
+        } catch (error: any) {
+          // GitHub rejects the whole review when a comment does not resolve to a line of the diff.
+          core.warning(`Could not suggest the fixes on the PR diff: ${error.message}`);
+        }
+      } else {
+        core.warning('No GitHub token available, skipping fix suggestions');
+      }
+    }
 
-        core.info('Posted findings to PR');
+    // Step 4b: Ask the owners of the reported cycles to review the PR
+    if (requestOwnerReview && loadedCodeowners && github.context.payload.pull_request && reportedCycles.length > 0) {
+      if (githubToken) {
+        const { owner, repo } = github.context.repo;
+        const pullRequest = github.context.payload.pull_request;
+        const owners = summarizeOwners(reportedCycles).map(entry => entry.owner);
+        try {
+          const { reviewers, teamReviewers } = await requestOwnerReviews(
+            github.getOctokit(githubToken),
+            { owner, repo, pullNumber: pullRequest.number, author: pullRequest.user?.login },
+            owners
+          );
+          core.info(`Requested reviews from ${reviewers.length} user(s) and ${teamReviewers.length} team(s)`);
+        } catch (error: any) {
+          // Teams need a token that can read the organization, and only collaborators can review.
+          core.warning(`Could not request reviews from the owners of the cycles: ${error.message}`);
+        }
       } else {
-        core.warning('GITHUB_TOKEN not available, skipping PR comment');
+        core.warning('No GitHub token available, skipping owner review requests');
       }
     }
 
-    // Step 7: Clean up
-    await fs.unlink(zipPath);
+    // Step 4c: Publish a check run annotating the import lines of each cycle
+    if (createCheckRun) {
+      if (githubToken) {
+        const octokit = github.getOctokit(githubToken);
+        const { owner, repo } = github.context.repo;
+        const pullRequest = github.context.payload.pull_request;
+        const changedFiles = pullRequest ? await listChangedFiles(octokit, owner, repo, pullRequest.number) : undefined;
+        const failingCount = failingCycles.length + reportedViolations.length;
+        const conclusion: CheckConclusion = updateBaseline ? 'neutral' : failingCount > 0 ? 'failure' : 'success';
+        const annotations = [
+          ...createCycleAnnotations(reportedCycles, new Set(failingCycles.map(cycle => cycle.id)), changedFiles),
+          ...createViolationAnnotations(reportedViolations, changedFiles),
+        ];
+
+        const checkRunId = await publishCheckRun(octokit, {
+          owner,
+          repo,
+          headSha,
+          name: checkName,
+          conclusion,
+          title: failingCount > 0
+            ? [
+              failingCycles.length > 0 &&
+                `${failingCycles.length} circular dependenc${failingCycles.length === 1 ? 'y' : 'ies'}`,
+              reportedViolations.length > 0 &&
+                `${reportedViolations.length} architecture violation${reportedViolations.length === 1 ? '' : 's'}`,
+            ].filter(Boolean).join(', ')
+            : 'No failing circular dependencies',
+          summary: formatPrComment(cycles, { ...reportOptions, maxLength: MAX_SUMMARY_LENGTH }),
+          annotations,
+        });
+        core.setOutput('check-run-id', checkRunId);
+        core.info(`Published check run "${checkName}" (${conclusion}) with ${annotations.length} annotation(s)`);
+      } else {
+        core.warning('No GitHub token available, skipping check run');
+      }
+    }
 
-    // Step 8: Fail if configured and circular dependencies found
-    if (cycles.length > 0 && failOnCircularDeps) {
-      core.setFailed(`Found ${cycles.length} circular dependenc${cycles.length === 1 ? 'y' : 'ies'}`);
+    // Step 4d: Render the report in the job summary
+    if (jobSummary && process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary
+        .addRaw(formatMetricsSummary(metrics), true)
+        .addEOL()
+        .addRaw(formatPrComment(cycles, reportOptions))
+        .write();
     }
 
-  } catch (error: any) {
-    if (error.response) {
-      const status = error.response.status;
-      if (status === 401) {
-        core.error('Invalid API key. Get your key at https://dashboard.supermodeltools.com');
+    // Step 5: Fail if configured and circular dependencies found
+    const failingCount = failingCycles.length;
+    if (failingCount > 0 && failOnCircularDeps && !updateBaseline) {
+      if (comparison) {
+        core.setFailed(`This PR introduces ${failingCount} new circular dependenc${failingCount === 1 ? 'y' : 'ies'}`);
+      } else if (baseline) {
+        core.setFailed(`Found ${failingCount} circular dependenc${failingCount === 1 ? 'y' : 'ies'} not in ${baselineFile}`);
       } else {
-        core.error(`API error (${status})`);
+        core.setFailed(`Found ${failingCount} circular dependenc${failingCount === 1 ? 'y' : 'ies'}`);
       }
     }
+    const violationCount = reportedViolations.length;
+    if (violationCount > 0 && failOnCircularDeps && !updateBaseline) {
+      core.setFailed(
+        `${comparison ? 'This PR introduces' : 'Found'} ${violationCount} ` +
+        `architecture rule violation${violationCount === 1 ? '' : 's'}`
+      );
+    }
+
+  } catch (error: any) {
+    if (error instanceof SupermodelApiError) {
+      const { code, status, requestId, attempts } = error;
+      core.error(`Supermodel API error: ${JSON.stringify({ code, status, requestId, attempts })}`);
+    }
 
     if (error instanceof Error) {
       core.setFailed(error.message);
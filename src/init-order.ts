@@ -0,0 +1,293 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { BindingUsage, CircularDependencyResult, CycleEdge, InitOrderHazard } from './circular-deps';
+import { readTreeFiles } from './git-tree';
+import { getScriptKind, resolveRelativeImport } from './local-graph';
+import { SOURCE_EXTENSIONS } from './module-resolver';
+
+/**
+ * An imported binding used while its module initializes, rather than only inside functions.
+ */
+export interface EvaluationTimeUse {
+  /** Local name of the binding, with the accessed member for namespace imports, e.g. `models.User`. */
+  binding: string;
+  /** Specifier of the import declaring the binding. */
+  specifier: string;
+  /** 1-based line of the import. */
+  importLine: number;
+  /** 1-based line of the use. */
+  line: number;
+  usage: BindingUsage;
+}
+
+interface ImportedBinding {
+  specifier: string;
+  importLine: number;
+  /** `import * as x` and `import x = require()`, whose members are reported with the binding. */
+  namespace: boolean;
+}
+
+function getLine(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+function collectImportedBindings(sourceFile: ts.SourceFile): Map<string, ImportedBinding> {
+  const bindings = new Map<string, ImportedBinding>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteralLike(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      if (!clause || clause.isTypeOnly) {
+        continue;
+      }
+      const add = (name: ts.Identifier, namespace: boolean) => bindings.set(name.text, {
+        specifier: (statement.moduleSpecifier as ts.StringLiteralLike).text,
+        importLine: getLine(sourceFile, statement.moduleSpecifier),
+        namespace,
+      });
+      if (clause.name) {
+        add(clause.name, false);
+      }
+      if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        add(clause.namedBindings.name, true);
+      } else if (clause.namedBindings) {
+        clause.namedBindings.elements.filter(element => !element.isTypeOnly).forEach(element => add(element.name, false));
+      }
+    } else if (
+      ts.isImportEqualsDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      ts.isExternalModuleReference(statement.moduleReference) &&
+      ts.isStringLiteralLike(statement.moduleReference.expression)
+    ) {
+      bindings.set(statement.name.text, {
+        specifier: statement.moduleReference.expression.text,
+        importLine: getLine(sourceFile, statement.moduleReference.expression),
+        namespace: true,
+      });
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Tells whether an identifier reads a binding, rather than naming a member, a property key
+ * or a declaration that happens to share the binding's name.
+ * @param node - Identifier
+ * @returns True for references
+ */
+export function isBindingReference(node: ts.Identifier): boolean {
+  const parent = node.parent as ts.Node & { name?: ts.Node; propertyName?: ts.Node };
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return true;
+  }
+  // Member names, property keys and declared names merely spell the binding's name.
+  return parent.name !== node && parent.propertyName !== node;
+}
+
+function isFunctionLike(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node);
+}
+
+function isAmbient(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword);
+}
+
+function isStatic(node: ts.PropertyDeclaration): boolean {
+  return !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword);
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Lists the imported bindings a TypeScript or JavaScript module uses while it is evaluated:
+ * in class `extends` clauses, decorators, top-level and static initializers, and any other
+ * top-level code. Uses inside functions, methods and instance fields are deferred until
+ * called and are not listed. Covers ESM imports and `import x = require()`; type-only
+ * imports and uses in type positions are skipped, and calls into local functions are not followed.
+ * @param fileName - File name, used to pick the TS/JS/JSX dialect
+ * @param source - File contents
+ * @returns Uses in source order, one per binding, usage and line
+ */
+export function findEvaluationTimeUses(fileName: string, source: string): EvaluationTimeUse[] {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+  const bindings = collectImportedBindings(sourceFile);
+  const uses: EvaluationTimeUse[] = [];
+  const seen = new Set<string>();
+  if (bindings.size === 0) {
+    return uses;
+  }
+
+  const record = (node: ts.Identifier, usage: BindingUsage) => {
+    const { specifier, importLine, namespace } = bindings.get(node.text)!;
+    const member = namespace && ts.isPropertyAccessExpression(node.parent) && node.parent.expression === node
+      ? `.${node.parent.name.text}`
+      : '';
+    const use = { binding: `${node.text}${member}`, specifier, importLine, line: getLine(sourceFile, node), usage };
+    const key = `${use.binding}\u0000${use.line}\u0000${usage}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      uses.push(use);
+    }
+  };
+
+  const visit = (node: ts.Node, usage: BindingUsage): void => {
+    if (
+      ts.isImportDeclaration(node) ||
+      ts.isImportEqualsDeclaration(node) ||
+      // `export { x }` forwards the live binding without reading it.
+      ts.isExportDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      isAmbient(node)
+    ) {
+      return;
+    }
+    if (ts.isDecorator(node)) {
+      ts.forEachChild(node, child => visit(child, 'decorator'));
+      return;
+    }
+    if (ts.isHeritageClause(node)) {
+      // `implements` and interface `extends` clauses are types.
+      if (node.token === ts.SyntaxKind.ExtendsKeyword && ts.isClassLike(node.parent)) {
+        node.types.forEach(type => visit(type.expression, 'extends'));
+      }
+      return;
+    }
+    if (ts.isTypeNode(node)) {
+      return;
+    }
+    if (isFunctionLike(node)) {
+      // Only decorators and computed names run when a function or method is defined.
+      ts.forEachChild(node, child => {
+        if (ts.isDecorator(child) || ts.isComputedPropertyName(child)) {
+          visit(child, usage);
+        } else if (ts.isParameter(child)) {
+          ts.getDecorators(child)?.forEach(decorator => visit(decorator, usage));
+        }
+      });
+      return;
+    }
+    if (ts.isPropertyDeclaration(node)) {
+      // Instance fields initialize with each instance, static fields with the class.
+      ts.forEachChild(node, child => {
+        if (child !== node.initializer) {
+          visit(child, usage);
+        } else if (isStatic(node)) {
+          visit(child, 'initializer');
+        }
+      });
+      return;
+    }
+    if (ts.isCallExpression(node)) {
+      const callee = skipParentheses(node.expression);
+      if (ts.isFunctionExpression(callee) || ts.isArrowFunction(callee)) {
+        // Immediately invoked functions run with the module.
+        visit(callee.body, usage);
+        node.arguments.forEach(argument => visit(argument, usage));
+        return;
+      }
+    }
+    if (ts.isVariableDeclaration(node) || ts.isEnumMember(node) || ts.isExportAssignment(node)) {
+      ts.forEachChild(node, child => visit(child, usage === 'statement' ? 'initializer' : usage));
+      return;
+    }
+    if (ts.isIdentifier(node)) {
+      if (bindings.has(node.text) && isBindingReference(node)) {
+        record(node, usage);
+      }
+      return;
+    }
+    ts.forEachChild(node, child => visit(child, usage));
+  };
+
+  sourceFile.statements.forEach(statement => visit(statement, 'statement'));
+  return uses;
+}
+
+function importsTarget(use: EvaluationTimeUse, edge: CycleEdge, files: Set<string>): boolean {
+  const sites = edge.imports.filter(site => site.specifier !== undefined || site.line !== undefined);
+  if (sites.length > 0) {
+    return sites.some(site => (site.specifier !== undefined ? site.specifier === use.specifier : site.line === use.importLine));
+  }
+  // Graphs without import sites: resolve relative specifiers among the files of the cycle.
+  return resolveRelativeImport(use.specifier, edge.from, files) === edge.to;
+}
+
+function isScriptFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.posix.extname(filePath)) && !/\.d\.[cm]?ts$/.test(filePath);
+}
+
+function isRuntimeCycle(cycle: CircularDependencyResult): boolean {
+  return (cycle.kind ?? 'runtime') === 'runtime';
+}
+
+/**
+ * Ranks runtime cycles by whether a module uses a binding of the next module of the cycle
+ * while it initializes. Whichever module of such a cycle loads first, the module importing it
+ * back runs before it has finished, so the binding is `undefined` or throws a ReferenceError.
+ * @param cycles - Detected cycles, with edges attached
+ * @param sources - Contents of the files of the cycles, keyed by path
+ * @returns Copies of the runtime cycles with `initOrder` and `hazards` set; other cycles and
+ *   cycles with unread or non-script files are returned unchanged
+ */
+export function analyzeInitOrder(
+  cycles: CircularDependencyResult[],
+  sources: Map<string, string>
+): CircularDependencyResult[] {
+  const usesByFile = new Map<string, EvaluationTimeUse[]>();
+  const getUses = (filePath: string) => {
+    if (!usesByFile.has(filePath)) {
+      usesByFile.set(filePath, findEvaluationTimeUses(filePath, sources.get(filePath)!));
+    }
+    return usesByFile.get(filePath)!;
+  };
+
+  return cycles.map(cycle => {
+    if (!isRuntimeCycle(cycle) || !cycle.cycle.every(file => isScriptFile(file) && sources.has(file))) {
+      return cycle;
+    }
+    const files = new Set(cycle.cycle);
+    const hazards: InitOrderHazard[] = [];
+    cycle.cycle.forEach((from, index) => {
+      const to = cycle.cycle[(index + 1) % cycle.cycle.length];
+      const edge = cycle.edges?.[index] ?? { from, to, kind: 'runtime', imports: [] };
+      for (const use of getUses(from)) {
+        if (importsTarget(use, edge, files)) {
+          hazards.push({ from, to, binding: use.binding, line: use.line, usage: use.usage });
+        }
+      }
+    });
+    return { ...cycle, initOrder: hazards.length > 0 ? 'hazardous' : 'benign', hazards };
+  });
+}
+
+/**
+ * Reads the script files of the runtime cycles from a git tree and ranks the cycles with
+ * analyzeInitOrder.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch, tag or tree the cycles were found in
+ * @param cycles - Detected cycles, with edges attached
+ * @returns The cycles, runtime ones annotated
+ */
+export async function annotateInitOrder(
+  workspacePath: string,
+  ref: string,
+  cycles: CircularDependencyResult[]
+): Promise<CircularDependencyResult[]> {
+  const files = new Set<string>();
+  for (const cycle of cycles.filter(isRuntimeCycle)) {
+    cycle.cycle.filter(isScriptFile).forEach(file => files.add(file));
+  }
+  return analyzeInitOrder(cycles, await readTreeFiles(workspacePath, ref, Array.from(files)));
+}
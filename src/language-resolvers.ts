@@ -0,0 +1,332 @@
+import * as path from 'path';
+
+/**
+ * Import resolution for one language other than TS/JS.
+ */
+export interface LanguageResolver {
+  language: string;
+  /** Tells whether a file is a source file of the language. */
+  isSource(filePath: string): boolean;
+  /**
+   * Resolves an import written in one of the language's files.
+   * @returns A file of the tree, or undefined for external or unknown modules
+   */
+  resolveImport(specifier: string, fromFile: string): string | undefined;
+  /**
+   * Resolves a fully qualified module name, such as a graph node named `app.models.user`.
+   * @returns A file of the tree, or undefined when the name is not a module of the tree
+   */
+  resolveModuleName(name: string): string | undefined;
+  /** Maps a file to the module it belongs to, when modules span several files. */
+  getModulePath?(filePath: string): string;
+}
+
+function joinPath(...parts: string[]): string {
+  const joined = path.posix.normalize(path.posix.join(...parts)).replace(/\/$/, '');
+  return joined === '.' ? '' : joined;
+}
+
+function parentDirectory(filePath: string): string {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' ? '' : dir;
+}
+
+function commonPrefixLength(left: string, right: string): number {
+  let length = 0;
+  while (length < left.length && left[length] === right[length]) {
+    length += 1;
+  }
+  return length;
+}
+
+function closestTo(candidates: string[], fromFile: string): string | undefined {
+  // Monorepos repeat package names across modules; the copy next to the importer wins.
+  return candidates.reduce<string | undefined>((best, candidate) =>
+    best === undefined || commonPrefixLength(candidate, fromFile) > commonPrefixLength(best, fromFile) ? candidate : best,
+  undefined);
+}
+
+/**
+ * Creates the resolver for Python: dotted absolute imports searched from every source root
+ * (the directory holding a top-level package, or the repository root), relative imports
+ * with leading dots, and packages through their `__init__.py`. `from a.b import c` may name
+ * a submodule or a member of `a.b`, so a dotted name falls back to its parent module.
+ * @param files - Every file of the tree
+ * @returns The Python resolver
+ */
+export function createPythonResolver(files: Set<string>): LanguageResolver {
+  const isSource = (filePath: string) => filePath.endsWith('.py') || filePath.endsWith('.pyi');
+  const isPackage = (dir: string) => files.has(joinPath(dir, '__init__.py'));
+  const getSourceRoot = (filePath: string) => {
+    let dir = parentDirectory(filePath);
+    while (dir !== '' && isPackage(dir)) {
+      dir = parentDirectory(dir);
+    }
+    return dir;
+  };
+
+  const roots = new Set<string>(['']);
+  for (const filePath of files) {
+    if (isSource(filePath)) {
+      roots.add(getSourceRoot(filePath));
+    }
+  }
+  const sortedRoots = Array.from(roots).sort((left, right) =>
+    left.split('/').length - right.split('/').length || (left < right ? -1 : 1));
+
+  const findModule = (base: string, parts: string[]) => {
+    const modulePath = joinPath(base, ...parts);
+    return [`${modulePath}.py`, `${modulePath}.pyi`, joinPath(modulePath, '__init__.py')]
+      .find(candidate => files.has(candidate));
+  };
+  const findInRoots = (searchRoots: string[], parts: string[]) => {
+    for (const length of parts.length > 1 ? [parts.length, parts.length - 1] : [parts.length]) {
+      for (const root of searchRoots) {
+        const found = findModule(root, parts.slice(0, length));
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    language: 'python',
+    isSource,
+    resolveImport(specifier: string, fromFile: string): string | undefined {
+      const relative = /^(\.+)(.*)$/.exec(specifier);
+      if (relative) {
+        let base = parentDirectory(fromFile);
+        for (let level = 1; level < relative[1].length; level += 1) {
+          base = parentDirectory(base);
+        }
+        const parts = relative[2].split('.').filter(Boolean);
+        // `from . import name` may import a member of the package itself.
+        return findInRoots([base], parts) || findModule(base, []);
+      }
+
+      // The importing script's directory is on sys.path too.
+      const searchRoots = [getSourceRoot(fromFile), parentDirectory(fromFile), ...sortedRoots];
+      return findInRoots(Array.from(new Set(searchRoots)), specifier.split('.'));
+    },
+    resolveModuleName(name: string): string | undefined {
+      if (!/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(name)) {
+        return undefined;
+      }
+      for (const root of sortedRoots) {
+        const found = findModule(root, name.split('.'));
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Creates the resolver for Go. Import paths are mapped to package directories through the
+ * `module` line of every `go.mod`, and each non-test `.go` file is mapped to its package
+ * directory, so cycles are reported between packages.
+ * @param files - Every file of the tree
+ * @param manifests - Manifest contents keyed by path, including the `go.mod` files
+ * @returns The Go resolver
+ */
+export function createGoResolver(files: Set<string>, manifests: Map<string, string>): LanguageResolver {
+  const isSource = (filePath: string) => filePath.endsWith('.go');
+  const isPackageSource = (filePath: string) => isSource(filePath) && !filePath.endsWith('_test.go');
+
+  const modules: Array<{ importPath: string; dir: string }> = [];
+  for (const [filePath, content] of manifests) {
+    const match = path.posix.basename(filePath) === 'go.mod' ? /^\s*module\s+"?([^\s"]+)"?/m.exec(content) : null;
+    if (match) {
+      modules.push({ importPath: match[1], dir: parentDirectory(filePath) });
+    }
+  }
+  modules.sort((left, right) => right.importPath.length - left.importPath.length);
+
+  const packageFiles = new Map<string, string>();
+  for (const filePath of Array.from(files).filter(isPackageSource).sort()) {
+    const dir = parentDirectory(filePath);
+    if (!packageFiles.has(dir)) {
+      packageFiles.set(dir, filePath);
+    }
+  }
+
+  const resolvePackage = (importPath: string) => {
+    const module = modules.find(candidate =>
+      importPath === candidate.importPath || importPath.startsWith(`${candidate.importPath}/`));
+    if (!module) {
+      return undefined;
+    }
+    return packageFiles.get(joinPath(module.dir, importPath.slice(module.importPath.length).replace(/^\//, '')));
+  };
+
+  return {
+    language: 'go',
+    isSource,
+    resolveImport: (specifier: string) => resolvePackage(specifier),
+    resolveModuleName: (name: string) => resolvePackage(name) ?? packageFiles.get(name),
+    getModulePath(filePath: string): string {
+      // External test packages (package foo_test) may import foo without forming a cycle.
+      return isPackageSource(filePath) ? parentDirectory(filePath) || '.' : filePath;
+    },
+  };
+}
+
+/**
+ * Creates the resolver for Rust. `use` and `mod` paths starting with `crate`, `self`,
+ * `super`, a workspace crate name or a child module are mapped to `foo.rs` or `foo/mod.rs`
+ * below the crate's `src` directory; trailing item names are dropped until a module file
+ * matches.
+ * @param files - Every file of the tree
+ * @param manifests - Manifest contents keyed by path, including the `Cargo.toml` files
+ * @returns The Rust resolver
+ */
+export function createRustResolver(files: Set<string>, manifests: Map<string, string>): LanguageResolver {
+  const isSource = (filePath: string) => filePath.endsWith('.rs');
+
+  const crates: Array<{ name: string; src: string }> = [];
+  for (const [filePath, content] of manifests) {
+    if (path.posix.basename(filePath) !== 'Cargo.toml') {
+      continue;
+    }
+    const packageSection = /^\[package\]([\s\S]*?)(?=^\[|(?![\s\S]))/m.exec(content)?.[1] ?? '';
+    const name = /^\s*name\s*=\s*"([^"]+)"/m.exec(packageSection)?.[1];
+    if (name) {
+      crates.push({ name: name.replace(/-/g, '_'), src: joinPath(parentDirectory(filePath), 'src') });
+    }
+  }
+  crates.sort((left, right) => right.src.length - left.src.length);
+
+  const findCrate = (filePath: string) => crates.find(crate => filePath.startsWith(`${crate.src}/`));
+  const getModuleSegments = (src: string, filePath: string) => {
+    const segments = filePath.slice(src.length + 1).replace(/\.rs$/, '').split('/');
+    if (segments[segments.length - 1] === 'mod' || (segments.length === 1 && ['lib', 'main'].includes(segments[0]))) {
+      segments.pop();
+    }
+    return segments;
+  };
+  const findModule = (src: string, segments: string[], minLength: number) => {
+    for (let length = segments.length; length >= minLength; length -= 1) {
+      const base = joinPath(src, ...segments.slice(0, length));
+      const candidates = length === 0
+        ? [joinPath(src, 'lib.rs'), joinPath(src, 'main.rs')]
+        : [`${base}.rs`, joinPath(base, 'mod.rs')];
+      const found = candidates.find(candidate => files.has(candidate));
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+  const parsePath = (specifier: string) => specifier
+    .replace(/^use\s+|;$/g, '')
+    .replace(/\s+as\s+\w+$/, '')
+    .replace(/::(\{.*\}|\*)$/, '')
+    .replace(/^::/, '')
+    .split('::')
+    .filter(Boolean);
+
+  return {
+    language: 'rust',
+    isSource,
+    resolveImport(specifier: string, fromFile: string): string | undefined {
+      const crate = findCrate(fromFile);
+      const segments = parsePath(specifier);
+      if (!crate || segments.length === 0) {
+        return undefined;
+      }
+      const current = getModuleSegments(crate.src, fromFile);
+      const [head, ...rest] = segments;
+
+      if (head === 'crate') {
+        return findModule(crate.src, rest, 0);
+      }
+      if (head === 'self' || head === 'super') {
+        let base = current;
+        let index = 0;
+        while (segments[index] === 'super') {
+          base = base.slice(0, -1);
+          index += 1;
+        }
+        if (head === 'self') {
+          index = 1;
+        }
+        return findModule(crate.src, [...base, ...segments.slice(index)], base.length);
+      }
+      const other = crates.find(candidate => candidate.name === head);
+      if (other) {
+        return findModule(other.src, rest, 0);
+      }
+      // `mod foo;` and 2018-edition paths through a child module.
+      return findModule(crate.src, [...current, ...segments], current.length + 1);
+    },
+    resolveModuleName(name: string): string | undefined {
+      const [head, ...rest] = parsePath(name);
+      const crate = head === 'crate' && crates.length === 1
+        ? crates[0]
+        : crates.find(candidate => candidate.name === head);
+      return crate && name.includes('::') ? findModule(crate.src, rest, 0) : undefined;
+    },
+  };
+}
+
+/**
+ * Creates the resolver for Java. Qualified class names are matched against the path suffix
+ * of every `.java` file, whatever its source root (`src/main/java`, module directories);
+ * nested classes and static members fall back to the enclosing class. Wildcard imports of
+ * whole packages are left unresolved, since they do not name a file.
+ * @param files - Every file of the tree
+ * @returns The Java resolver
+ */
+export function createJavaResolver(files: Set<string>): LanguageResolver {
+  const isSource = (filePath: string) => filePath.endsWith('.java');
+
+  const filesByClass = new Map<string, string[]>();
+  for (const filePath of files) {
+    if (isSource(filePath)) {
+      const className = path.posix.basename(filePath, '.java');
+      filesByClass.set(className, [...(filesByClass.get(className) || []), filePath]);
+    }
+  }
+
+  const resolveClass = (specifier: string, fromFile: string) => {
+    const segments = specifier.replace(/^import\s+|;$/g, '').replace(/^static\s+/, '').trim().split('.');
+    if (segments[segments.length - 1] === '*') {
+      segments.pop();
+    }
+    for (let length = segments.length; length >= 2; length -= 1) {
+      const suffix = segments.slice(0, length).join('/') + '.java';
+      const candidates = (filesByClass.get(segments[length - 1]) || [])
+        .filter(filePath => filePath === suffix || filePath.endsWith(`/${suffix}`));
+      if (candidates.length > 0) {
+        return closestTo(candidates.sort(), fromFile);
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    language: 'java',
+    isSource,
+    resolveImport: resolveClass,
+    resolveModuleName: (name: string) => (/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)+$/.test(name) ? resolveClass(name, '') : undefined),
+  };
+}
+
+/**
+ * Creates the resolvers of every supported language other than TS/JS.
+ * @param files - Every file of the tree
+ * @param manifests - Manifest contents keyed by path
+ * @returns Resolvers for Python, Go, Rust and Java
+ */
+export function createLanguageResolvers(files: Set<string>, manifests: Map<string, string>): LanguageResolver[] {
+  return [
+    createPythonResolver(files),
+    createGoResolver(files, manifests),
+    createRustResolver(files, manifests),
+    createJavaResolver(files),
+  ];
+}
@@ -0,0 +1,286 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CodeGraphNode, CodeGraphRelationship } from '@supermodeltools/sdk';
+import { listTreeBlobs, readTreeFiles } from './git-tree';
+import { CacheStore, openCacheStore } from './graph-cache';
+import { CodeGraph, GraphProvider } from './graph-provider';
+import {
+  SOURCE_EXTENSIONS,
+  SpecifierResolver,
+  createModuleResolver,
+  isManifestFile,
+  resolveModulePath,
+} from './module-resolver';
+
+/** Syntax that created an import. */
+export type ImportSyntax = 'import' | 'export' | 'require' | 'dynamic-import';
+
+/**
+ * A module reference found in a source file.
+ */
+export interface ParsedImport {
+  specifier: string;
+  /** 1-based line of the import. */
+  line: number;
+  syntax: ImportSyntax;
+  /** True for `import type` / `export type` and imports whose bindings are all type-only. */
+  typeOnly: boolean;
+}
+
+/**
+ * Options for building a graph from source files.
+ */
+export interface LocalGraphOptions {
+  /**
+   * Resolver for specifiers that are not relative paths, such as path aliases. The
+   * provider defaults to a resolver built from the tree's tsconfig and package manifests.
+   */
+  resolve?: SpecifierResolver;
+  /**
+   * Directory keeping the imports of every parsed file between runs, keyed by blob id, so
+   * files whose contents did not change are neither read nor parsed again.
+   */
+  cacheDirectory?: string;
+}
+
+/** Parsed files kept in the cache; roughly the sources of a large monorepo at two commits. */
+const MAX_CACHED_FILES = 50000;
+
+function isSourceFile(filePath: string): boolean {
+  if (/\.d\.[cm]?ts$/.test(filePath)) {
+    return false;
+  }
+  return SOURCE_EXTENSIONS.includes(path.posix.extname(filePath));
+}
+
+/**
+ * Picks the TypeScript dialect of a file from its extension.
+ * @param fileName - File name
+ * @returns Script kind for ts.createSourceFile
+ */
+export function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.posix.extname(fileName)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+  const clause = node.importClause;
+  if (!clause) {
+    return false;
+  }
+  if (clause.isTypeOnly) {
+    return true;
+  }
+  const bindings = clause.namedBindings;
+  return !clause.name &&
+    !!bindings &&
+    ts.isNamedImports(bindings) &&
+    bindings.elements.length > 0 &&
+    bindings.elements.every(element => element.isTypeOnly);
+}
+
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) {
+    return true;
+  }
+  const clause = node.exportClause;
+  return !!clause &&
+    ts.isNamedExports(clause) &&
+    clause.elements.length > 0 &&
+    clause.elements.every(element => element.isTypeOnly);
+}
+
+/**
+ * Parses a TypeScript or JavaScript source file and lists the modules it references.
+ * Covers ESM `import`, `export ... from`, `import x = require()`, CommonJS `require()`
+ * and dynamic `import()`.
+ * @param fileName - File name, used to pick the TS/JS/JSX dialect
+ * @param source - File contents
+ * @returns Module references in source order
+ */
+export function parseImports(fileName: string, source: string): ParsedImport[] {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+  const imports: ParsedImport[] = [];
+
+  const add = (specifierNode: ts.Node, syntax: ImportSyntax, typeOnly: boolean) => {
+    if (!ts.isStringLiteralLike(specifierNode)) {
+      return;
+    }
+    const { line } = sourceFile.getLineAndCharacterOfPosition(specifierNode.getStart(sourceFile));
+    imports.push({ specifier: specifierNode.text, line: line + 1, syntax, typeOnly });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, 'import', isTypeOnlyImport(node));
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      add(node.moduleSpecifier, 'export', isTypeOnlyExport(node));
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node.moduleReference.expression, 'require', node.isTypeOnly);
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        add(node.arguments[0], 'dynamic-import', false);
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+        add(node.arguments[0], 'require', false);
+      }
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, 'import', true);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return imports;
+}
+
+/**
+ * Resolves a relative specifier (`./x`, `../y`) against the files of the tree,
+ * trying the path as written, its TS source for `.js` specifiers, the path with each
+ * source extension, then a directory index.
+ * @param specifier - Relative specifier
+ * @param fromFile - Importing file
+ * @param files - All files of the tree
+ * @returns The resolved file, or undefined if it is not part of the tree
+ */
+export function resolveRelativeImport(specifier: string, fromFile: string, files: Set<string>): string | undefined {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../') && specifier !== '.' && specifier !== '..') {
+    return undefined;
+  }
+
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+  return resolveModulePath(target === '.' ? '' : target, files);
+}
+
+function linkImports(parsedFiles: Map<string, ParsedImport[]>, resolve: SpecifierResolver | undefined): CodeGraph {
+  const filePaths = new Set(parsedFiles.keys());
+  const nodes: CodeGraphNode[] = [];
+  const relationships: CodeGraphRelationship[] = [];
+
+  for (const [filePath, imports] of parsedFiles) {
+    nodes.push({
+      id: filePath,
+      labels: ['File'],
+      properties: { filePath, name: path.posix.basename(filePath) },
+    });
+
+    imports.forEach((parsed, index) => {
+      const target = resolveRelativeImport(parsed.specifier, filePath, filePaths) ||
+        resolve?.(parsed.specifier, filePath);
+      if (!target || !filePaths.has(target)) {
+        return;
+      }
+      relationships.push({
+        id: `${filePath}#${index}`,
+        type: 'IMPORTS',
+        startNode: filePath,
+        endNode: target,
+        properties: {
+          line: parsed.line,
+          specifier: parsed.specifier,
+          syntax: parsed.syntax,
+          typeOnly: parsed.typeOnly,
+        },
+      });
+    });
+  }
+
+  return {
+    nodes,
+    relationships,
+    stats: { files: nodes.length, imports: relationships.length },
+  };
+}
+
+/**
+ * Builds a code graph from the contents of source files.
+ * @param files - File contents keyed by path relative to the repository root
+ * @param options - Resolution settings
+ * @returns Graph with one `File` node per source file and one `IMPORTS` relationship per resolved import
+ */
+export function buildLocalGraph(files: Map<string, string>, options: LocalGraphOptions = {}): CodeGraph {
+  const parsedFiles = new Map<string, ParsedImport[]>();
+  for (const [filePath, source] of files) {
+    parsedFiles.set(filePath, parseImports(filePath, source));
+  }
+  return linkImports(parsedFiles, options.resolve);
+}
+
+function parseCacheKey(filePath: string, blob: string): string {
+  // The extension selects the TS/JS dialect, so identical contents can parse differently.
+  return `${blob}${path.posix.extname(filePath)}`;
+}
+
+/**
+ * Creates a provider that parses TS/JS sources locally, without any network access.
+ * With a cache directory, only files whose contents changed since an earlier run are read and
+ * parsed; imports are still resolved against the whole tree.
+ * @param options - Resolution settings and cache directory
+ * @returns Graph provider backed by the TypeScript parser
+ */
+export function createLocalGraphProvider(options: LocalGraphOptions = {}): GraphProvider {
+  let openedCache: Promise<CacheStore<ParsedImport[]>> | undefined;
+
+  return {
+    name: 'local',
+    async generateGraph(workspacePath: string, ref: string): Promise<CodeGraph> {
+      if (options.cacheDirectory && !openedCache) {
+        openedCache = openCacheStore(path.join(options.cacheDirectory, 'parsed-imports.json'), MAX_CACHED_FILES);
+      }
+      const parseCache = await openedCache;
+      const blobs = await listTreeBlobs(workspacePath, ref);
+      const sourcePaths = Array.from(blobs.keys()).filter(isSourceFile);
+      const cachedImports = new Map<string, ParsedImport[]>();
+      for (const filePath of sourcePaths) {
+        const imports = parseCache?.get(parseCacheKey(filePath, blobs.get(filePath)!));
+        if (imports) {
+          cachedImports.set(filePath, imports);
+        }
+      }
+
+      const stalePaths = sourcePaths.filter(filePath => !cachedImports.has(filePath));
+      const files = await readTreeFiles(
+        workspacePath,
+        ref,
+        stalePaths.concat(Array.from(blobs.keys()).filter(isManifestFile))
+      );
+
+      const parsedFiles = new Map<string, ParsedImport[]>();
+      const manifests = new Map<string, string>();
+      for (const filePath of sourcePaths) {
+        const source = files.get(filePath);
+        if (cachedImports.has(filePath)) {
+          parsedFiles.set(filePath, cachedImports.get(filePath)!);
+        } else if (source !== undefined) {
+          const imports = parseImports(filePath, source);
+          parsedFiles.set(filePath, imports);
+          parseCache?.set(parseCacheKey(filePath, blobs.get(filePath)!), imports);
+        }
+      }
+      for (const [filePath, content] of files) {
+        if (isManifestFile(filePath)) {
+          manifests.set(filePath, content);
+        }
+      }
+      await parseCache?.save();
+
+      const graph = linkImports(
+        parsedFiles,
+        options.resolve ?? createModuleResolver(new Set(parsedFiles.keys()), manifests)
+      );
+      return {
+        ...graph,
+        stats: { files: graph.nodes.length, imports: graph.relationships.length, parsed: stalePaths.length },
+      };
+    },
+  };
+}
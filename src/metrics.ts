@@ -0,0 +1,320 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CircularDependencyResult, DependencyGraph, TangleResult } from './circular-deps';
+
+/** Snapshots of earlier runs kept in a metrics file; the oldest are dropped first. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/** Files listed as hotspots in the metrics and the job summary. */
+const MAX_HOTSPOTS = 10;
+
+/** Most recent runs shown in the trend table. */
+const TREND_ROWS = 10;
+
+/** The trend line compares with the last run at least this old, or the oldest one. */
+const TREND_PERIOD_DAYS = 30;
+
+/**
+ * The headline numbers of one run, as kept in the history of a metrics file.
+ */
+export interface MetricsSnapshot {
+  /** When the run happened, as an ISO 8601 timestamp. */
+  date: string;
+  /** Commit the run analyzed, if known. */
+  commit?: string;
+  cycles: number;
+  /** Strongly connected components with more than one file. */
+  tangles: number;
+  /** Files in the largest tangle. */
+  largestTangle: number;
+  /** Files that are part of at least one tangle. */
+  filesInCycles: number;
+  /** Share of all files that are part of a tangle, from 0 to 100. */
+  percentFilesInCycles: number;
+  /** From 0 (everything depends on everything) to 100 (no cycles). */
+  healthScore: number;
+}
+
+/**
+ * How entangled one file is.
+ */
+export interface FileHotspot {
+  file: string;
+  /** Files that depend on this file. */
+  fanIn: number;
+  /** Files this file depends on. */
+  fanOut: number;
+  /** Reported cycles passing through this file. */
+  cycles: number;
+  /** Files in the tangle this file belongs to. */
+  tangleSize: number;
+}
+
+/**
+ * Machine-readable metrics of a run, with the snapshots of earlier runs.
+ */
+export interface DependencyMetrics extends MetricsSnapshot {
+  version: 1;
+  /** Files in the dependency graph. */
+  files: number;
+  /** Dependency edges between files. */
+  dependencies: number;
+  /** The most tangled files, most cycles first. */
+  hotspots: FileHotspot[];
+  /** Earlier runs followed by this one, oldest first. */
+  history: MetricsSnapshot[];
+}
+
+/**
+ * Identifies the run the metrics describe.
+ */
+export interface MetricsContext {
+  commit?: string;
+  /** Defaults to now. */
+  date?: Date;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Scores how free of cycles a graph is. The share of files outside any tangle is
+ * multiplied by the share outside the largest one, so one big knot weighs more than
+ * the same files spread over small, separately fixable tangles.
+ * @param files - Files in the graph
+ * @param filesInCycles - Files that are part of a tangle
+ * @param largestTangle - Files in the largest tangle
+ * @returns Score from 0 to 100
+ */
+export function computeHealthScore(files: number, filesInCycles: number, largestTangle: number): number {
+  if (files === 0) {
+    return 100;
+  }
+  return Math.round(100 * (1 - filesInCycles / files) * (1 - largestTangle / files));
+}
+
+/**
+ * Computes the metrics of one run.
+ * @param graph - File dependency graph
+ * @param cycles - Detected cycles
+ * @param tangles - Strongly connected components of the graph
+ * @param context - Commit and time of the run
+ * @returns Metrics whose history holds only this run
+ */
+export function computeMetrics(
+  graph: DependencyGraph,
+  cycles: CircularDependencyResult[],
+  tangles: TangleResult[],
+  context: MetricsContext = {}
+): DependencyMetrics {
+  const fanIn = new Map<string, number>();
+  let dependencies = 0;
+  for (const targets of graph.adjacency.values()) {
+    dependencies += targets.size;
+    for (const target of targets) {
+      fanIn.set(target, (fanIn.get(target) ?? 0) + 1);
+    }
+  }
+
+  const cyclesThrough = new Map<string, number>();
+  for (const cycle of cycles) {
+    for (const file of new Set(cycle.cycle)) {
+      cyclesThrough.set(file, (cyclesThrough.get(file) ?? 0) + 1);
+    }
+  }
+
+  const hotspots: FileHotspot[] = tangles.flatMap(tangle => tangle.files.map(file => ({
+    file,
+    fanIn: fanIn.get(file) ?? 0,
+    fanOut: graph.adjacency.get(file)?.size ?? 0,
+    cycles: cyclesThrough.get(file) ?? 0,
+    tangleSize: tangle.size,
+  })));
+  hotspots.sort((left, right) =>
+    right.cycles - left.cycles ||
+    right.fanIn + right.fanOut - (left.fanIn + left.fanOut) ||
+    (left.file < right.file ? -1 : 1));
+
+  const files = graph.adjacency.size;
+  const filesInCycles = tangles.reduce((total, tangle) => total + tangle.size, 0);
+  const largestTangle = tangles.reduce((largest, tangle) => Math.max(largest, tangle.size), 0);
+  const snapshot: MetricsSnapshot = {
+    date: (context.date ?? new Date()).toISOString(),
+    commit: context.commit,
+    cycles: cycles.length,
+    tangles: tangles.length,
+    largestTangle,
+    filesInCycles,
+    percentFilesInCycles: files === 0 ? 0 : round((100 * filesInCycles) / files, 1),
+    healthScore: computeHealthScore(files, filesInCycles, largestTangle),
+  };
+
+  return {
+    version: 1,
+    ...snapshot,
+    files,
+    dependencies,
+    hotspots: hotspots.slice(0, MAX_HOTSPOTS),
+    history: [snapshot],
+  };
+}
+
+/**
+ * Appends the current run to the history of an earlier metrics file.
+ * A run of the same commit replaces the earlier snapshot instead of adding one.
+ * @param metrics - Metrics of the current run
+ * @param previous - Metrics of an earlier run, e.g. a committed file or a downloaded artifact
+ * @returns The metrics with the combined history
+ */
+export function mergeHistory(metrics: DependencyMetrics, previous: DependencyMetrics | undefined): DependencyMetrics {
+  const current = metrics.history[metrics.history.length - 1];
+  const earlier = (previous?.history ?? [])
+    .filter(entry => !(current.commit && entry.commit === current.commit));
+  return {
+    ...metrics,
+    history: [...earlier, current].slice(-MAX_HISTORY_ENTRIES),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses the contents of a metrics file.
+ * @param content - Raw JSON content
+ * @returns The parsed metrics
+ */
+export function parseMetrics(content: string): DependencyMetrics {
+  const parsed = JSON.parse(content);
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.history)) {
+    throw new Error('Invalid metrics file: expected { "version": 1, "history": [...] }');
+  }
+  const isSnapshot = (entry: unknown) =>
+    isRecord(entry) &&
+    typeof entry.date === 'string' && typeof entry.cycles === 'number' && typeof entry.healthScore === 'number';
+  if (!parsed.history.every(isSnapshot)) {
+    throw new Error('Invalid metrics file: every history entry needs a date, cycles and healthScore');
+  }
+  return parsed;
+}
+
+/**
+ * Loads a metrics file from disk.
+ * @param filePath - Path to the metrics file
+ * @returns The metrics, or undefined if the file does not exist
+ */
+export async function loadMetrics(filePath: string): Promise<DependencyMetrics | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  return parseMetrics(content);
+}
+
+/**
+ * Writes a metrics file to disk, creating its directory if needed.
+ * @param filePath - Path to the metrics file
+ * @param metrics - Metrics to write
+ */
+export async function writeMetrics(filePath: string, metrics: DependencyMetrics): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(metrics, null, 2)}\n`, 'utf8');
+}
+
+function formatDate(date: string): string {
+  return date.slice(0, 10);
+}
+
+function formatChange(before: number, after: number, unit = ''): string {
+  const difference = round(after - before, 1);
+  if (difference === 0) {
+    return `${after}${unit} (no change)`;
+  }
+  return `${before}${unit} → ${after}${unit} (${difference > 0 ? '+' : ''}${difference}${unit})`;
+}
+
+function findComparisonEntry(history: MetricsSnapshot[]): MetricsSnapshot {
+  const latest = Date.parse(history[history.length - 1].date);
+  const cutoff = latest - TREND_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+  const older = history.slice(0, -1).filter(entry => Date.parse(entry.date) <= cutoff);
+  return older.length > 0 ? older[older.length - 1] : history[0];
+}
+
+function formatTrend(history: MetricsSnapshot[]): string {
+  const latest = history[history.length - 1];
+  const since = findComparisonEntry(history);
+  const rows = history
+    .slice(-TREND_ROWS)
+    .reverse()
+    .map(entry => {
+      const commit = entry.commit ? `\`${entry.commit.slice(0, 7)}\`` : '-';
+      return `| ${formatDate(entry.date)} | ${commit} | ${entry.cycles} | ${entry.tangles} | ` +
+        `${entry.largestTangle} | ${entry.percentFilesInCycles}% | ${entry.healthScore} |`;
+    })
+    .join('\n');
+
+  const scores = history.slice(-30);
+  const chart = `\`\`\`mermaid
+xychart-beta
+  title "Health score"
+  x-axis [${scores.map(entry => `"${formatDate(entry.date)}"`).join(', ')}]
+  y-axis "Score" 0 --> 100
+  line [${scores.map(entry => entry.healthScore).join(', ')}]
+\`\`\``;
+
+  return `### Trend
+
+Since ${formatDate(since.date)}: health score ${formatChange(since.healthScore, latest.healthScore)}, ` +
+    `cycles ${formatChange(since.cycles, latest.cycles)}, ` +
+    `files in cycles ${formatChange(since.percentFilesInCycles, latest.percentFilesInCycles, '%')}.
+
+${chart}
+
+| Date | Commit | Cycles | Tangles | Largest tangle | Files in cycles | Health |
+|------|--------|--------|---------|----------------|-----------------|--------|
+${rows}`;
+}
+
+/**
+ * Formats metrics as a Markdown dashboard for the job summary.
+ * @param metrics - Metrics of the run, with the history of earlier runs
+ * @returns Markdown report
+ */
+export function formatMetricsSummary(metrics: DependencyMetrics): string {
+  const sections = [`## Dependency health: ${metrics.healthScore}/100
+
+| Metric | Value |
+|--------|-------|
+| Health score | ${metrics.healthScore} |
+| Circular dependencies | ${metrics.cycles} |
+| Tangles (strongly connected components) | ${metrics.tangles} |
+| Largest tangle | ${metrics.largestTangle} files |
+| Files in cycles | ${metrics.filesInCycles} of ${metrics.files} (${metrics.percentFilesInCycles}%) |
+| Dependencies | ${metrics.dependencies} |`];
+
+  if (metrics.hotspots.length > 0) {
+    const rows = metrics.hotspots
+      .map((hotspot, index) =>
+        `| ${index + 1} | \`${hotspot.file}\` | ${hotspot.cycles} | ${hotspot.fanIn} | ${hotspot.fanOut} | ${hotspot.tangleSize} |`)
+      .join('\n');
+    sections.push(`### Most tangled files
+
+| # | File | Cycles | Fan-in | Fan-out | Tangle size |
+|---|------|--------|--------|---------|-------------|
+${rows}`);
+  }
+
+  if (metrics.history.length > 1) {
+    sections.push(formatTrend(metrics.history));
+  }
+
+  return sections.join('\n\n');
+}
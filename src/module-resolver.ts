@@ -0,0 +1,499 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { minimatch } from 'minimatch';
+import { listTreeFiles, readTreeFiles } from './git-tree';
+import { createLanguageResolvers } from './language-resolvers';
+
+/** File extensions treated as JS/TS sources. */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Resolves a module specifier to a file of the analyzed tree.
+ * @param specifier - Specifier as written in the source
+ * @param fromFile - Path of the importing file, relative to the repository root
+ * @returns The resolved file path, or undefined for external or unknown modules
+ */
+export type SpecifierResolver = (specifier: string, fromFile: string) => string | undefined;
+
+/**
+ * Resolves a fully qualified module name used in place of a path, such as a graph node
+ * named `app.models.user` or `github.com/acme/svc/db`, to a file of the analyzed tree.
+ * @param name - Module name
+ * @returns The file, or undefined when the name is not a module of the tree
+ */
+export type ModuleNameResolver = (name: string) => string | undefined;
+
+/**
+ * Everything needed to map the nodes and imports of a code graph to files of the tree.
+ */
+export interface ModuleResolution {
+  resolveSpecifier: SpecifierResolver;
+  resolveModuleName: ModuleNameResolver;
+  /** Maps a file to the module cycles are reported between, e.g. its Go package directory. */
+  getModulePath: (filePath: string) => string;
+}
+
+/**
+ * A package of the repository, identified by its `package.json`.
+ */
+export interface WorkspacePackage {
+  name: string;
+  /** Package directory relative to the repository root, `''` for the root package. */
+  dir: string;
+  manifest: Record<string, any>;
+}
+
+/** ESM imports written with a JS extension may point at the TS source. */
+const TS_SOURCES_FOR_JS_EXTENSION: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/** Conditions tried, in order, when a package `exports` entry is conditional. */
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'module', 'require', 'node', 'default'];
+
+/** Build output directories mapped back to `src` when a manifest points at compiled files. */
+const OUTPUT_DIRECTORIES = ['dist', 'lib', 'build', 'out'];
+
+function joinPath(...parts: string[]): string {
+  const joined = path.posix.normalize(path.posix.join(...parts)).replace(/\/$/, '');
+  return joined === '.' ? '' : joined;
+}
+
+function starIndex(pattern: string): number {
+  const index = pattern.indexOf('*');
+  return index === -1 ? Infinity : index;
+}
+
+/**
+ * Finds the file a module path refers to: the path itself, its TS source when written
+ * with a `.js` extension, the path with a source extension, or a directory index.
+ * @param target - Module path relative to the repository root, without a leading `./`
+ * @param files - All files of the tree
+ * @returns The matching file, or undefined
+ */
+export function resolveModulePath(target: string, files: Set<string>): string | undefined {
+  if (target.startsWith('../') || target === '..') {
+    return undefined;
+  }
+
+  const candidates = [target];
+  const ext = path.posix.extname(target);
+  for (const tsExt of TS_SOURCES_FOR_JS_EXTENSION[ext] || []) {
+    candidates.push(`${target.slice(0, -ext.length)}${tsExt}`);
+  }
+  for (const sourceExt of SOURCE_EXTENSIONS) {
+    candidates.push(`${target}${sourceExt}`);
+  }
+  for (const sourceExt of SOURCE_EXTENSIONS) {
+    candidates.push(target ? `${target}/index${sourceExt}` : `index${sourceExt}`);
+  }
+
+  return candidates.find(candidate => files.has(candidate));
+}
+
+/**
+ * Tells whether a file configures module resolution: tsconfig/jsconfig files,
+ * package manifests, pnpm workspace definitions, `go.mod` and `Cargo.toml`.
+ * @param filePath - Path relative to the repository root
+ * @returns True for files read by createModuleResolver
+ */
+export function isManifestFile(filePath: string): boolean {
+  if (filePath.split('/').includes('node_modules')) {
+    return false;
+  }
+  const name = path.posix.basename(filePath);
+  return name === 'package.json' ||
+    name === 'pnpm-workspace.yaml' ||
+    name === 'go.mod' ||
+    name === 'Cargo.toml' ||
+    /^(tsconfig|jsconfig)(\..+)?\.json$/.test(name);
+}
+
+function parseJson(fileName: string, content: string | undefined): Record<string, any> | undefined {
+  if (content === undefined) {
+    return undefined;
+  }
+  // tsconfig files allow comments and trailing commas.
+  const { config, error } = ts.parseConfigFileTextToJson(fileName, content);
+  return error ? undefined : config;
+}
+
+function parsePnpmWorkspacePatterns(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '');
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+    const item = inPackages ? /^\s*-\s*(.+?)\s*$/.exec(line) : null;
+    if (item) {
+      patterns.push(item[1].replace(/^['"]|['"]$/g, ''));
+    }
+  }
+  return patterns;
+}
+
+function getWorkspacePatterns(manifests: Map<string, string>): string[] {
+  const patterns: string[] = [];
+  const rootManifest = parseJson('package.json', manifests.get('package.json'));
+  const workspaces = rootManifest?.workspaces;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces);
+  } else if (Array.isArray(workspaces?.packages)) {
+    patterns.push(...workspaces.packages);
+  }
+  const pnpmWorkspace = manifests.get('pnpm-workspace.yaml');
+  if (pnpmWorkspace) {
+    patterns.push(...parsePnpmWorkspacePatterns(pnpmWorkspace));
+  }
+  return patterns.filter(pattern => typeof pattern === 'string');
+}
+
+/**
+ * Lists the packages of a repository. When npm/yarn `workspaces` or a
+ * `pnpm-workspace.yaml` are present, only matching package directories (plus the root
+ * package) are returned; otherwise every named `package.json` counts as a package.
+ * @param manifests - Manifest contents keyed by path relative to the repository root
+ * @returns Packages sorted by directory
+ */
+export function findWorkspacePackages(manifests: Map<string, string>): WorkspacePackage[] {
+  const patterns = getWorkspacePatterns(manifests).map(pattern => pattern.replace(/^\.\//, '').replace(/\/$/, ''));
+  const includes = patterns.filter(pattern => !pattern.startsWith('!'));
+  const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
+
+  const packages: WorkspacePackage[] = [];
+  for (const [filePath, content] of manifests) {
+    if (path.posix.basename(filePath) !== 'package.json') {
+      continue;
+    }
+    const dir = path.posix.dirname(filePath) === '.' ? '' : path.posix.dirname(filePath);
+    if (dir && includes.length > 0) {
+      const included = includes.some(pattern => minimatch(dir, pattern));
+      const excluded = excludes.some(pattern => minimatch(dir, pattern));
+      if (!included || excluded) {
+        continue;
+      }
+    }
+    const manifest = parseJson(filePath, content);
+    if (manifest && typeof manifest.name === 'string' && manifest.name) {
+      packages.push({ name: manifest.name, dir, manifest });
+    }
+  }
+
+  return packages.sort((left, right) => (left.dir < right.dir ? -1 : left.dir > right.dir ? 1 : 0));
+}
+
+interface CompilerPathOptions {
+  /** Directory that `paths` substitutions are relative to. */
+  pathsBase?: string;
+  paths?: Record<string, string[]>;
+  /** Directory non-relative specifiers are resolved against. */
+  baseUrl?: string;
+}
+
+function loadCompilerPathOptions(
+  configPath: string,
+  manifests: Map<string, string>,
+  seen: Set<string> = new Set()
+): CompilerPathOptions {
+  if (seen.has(configPath)) {
+    return {};
+  }
+  seen.add(configPath);
+
+  const config = parseJson(configPath, manifests.get(configPath));
+  if (!config) {
+    return {};
+  }
+
+  const configDir = path.posix.dirname(configPath) === '.' ? '' : path.posix.dirname(configPath);
+  let options: CompilerPathOptions = {};
+
+  const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+  for (const parent of parents) {
+    if (typeof parent !== 'string' || !parent.startsWith('.')) {
+      continue;
+    }
+    let parentPath = joinPath(configDir, parent);
+    if (!parentPath.endsWith('.json')) {
+      parentPath = `${parentPath}.json`;
+    }
+    options = { ...options, ...loadCompilerPathOptions(parentPath, manifests, seen) };
+  }
+
+  const compilerOptions = config.compilerOptions || {};
+  if (typeof compilerOptions.baseUrl === 'string') {
+    options.baseUrl = joinPath(configDir, compilerOptions.baseUrl);
+    options.pathsBase = options.baseUrl;
+  }
+  if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+    options.paths = compilerOptions.paths;
+    options.pathsBase = options.baseUrl ?? configDir;
+  }
+
+  return options;
+}
+
+function matchPattern(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === specifier ? '' : undefined;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return undefined;
+}
+
+function resolveCompilerPaths(
+  specifier: string,
+  options: CompilerPathOptions,
+  files: Set<string>
+): string | undefined {
+  if (options.paths) {
+    const matches = Object.keys(options.paths)
+      .map(pattern => ({ pattern, wildcard: matchPattern(pattern, specifier) }))
+      .filter(match => match.wildcard !== undefined)
+      .sort((left, right) => starIndex(right.pattern) - starIndex(left.pattern));
+
+    for (const { pattern, wildcard } of matches) {
+      for (const substitution of options.paths[pattern] || []) {
+        const target = joinPath(options.pathsBase || '', substitution.replace('*', wildcard!));
+        const resolved = resolveModulePath(target, files);
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+  }
+
+  if (options.baseUrl !== undefined) {
+    return resolveModulePath(joinPath(options.baseUrl, specifier), files);
+  }
+
+  return undefined;
+}
+
+function resolvePackageTarget(pkg: WorkspacePackage, target: string, files: Set<string>): string | undefined {
+  const direct = joinPath(pkg.dir, target);
+  const candidates = [direct];
+  const [first, ...rest] = joinPath(target).split('/');
+  if (OUTPUT_DIRECTORIES.includes(first) && rest.length > 0) {
+    candidates.push(joinPath(pkg.dir, 'src', ...rest));
+  }
+
+  for (const candidate of candidates) {
+    const withoutDeclaration = candidate.replace(/\.d\.([cm]?)ts$/, '.$1js');
+    const resolved = resolveModulePath(candidate, files) || resolveModulePath(withoutDeclaration, files);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+function resolveExportValue(pkg: WorkspacePackage, value: unknown, wildcard: string | undefined, files: Set<string>): string | undefined {
+  if (typeof value === 'string') {
+    return resolvePackageTarget(pkg, wildcard === undefined ? value : value.replace(/\*/g, wildcard), files);
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const resolved = resolveExportValue(pkg, item, wildcard, files);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return undefined;
+  }
+  if (value && typeof value === 'object') {
+    const conditions = value as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in conditions) {
+        const resolved = resolveExportValue(pkg, conditions[condition], wildcard, files);
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function resolvePackageExports(pkg: WorkspacePackage, subpath: string, files: Set<string>): string | undefined {
+  const exportsField = pkg.manifest.exports;
+  const isSubpathMap = exportsField && typeof exportsField === 'object' && !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some(key => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveExportValue(pkg, exportsField, undefined, files) : undefined;
+  }
+
+  if (subpath in exportsField) {
+    return resolveExportValue(pkg, exportsField[subpath], undefined, files);
+  }
+  const patterns = Object.keys(exportsField)
+    .filter(key => key.includes('*'))
+    .sort((left, right) => starIndex(right) - starIndex(left));
+  for (const pattern of patterns) {
+    const wildcard = matchPattern(pattern, subpath);
+    if (wildcard !== undefined) {
+      return resolveExportValue(pkg, exportsField[pattern], wildcard, files);
+    }
+  }
+  return undefined;
+}
+
+function resolveWorkspacePackage(
+  specifier: string,
+  packages: WorkspacePackage[],
+  files: Set<string>
+): string | undefined {
+  const pkg = packages
+    .filter(candidate => specifier === candidate.name || specifier.startsWith(`${candidate.name}/`))
+    .sort((left, right) => right.name.length - left.name.length)[0];
+  if (!pkg) {
+    return undefined;
+  }
+
+  const rest = specifier.slice(pkg.name.length + 1);
+  const subpath = rest ? `./${rest}` : '.';
+
+  if (pkg.manifest.exports !== undefined) {
+    const exported = resolvePackageExports(pkg, subpath, files);
+    if (exported) {
+      return exported;
+    }
+  }
+
+  if (rest) {
+    return resolvePackageTarget(pkg, rest, files);
+  }
+
+  for (const field of ['source', 'module', 'main', 'types', 'typings']) {
+    if (typeof pkg.manifest[field] === 'string') {
+      const resolved = resolvePackageTarget(pkg, pkg.manifest[field], files);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return resolvePackageTarget(pkg, 'index', files) || resolvePackageTarget(pkg, 'src/index', files);
+}
+
+/**
+ * Creates a resolver that understands relative paths (including `.js` specifiers that
+ * point at `.ts` sources), tsconfig/jsconfig `baseUrl` and `paths`, and workspace
+ * packages with their `exports`/`main` fields.
+ * @param files - Every file that imports may resolve to
+ * @param manifests - Contents of the files accepted by isManifestFile, keyed by path
+ * @returns Resolver mapping specifiers to files of the tree
+ */
+export function createModuleResolver(files: Set<string>, manifests: Map<string, string>): SpecifierResolver {
+  const packages = findWorkspacePackages(manifests);
+  const compilerOptionsByConfig = new Map<string, CompilerPathOptions>();
+
+  const findCompilerOptions = (fromFile: string): CompilerPathOptions => {
+    let dir = path.posix.dirname(fromFile);
+    for (;;) {
+      const prefix = dir === '.' ? '' : `${dir}/`;
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const configPath = `${prefix}${name}`;
+        if (manifests.has(configPath)) {
+          if (!compilerOptionsByConfig.has(configPath)) {
+            compilerOptionsByConfig.set(configPath, loadCompilerPathOptions(configPath, manifests));
+          }
+          return compilerOptionsByConfig.get(configPath)!;
+        }
+      }
+      if (dir === '.' || dir === '') {
+        return {};
+      }
+      dir = path.posix.dirname(dir);
+    }
+  };
+
+  return (specifier: string, fromFile: string) => {
+    if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+      return resolveModulePath(joinPath(path.posix.dirname(fromFile), specifier), files);
+    }
+    if (specifier.startsWith('/') || /^[a-z]+:/i.test(specifier)) {
+      return undefined;
+    }
+
+    return resolveCompilerPaths(specifier, findCompilerOptions(fromFile), files) ||
+      resolveWorkspacePackage(specifier, packages, files);
+  };
+}
+
+/**
+ * Creates the resolution of every supported language: imports of Python, Go, Rust and
+ * Java files go to that language's resolver, all others to createModuleResolver.
+ * @param files - Every file that imports may resolve to
+ * @param manifests - Contents of the files accepted by isManifestFile, keyed by path
+ * @returns Resolvers for import specifiers, module names and multi-file modules
+ */
+export function createModuleResolution(files: Set<string>, manifests: Map<string, string>): ModuleResolution {
+  const resolveScriptSpecifier = createModuleResolver(files, manifests);
+  const languages = createLanguageResolvers(files, manifests);
+  const findLanguage = (filePath: string) => languages.find(language => language.isSource(filePath));
+
+  return {
+    resolveSpecifier(specifier: string, fromFile: string): string | undefined {
+      const language = findLanguage(fromFile);
+      return language ? language.resolveImport(specifier, fromFile) : resolveScriptSpecifier(specifier, fromFile);
+    },
+    resolveModuleName(name: string): string | undefined {
+      if (files.has(name)) {
+        return name;
+      }
+      for (const language of languages) {
+        const resolved = language.resolveModuleName(name);
+        if (resolved) {
+          return resolved;
+        }
+      }
+      return undefined;
+    },
+    getModulePath(filePath: string): string {
+      return findLanguage(filePath)?.getModulePath?.(filePath) ?? filePath;
+    },
+  };
+}
+
+/**
+ * Builds the module resolution from the manifests of a git tree.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch or tag whose configuration is used
+ * @returns Resolution for the tree at `ref`
+ */
+export async function loadModuleResolution(workspacePath: string, ref: string): Promise<ModuleResolution> {
+  const paths = await listTreeFiles(workspacePath, ref);
+  const manifests = await readTreeFiles(workspacePath, ref, paths.filter(isManifestFile));
+  return createModuleResolution(new Set(paths), manifests);
+}
+
+/**
+ * Lists the packages of a git tree.
+ * @param workspacePath - Root of the git checkout
+ * @param ref - Commit, branch or tag whose manifests are read
+ * @returns Packages sorted by directory
+ */
+export async function loadWorkspacePackages(workspacePath: string, ref: string): Promise<WorkspacePackage[]> {
+  const paths = await listTreeFiles(workspacePath, ref);
+  const manifests = await readTreeFiles(workspacePath, ref, paths.filter(isManifestFile));
+  return findWorkspacePackages(manifests);
+}
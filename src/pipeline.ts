@@ -0,0 +1,460 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import * as path from 'path';
+import { findRuleViolations } from './architecture-rules';
+import { loadCycleFixes } from './autofix';
+import { annotateBreakEdges, recommendBreakEdges } from './break-edges';
+import { DEFAULT_BASELINE_PATH, applyBaseline, createBaseline, loadBaseline, writeBaseline } from './baseline';
+import {
+  BaselineComparison,
+  BreakRecommendations,
+  CircularDependencyResult,
+  CycleAllowance,
+  CycleComparison,
+  CycleDetectionOptions,
+  CycleFix,
+  DependencyGraph,
+  EDGE_KINDS,
+  EdgeKind,
+  GraphDiagnostics,
+  GroupCycleResult,
+  RuleViolation,
+  TangleResult,
+  buildDependencyGraph,
+  compareCircularDependencies,
+  detectCycles,
+  findTangles,
+  getReportedCycles,
+} from './circular-deps';
+import { annotateOwners, createOwnerMatcher, loadCodeowners } from './codeowners';
+import { ProjectConfig, getCycleSeverity, getFileFilter, matchAllowedCycles } from './config';
+import { CacheStore, createCachedProvider, openCacheStore } from './graph-cache';
+import { formatDiagnosticsReport, getDiagnosticWarnings, summarizeDiagnostics } from './graph-diagnostics';
+import { createGraphFileProvider, GraphFileFormat } from './graph-file';
+import { CodeGraph, GraphProvider, GraphProviderName, Logger } from './graph-provider';
+import { GraphSchema } from './graph-schema';
+import {
+  FileGrouper,
+  GroupingMode,
+  findGroupCycles,
+  groupByDirectory,
+  groupByPackage,
+  groupByPatterns,
+} from './grouping';
+import { annotateInitOrder } from './init-order';
+import { createLocalGraphProvider } from './local-graph';
+import { loadModuleResolution, loadWorkspacePackages } from './module-resolver';
+import { createSupermodelProvider } from './supermodel-provider';
+
+/**
+ * How to collapse files into groups for group-level cycle detection.
+ */
+export interface GroupingSettings {
+  mode: GroupingMode;
+  /** Directory segments that name a group in `directory` mode. */
+  depth?: number;
+  /** Group names keyed by glob pattern in `glob` mode. */
+  patterns?: Record<string, string>;
+}
+
+/**
+ * Settings for one analysis run, shared by the action and the CLI.
+ */
+export interface AnalysisOptions {
+  /** Root of the git checkout. */
+  workspacePath: string;
+  provider: GraphProvider;
+  /** Commit, branch, tag or tree to analyze. Defaults to `HEAD`. */
+  ref?: string;
+  /** Base commit to compare with; only cycles introduced since then are reported. */
+  baseRef?: string;
+  /** Baseline file relative to the workspace. Defaults to DEFAULT_BASELINE_PATH. */
+  baselineFile?: string;
+  /** Rewrite the baseline from the current cycles instead of applying it. */
+  updateBaseline?: boolean;
+  ignorePatterns?: string[];
+  /** Cycle kinds that count as failures. Defaults to every kind. */
+  failingKinds?: EdgeKind[];
+  detection?: CycleDetectionOptions;
+  grouping?: GroupingSettings;
+  /** Settings from the project's config file. */
+  config?: ProjectConfig;
+  /** Only report cycles that pass through one of these files, e.g. the staged ones. */
+  focusFiles?: string[];
+  /** Directory keeping the cycles of unchanged tangles between runs. */
+  cacheDirectory?: string;
+  /** How the code graph maps to files and dependencies. Defaults to the config file's, then `auto`. */
+  schema?: GraphSchema;
+  /** Look for edits to imports that remove dependencies of the cycles. */
+  findFixes?: boolean;
+  /** CODEOWNERS file relative to the workspace. Defaults to the first one GitHub would use, if any. */
+  codeownersFile?: string;
+  /** Log the full diagnostics report of the graph mapping. */
+  debug?: boolean;
+  logger?: Logger;
+}
+
+/**
+ * Everything an analysis run found.
+ */
+export interface AnalysisResult {
+  codeGraph: CodeGraph;
+  graph: DependencyGraph;
+  /** How the code graph mapped to files and dependencies. */
+  diagnostics: GraphDiagnostics;
+  /**
+   * All detected cycles, with break edges, the initialization-order ranking of runtime cycles
+   * and the owners of their files attached.
+   */
+  cycles: CircularDependencyResult[];
+  /** True when cycle enumeration stopped at `maxCycles`. */
+  truncated: boolean;
+  breakRecommendations: BreakRecommendations;
+  tangles: TangleResult[];
+  groupCycles: GroupCycleResult[];
+  comparison?: CycleComparison;
+  baseline?: BaselineComparison;
+  /** Cycles accepted by the config file, through allowedCycles or an `ignore` severity. */
+  allowances: CycleAllowance[];
+  /** Cycles reported as problems: new since the base, outside the baseline, not allowed and in focus. */
+  reportedCycles: CircularDependencyResult[];
+  /** Reported cycles whose kind is one of the failing kinds and whose severity is `error`. */
+  failingCycles: CircularDependencyResult[];
+  /** CODEOWNERS file the cycles were attributed with; undefined when the tree has none. */
+  codeownersFile?: string;
+  /** Verified edits to imports that remove dependencies of the cycles; empty unless `findFixes` is set. */
+  fixes: CycleFix[];
+  /** Every dependency breaking a layer or forbidden-dependency rule of the config file. */
+  violations: RuleViolation[];
+  /** Violations reported as problems: new since the base and in focus. They always fail. */
+  reportedViolations: RuleViolation[];
+}
+
+function pluralize(count: number, singular: string, plural: string): string {
+  return count === 1 ? singular : plural;
+}
+
+async function ensureCommitAvailable(workspacePath: string, sha: string, logger: Logger): Promise<void> {
+  const exitCode = await exec.exec('git', ['cat-file', '-e', `${sha}^{commit}`], {
+    cwd: workspacePath,
+    ignoreReturnCode: true,
+    silent: true,
+  });
+
+  if (exitCode !== 0) {
+    logger.info(`Fetching base commit ${sha}...`);
+    await exec.exec('git', ['fetch', '--no-tags', '--depth=1', 'origin', sha], {
+      cwd: workspacePath,
+      silent: true,
+    });
+  }
+}
+
+function logGraphDiagnostics(codeGraph: CodeGraph, diagnostics: GraphDiagnostics, debug: boolean, logger: Logger): void {
+  logger.info(summarizeDiagnostics(diagnostics));
+  for (const warning of getDiagnosticWarnings(diagnostics)) {
+    logger.warning(warning);
+  }
+  if (!debug) {
+    return;
+  }
+  if (codeGraph.message) {
+    logger.info(`Graph message: ${codeGraph.message}`);
+  }
+  if (codeGraph.stats) {
+    logger.info(`Graph stats: ${JSON.stringify(codeGraph.stats)}`);
+  }
+  logger.info(formatDiagnosticsReport(diagnostics));
+}
+
+/**
+ * Settings for creating a graph provider.
+ */
+export interface ProviderSettings {
+  /** Directory keeping graphs and parsed files between runs. Caching is off when omitted. */
+  cacheDirectory?: string;
+  /** Overall time budget of one Supermodel graph request, including retries and polling. */
+  apiTimeoutMs?: number;
+  /** Largest archive to upload to Supermodel; no limit when zero. */
+  maxArchiveBytes?: number;
+  /** Graph file to load instead of building a graph; the provider name is ignored. */
+  graphFile?: string;
+  /** Format of the graph file; detected from its contents when omitted. */
+  graphFormat?: GraphFileFormat;
+}
+
+/** Cached cycle lists of tangles; a tangle's list is replaced whenever its edges change. */
+const MAX_CACHED_COMPONENTS = 1000;
+
+/**
+ * Creates the graph provider selected by the user.
+ * @param name - Provider name
+ * @param apiKey - Supermodel API key, required for the `supermodel` provider
+ * @param logger - Destination of progress messages
+ * @param settings - Cache location, Supermodel request limits and graph file
+ * @returns The provider, wrapped in the graph cache when a cache directory is given
+ */
+export function createProvider(
+  name: GraphProviderName,
+  apiKey: string,
+  logger: Logger = core,
+  settings: ProviderSettings = {}
+): GraphProvider {
+  const { cacheDirectory } = settings;
+  if (settings.graphFile) {
+    return createGraphFileProvider(settings.graphFile, logger, settings.graphFormat);
+  }
+  const provider = createUncachedProvider(name, apiKey, logger, settings);
+  return cacheDirectory ? createCachedProvider(provider, { directory: cacheDirectory, logger }) : provider;
+}
+
+function createUncachedProvider(
+  name: GraphProviderName,
+  apiKey: string,
+  logger: Logger,
+  settings: ProviderSettings
+): GraphProvider {
+  if (name === 'local') {
+    return createLocalGraphProvider({ cacheDirectory: settings.cacheDirectory });
+  }
+
+  if (!apiKey) {
+    throw new Error('A Supermodel API key is required when graph-provider is "supermodel"');
+  }
+  if (!apiKey.startsWith('smsk_')) {
+    logger.warning('API key format looks incorrect. Get your key at https://dashboard.supermodeltools.com');
+  }
+
+  return createSupermodelProvider({
+    apiKey,
+    basePath: process.env.SUPERMODEL_BASE_URL,
+    logger,
+    client: { timeoutMs: settings.apiTimeoutMs },
+    maxArchiveBytes: settings.maxArchiveBytes,
+  });
+}
+
+async function createGrouper(settings: GroupingSettings, workspacePath: string, ref: string): Promise<FileGrouper> {
+  if (settings.mode === 'package') {
+    return groupByPackage(await loadWorkspacePackages(workspacePath, ref));
+  }
+  if (settings.mode === 'directory') {
+    return groupByDirectory(settings.depth ?? 1);
+  }
+  return groupByPatterns(settings.patterns ?? {});
+}
+
+/**
+ * Builds the graph of a tree and runs every analysis on it: cycle detection, break
+ * recommendations, initialization-order hazards, code owners, mechanical fixes, tangles,
+ * group cycles, the base comparison and the baseline.
+ * @param options - What to analyze and how
+ * @returns The findings, including which cycles are reported and which fail
+ */
+export async function analyze(options: AnalysisOptions): Promise<AnalysisResult> {
+  const {
+    workspacePath,
+    provider,
+    ref = 'HEAD',
+    baseRef,
+    baselineFile = DEFAULT_BASELINE_PATH,
+    failingKinds = EDGE_KINDS,
+    config,
+    logger = core,
+  } = options;
+  const ignorePatterns = [...(options.ignorePatterns || []), ...(config?.exclude || [])];
+  const fileFilter = config ? getFileFilter(config) : undefined;
+  const schema = options.schema ?? config?.graphSchema;
+  const componentCache: CacheStore<string[][]> | undefined = options.cacheDirectory
+    ? await openCacheStore(path.join(options.cacheDirectory, 'component-cycles.json'), MAX_CACHED_COMPONENTS)
+    : undefined;
+  const detectionOptions: CycleDetectionOptions = {
+    ...options.detection,
+    maxCycleLength: options.detection?.maxCycleLength || config?.maxCycleLength,
+    componentCache,
+  };
+
+  // Step 1: Build the code graph
+  logger.info(`Building code graph with the ${provider.name} provider...`);
+  const codeGraph = await provider.generateGraph(workspacePath, ref);
+
+  // Step 2: Analyze for circular dependencies
+  const { nodes, relationships } = codeGraph;
+  // The local provider resolves imports itself; other graphs may name modules instead of files.
+  const resolution = provider.name === 'local' ? undefined : await loadModuleResolution(workspacePath, ref);
+
+  const graph = buildDependencyGraph(nodes, relationships, ignorePatterns, { ...resolution, fileFilter, schema });
+  const diagnostics = graph.diagnostics!;
+  logGraphDiagnostics(codeGraph, diagnostics, !!options.debug, logger);
+  const detection = detectCycles(graph, detectionOptions);
+  const breakRecommendations = recommendBreakEdges(detection.cycles);
+  let cycles = annotateBreakEdges(detection.cycles, breakRecommendations);
+  try {
+    cycles = await annotateInitOrder(workspacePath, ref, cycles);
+  } catch (error: any) {
+    logger.warning(`Skipped the initialization-order analysis, could not read the sources: ${error.message}`);
+  }
+  const codeowners = await loadCodeowners(workspacePath, ref, options.codeownersFile);
+  if (codeowners) {
+    cycles = annotateOwners(cycles, createOwnerMatcher(codeowners.rules));
+  }
+  const tangles = findTangles(graph);
+  const violations = config ? findRuleViolations(graph, config) : [];
+
+  if (detection.truncated) {
+    logger.warning(`Stopped enumerating cycles after ${detectionOptions.maxCycles}; raise max-cycles to see more`);
+  }
+  logger.info(`Found ${tangles.length} ${pluralize(tangles.length, 'tangle', 'tangles')} (strongly connected components)`);
+
+  logger.info(`Found ${cycles.length} ${pluralize(cycles.length, 'circular dependency', 'circular dependencies')}`);
+  const hazardous = cycles.filter(cycle => cycle.initOrder === 'hazardous').length;
+  if (hazardous > 0) {
+    logger.info(
+      `${hazardous} ${pluralize(hazardous, 'cycle uses', 'cycles use')} an imported binding while a module initializes`
+    );
+  }
+  if (codeowners) {
+    const crossTeam = cycles.filter(cycle => cycle.crossTeam).length;
+    logger.info(
+      `Attributed cycles to owners with ${codeowners.file}: ` +
+      `${crossTeam} ${pluralize(crossTeam, 'cycle crosses', 'cycles cross')} team boundaries`
+    );
+  }
+  if (config && (config.layers.length > 0 || config.forbidden.length > 0)) {
+    logger.info(`Found ${violations.length} architecture rule ${pluralize(violations.length, 'violation', 'violations')}`);
+  }
+
+  let fixes: CycleFix[] = [];
+  if (options.findFixes) {
+    fixes = await loadCycleFixes(workspacePath, ref, cycles);
+    const fixedCycles = new Set(fixes.flatMap(fix => fix.cycles)).size;
+    logger.info(
+      `Found ${fixes.length} mechanical ${pluralize(fixes.length, 'fix', 'fixes')} ` +
+      `for dependencies of ${fixedCycles} ${pluralize(fixedCycles, 'cycle', 'cycles')}`
+    );
+  }
+
+  const groupCycles = options.grouping
+    ? findGroupCycles(graph, await createGrouper(options.grouping, workspacePath, ref), {
+      maxLength: detectionOptions.maxCycleLength,
+      maxCycles: detectionOptions.maxCycles,
+    })
+    : [];
+  if (options.grouping) {
+    logger.info(
+      `Found ${groupCycles.length} ${pluralize(groupCycles.length, 'cycle', 'cycles')} ` +
+      `between ${options.grouping.mode} groups`
+    );
+  }
+
+  // Step 2b: Compare against the base commit
+  let comparison: CycleComparison | undefined;
+  let reportedViolations = violations;
+  if (baseRef) {
+    await ensureCommitAvailable(workspacePath, baseRef, logger);
+    const baseCodeGraph = await provider.generateGraph(workspacePath, baseRef);
+
+    const baseGraph = buildDependencyGraph(baseCodeGraph.nodes, baseCodeGraph.relationships, ignorePatterns, {
+      fileFilter,
+      schema,
+      ...(provider.name === 'local' ? {} : await loadModuleResolution(workspacePath, baseRef)),
+    });
+    comparison = compareCircularDependencies(detectCycles(baseGraph, detectionOptions).cycles, cycles);
+    if (violations.length > 0) {
+      const baseViolations = new Set(findRuleViolations(baseGraph, config!).map(violation => violation.id));
+      reportedViolations = violations.filter(violation => !baseViolations.has(violation.id));
+    }
+
+    logger.info(
+      `Compared with base ${baseRef.slice(0, 7)}: ${comparison.introduced.length} new, ` +
+      `${comparison.fixed.length} fixed, ${comparison.unchanged.length} unchanged`
+    );
+  }
+
+  await componentCache?.save();
+
+  // Step 2c: Apply or regenerate the committed baseline
+  let baseline: BaselineComparison | undefined;
+  const baselinePath = path.resolve(workspacePath, baselineFile);
+  if (options.updateBaseline) {
+    await writeBaseline(baselinePath, createBaseline(cycles));
+    logger.info(`Wrote baseline with ${cycles.length} cycle(s) to ${baselineFile}`);
+  } else {
+    const loadedBaseline = await loadBaseline(baselinePath);
+    if (loadedBaseline) {
+      baseline = applyBaseline(cycles, loadedBaseline);
+      logger.info(
+        `Baseline ${baselineFile}: ${baseline.known.length} known, ` +
+        `${baseline.introduced.length} new, ${baseline.removable.length} removable`
+      );
+      if (baseline.removable.length > 0) {
+        logger.warning(
+          `${baseline.removable.length} baseline ${pluralize(baseline.removable.length, 'entry is', 'entries are')} ` +
+          `no longer present. Regenerate ${baselineFile} with update-baseline.`
+        );
+      }
+    }
+  }
+
+  // Step 2d: Apply the allowed cycles and severities of the config file
+  let allowances: CycleAllowance[] = [];
+  if (config) {
+    const matched = matchAllowedCycles(cycles, config);
+    allowances = matched.allowances;
+    for (const allowed of matched.expired) {
+      logger.warning(
+        `Allowed cycle ${allowed.files.join(' -> ')} expired on ${allowed.expires} and is reported again ` +
+        `(justification: ${allowed.justification})`
+      );
+    }
+    if (allowances.length > 0) {
+      logger.info(`${allowances.length} ${pluralize(allowances.length, 'cycle is', 'cycles are')} allowed by the config file`);
+    }
+  }
+
+  let reportedCycles = getReportedCycles(cycles, { comparison, baseline, allowances });
+  if (options.focusFiles) {
+    // Cycles between multi-file modules, such as Go packages, list the modules instead of files.
+    const focus = new Set(options.focusFiles.map(file => resolution?.getModulePath(file) ?? file));
+    reportedCycles = reportedCycles.filter(cycle => cycle.cycle.some(file => focus.has(file)));
+    reportedViolations = reportedViolations.filter(violation => focus.has(violation.edge.from));
+  }
+  const kindFailing = reportedCycles.filter(cycle => failingKinds.includes(cycle.kind ?? 'runtime'));
+  const exemptCount = reportedCycles.length - kindFailing.length;
+  if (exemptCount > 0) {
+    logger.info(
+      `${exemptCount} ${pluralize(exemptCount, 'cycle only contains', 'cycles only contain')} ` +
+      `edge kinds outside failing-cycle-kinds and will not fail the build`
+    );
+  }
+  const failingCycles = config
+    ? kindFailing.filter(cycle => getCycleSeverity(config.severity, cycle).severity === 'error')
+    : kindFailing;
+  const warnCount = kindFailing.length - failingCycles.length;
+  if (warnCount > 0) {
+    logger.info(
+      `${warnCount} ${pluralize(warnCount, 'cycle has', 'cycles have')} severity warn in the config file ` +
+      `and will not fail the build`
+    );
+  }
+
+  return {
+    codeGraph,
+    graph,
+    diagnostics,
+    cycles,
+    truncated: detection.truncated,
+    breakRecommendations,
+    tangles,
+    groupCycles,
+    comparison,
+    baseline,
+    allowances,
+    reportedCycles,
+    failingCycles,
+    codeownersFile: codeowners?.file,
+    fixes,
+    violations,
+    reportedViolations,
+  };
+}
@@ -0,0 +1,185 @@
+import * as github from '@actions/github';
+import { createHash } from 'crypto';
+import { CycleFix, FixEdit, FixKind } from './circular-deps';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Hidden marker identifying a suggestion this action posted, followed by the suggestion's key. */
+export const SUGGESTION_MARKER = '<!-- circular-dependency-hunter:fix ';
+
+/**
+ * A review comment suggesting a change, as accepted by the pull request reviews API.
+ */
+export interface ReviewSuggestion {
+  path: string;
+  /** Last line of the suggested change. */
+  line: number;
+  /** First line of the suggested change, when it spans several lines. */
+  start_line?: number;
+  side: 'RIGHT';
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+/**
+ * The pull request to review.
+ */
+export interface ReviewTarget {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** Head commit the suggested lines belong to. */
+  commitId: string;
+}
+
+const FIX_EXPLANATIONS: Record<FixKind, string> = {
+  'type-only-import': 'Every binding of this import is only used as a type, so `import type` keeps it out of the runtime graph.',
+  'bypass-barrel': 'Importing from the files that define these bindings avoids loading the barrel that re-exports them.',
+};
+
+/**
+ * Lists the lines of a file's diff that can carry review comments: the added and unchanged
+ * lines of every hunk, numbered as in the head commit.
+ * @param patch - The `patch` of a file, as listed by the pull request files API
+ * @returns Text of each line, without its line ending, keyed by line number in the head commit
+ */
+export function parseDiffLines(patch: string): Map<number, string> {
+  const lines = new Map<number, string>();
+  let line = 0;
+  for (const text of patch.split('\n')) {
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+    if (hunk) {
+      line = parseInt(hunk[1], 10);
+    } else if (line > 0 && (text.startsWith('+') || text.startsWith(' '))) {
+      lines.set(line, text.slice(1).replace(/\r$/, ''));
+      line += 1;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Lists the lines of each changed file that can carry review comments.
+ * @param octokit - Authenticated GitHub client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullNumber - Pull request number
+ * @returns Commentable lines keyed by path
+ */
+export async function listDiffLines(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<Map<string, Map<number, string>>> {
+  const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+  return new Map(files
+    .filter(file => file.status !== 'removed' && file.patch)
+    .map(file => [file.filename, parseDiffLines(file.patch!)]));
+}
+
+function matchesHead(edit: FixEdit, lines: Map<number, string> | undefined): boolean {
+  const original = edit.original.split('\n').map(text => text.replace(/\r$/, ''));
+  return !!lines &&
+    original.length === edit.endLine - edit.startLine + 1 &&
+    original.every((text, index) => lines.get(edit.startLine + index) === text);
+}
+
+/**
+ * Creates one suggested change per fix edit on lines of the pull request's diff. GitHub
+ * rejects review comments outside the diff, so edits elsewhere are left out. Fixes are found
+ * in the checked out tree, which is the merge commit on pull request events, so an edit is
+ * also left out unless its original text is on the same lines of the head commit.
+ * @param fixes - Verified fixes
+ * @param diffLines - Commentable lines with their text keyed by path, from listDiffLines
+ * @returns Suggestions in fix order
+ */
+export function createFixSuggestions(
+  fixes: CycleFix[],
+  diffLines: Map<string, Map<number, string>>
+): ReviewSuggestion[] {
+  const suggestions: ReviewSuggestion[] = [];
+  for (const fix of fixes) {
+    const lines = diffLines.get(fix.from);
+    for (const edit of fix.edits) {
+      if (!matchesHead(edit, lines)) {
+        continue;
+      }
+      const key = createHash('sha1')
+        .update(`${fix.from}\u0000${edit.original}\u0000${edit.replacement}`)
+        .digest('hex')
+        .slice(0, 16);
+      const count = fix.cycles.length;
+      const body = `${SUGGESTION_MARKER}${key} -->
+**Breaks ${count} circular dependenc${count === 1 ? 'y' : 'ies'}** through \`${fix.from} -> ${fix.to}\`. ` +
+        `${FIX_EXPLANATIONS[edit.kind]}
+
+\`\`\`suggestion
+${edit.replacement}
+\`\`\``;
+      suggestions.push({
+        path: fix.from,
+        line: edit.endLine,
+        ...(edit.startLine < edit.endLine ? { start_line: edit.startLine, start_side: 'RIGHT' as const } : {}),
+        side: 'RIGHT',
+        body,
+      });
+    }
+  }
+  return suggestions;
+}
+
+function getSuggestionKey(body: string): string | undefined {
+  const start = body.indexOf(SUGGESTION_MARKER);
+  if (start === -1) {
+    return undefined;
+  }
+  const end = body.indexOf(' -->', start);
+  return end === -1 ? undefined : body.slice(start + SUGGESTION_MARKER.length, end);
+}
+
+/**
+ * Posts the suggestions as one pull request review, skipping those posted by an earlier run.
+ * @param octokit - Authenticated GitHub client
+ * @param target - Pull request and head commit
+ * @param suggestions - Suggestions from createFixSuggestions
+ * @returns Number of suggestions posted
+ */
+export async function postFixSuggestions(
+  octokit: Octokit,
+  target: ReviewTarget,
+  suggestions: ReviewSuggestion[]
+): Promise<number> {
+  if (suggestions.length === 0) {
+    return 0;
+  }
+  const { owner, repo, pullNumber } = target;
+  const existing = await octokit.paginate(octokit.rest.pulls.listReviewComments, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+  const posted = new Set(existing.map(comment => getSuggestionKey(comment.body)).filter(Boolean));
+  const comments = suggestions.filter(suggestion => !posted.has(getSuggestionKey(suggestion.body)));
+  if (comments.length === 0) {
+    return 0;
+  }
+
+  await octokit.rest.pulls.createReview({
+    owner,
+    repo,
+    pull_number: pullNumber,
+    commit_id: target.commitId,
+    event: 'COMMENT',
+    body: `Circular Dependency Hunter found ${comments.length} suggested ` +
+      `change${comments.length === 1 ? '' : 's'} that break circular dependencies.`,
+    comments,
+  });
+  return comments.length;
+}
@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CircularDependencyResult, CycleEdge, RuleViolation } from './circular-deps';
+
+/** Rule id reported for every cycle. */
+export const SARIF_RULE_ID = 'circular-dependency';
+
+/** Rule id reported for every layer or forbidden-dependency violation. */
+export const FORBIDDEN_DEPENDENCY_RULE_ID = 'forbidden-dependency';
+
+const INFORMATION_URI = 'https://github.com/supermodeltools/circular-dependency-hunter';
+
+const CYCLE_RULE = {
+  id: SARIF_RULE_ID,
+  name: 'CircularDependency',
+  shortDescription: { text: 'Circular import dependency' },
+  fullDescription: {
+    text: 'Files that import each other, directly or through other files, form a cycle. ' +
+      'Cycles make modules harder to test and can break initialization order at runtime.',
+  },
+  helpUri: INFORMATION_URI,
+  defaultConfiguration: { level: 'warning' },
+};
+
+const FORBIDDEN_DEPENDENCY_RULE = {
+  id: FORBIDDEN_DEPENDENCY_RULE_ID,
+  name: 'ForbiddenDependency',
+  shortDescription: { text: 'Dependency forbidden by an architecture rule' },
+  fullDescription: {
+    text: 'An import that crosses a layer boundary upwards or matches a forbidden dependency ' +
+      'declared in the project config file.',
+  },
+  helpUri: INFORMATION_URI,
+  defaultConfiguration: { level: 'error' },
+};
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * A physical location in a SARIF report.
+ */
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number };
+  };
+  message?: { text: string };
+}
+
+/**
+ * One finding of a SARIF report.
+ */
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * A SARIF 2.1.0 log with a single run.
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version?: string;
+        informationUri: string;
+        rules: Array<Record<string, unknown>>;
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Options for building a SARIF report.
+ */
+export interface SarifOptions {
+  /** Version of the action, reported as the tool version. */
+  toolVersion?: string;
+  /** Architecture rule violations, reported as errors next to the cycles. */
+  violations?: RuleViolation[];
+}
+
+/**
+ * Derives a stable fingerprint from a normalized cycle id, so code scanning can track
+ * the same cycle across runs and close the alert once it is gone.
+ * @param cycleId - Normalized cycle id
+ * @returns Hex-encoded SHA-256 of the id
+ */
+export function getCycleFingerprint(cycleId: string): string {
+  return createHash('sha256').update(cycleId).digest('hex');
+}
+
+function getLevel(cycle: CircularDependencyResult): SarifLevel {
+  return cycle.kind === 'type-only' ? 'note' : 'warning';
+}
+
+function getHopLocation(from: string, to: string, edge: CycleEdge | undefined, id?: number): SarifLocation {
+  const site = edge?.imports.find(candidate => candidate.line !== undefined) ?? edge?.imports[0];
+  const line = site?.line;
+  return {
+    ...(id !== undefined ? { id } : {}),
+    physicalLocation: {
+      // Hops between Go packages start at a directory; point at the file with the import.
+      artifactLocation: { uri: site?.file ?? from },
+      ...(line !== undefined ? { region: { startLine: line } } : {}),
+    },
+    message: { text: `imports ${to}` },
+  };
+}
+
+function toResult(cycle: CircularDependencyResult): SarifResult {
+  const hops = cycle.cycle.map((from, index) => ({
+    from,
+    to: cycle.cycle[(index + 1) % cycle.cycle.length],
+    edge: cycle.edges?.[index],
+  }));
+  const [first, ...rest] = hops;
+  const chain = cycle.cycle.concat(cycle.cycle[0]).join(' -> ');
+
+  return {
+    ruleId: SARIF_RULE_ID,
+    level: getLevel(cycle),
+    message: { text: `Circular dependency: ${chain}` },
+    locations: [getHopLocation(first.from, first.to, first.edge)],
+    relatedLocations: rest.map((hop, index) => getHopLocation(hop.from, hop.to, hop.edge, index + 1)),
+    partialFingerprints: { 'circularDependency/v1': getCycleFingerprint(cycle.id) },
+    properties: {
+      cycleId: cycle.id,
+      length: cycle.length,
+      ...(cycle.kind ? { kind: cycle.kind } : {}),
+    },
+  };
+}
+
+function toViolationResult(violation: RuleViolation): SarifResult {
+  const { edge } = violation;
+  const reason = violation.reason ? ` (${violation.reason})` : '';
+  return {
+    ruleId: FORBIDDEN_DEPENDENCY_RULE_ID,
+    level: 'error',
+    message: { text: `Forbidden dependency: ${edge.from} -> ${edge.to} breaks ${violation.rule}${reason}` },
+    locations: [getHopLocation(edge.from, edge.to, edge)],
+    relatedLocations: [],
+    partialFingerprints: { 'forbiddenDependency/v1': getCycleFingerprint(violation.id) },
+    properties: {
+      violationId: violation.id,
+      rule: violation.rule,
+      kind: edge.kind,
+    },
+  };
+}
+
+/**
+ * Builds a SARIF 2.1.0 report with one result per cycle, located at the import in the
+ * first file of the cycle and with a related location for every other hop. Architecture
+ * rule violations, when given, become results of a second rule at the offending import.
+ * @param cycles - Detected cycles
+ * @param options - Tool metadata and rule violations
+ * @returns The SARIF log
+ */
+export function createSarifReport(cycles: CircularDependencyResult[], options: SarifOptions = {}): SarifLog {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Circular Dependency Hunter',
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          informationUri: INFORMATION_URI,
+          rules: [CYCLE_RULE, ...(options.violations ? [FORBIDDEN_DEPENDENCY_RULE] : [])],
+        },
+      },
+      results: [...cycles.map(toResult), ...(options.violations || []).map(toViolationResult)],
+    }],
+  };
+}
+
+/**
+ * Writes a SARIF report to disk, creating the parent directory if needed.
+ * @param filePath - Destination path
+ * @param report - Report to write
+ */
+export async function writeSarifReport(filePath: string, report: SarifLog): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+}
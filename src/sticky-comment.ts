@@ -0,0 +1,127 @@
+import * as github from '@actions/github';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Hidden marker identifying the comment this action maintains on a PR. */
+export const COMMENT_MARKER = '<!-- circular-dependency-hunter -->';
+
+const STATE_PREFIX = '<!-- circular-dependency-hunter:state ';
+const STATE_SUFFIX = ' -->';
+
+/** Longest hidden state kept in a comment; larger states are left out so the findings still fit. */
+const MAX_STATE_LENGTH = 20000;
+
+/**
+ * The pull request a sticky comment belongs to.
+ */
+export interface CommentTarget {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+/**
+ * A comment previously posted by this action.
+ */
+export interface StickyComment {
+  id: number;
+  body: string;
+  /** Ids of the cycles the comment reported, when it carries them. */
+  cycleIds?: string[];
+}
+
+/**
+ * Adds the hidden marker and the reported cycle ids to a comment body, so the next run
+ * can find the comment and tell what changed since. When the ids would take more than
+ * MAX_STATE_LENGTH characters, only the marker is added.
+ * @param body - Markdown comment
+ * @param cycleIds - Ids of the cycles the comment reports
+ * @returns Comment body with hidden metadata
+ */
+export function embedCommentState(body: string, cycleIds: string[]): string {
+  // Base64 keeps file names containing `-->` from closing the HTML comment early.
+  const state = Buffer.from(JSON.stringify({ cycles: cycleIds }), 'utf8').toString('base64');
+  if (state.length > MAX_STATE_LENGTH) {
+    return `${COMMENT_MARKER}\n${body}`;
+  }
+  return `${COMMENT_MARKER}\n${STATE_PREFIX}${state}${STATE_SUFFIX}\n${body}`;
+}
+
+/**
+ * Reads the reported cycle ids back from a comment body.
+ * @param body - Comment body written by embedCommentState
+ * @returns Cycle ids, or undefined if the body carries no readable state
+ */
+export function parseCommentState(body: string): string[] | undefined {
+  const start = body.indexOf(STATE_PREFIX);
+  if (start === -1) {
+    return undefined;
+  }
+  const end = body.indexOf(STATE_SUFFIX, start + STATE_PREFIX.length);
+  if (end === -1) {
+    return undefined;
+  }
+  try {
+    const state = JSON.parse(Buffer.from(body.slice(start + STATE_PREFIX.length, end), 'base64').toString('utf8'));
+    return Array.isArray(state?.cycles) && state.cycles.every((id: unknown) => typeof id === 'string')
+      ? state.cycles
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the comment this action last posted on a PR.
+ * @param octokit - Authenticated GitHub client
+ * @param target - Pull request to search
+ * @returns The most recent marked comment, or undefined if there is none
+ */
+export async function findStickyComment(octokit: Octokit, target: CommentTarget): Promise<StickyComment | undefined> {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: target.owner,
+    repo: target.repo,
+    issue_number: target.issueNumber,
+    per_page: 100,
+  });
+
+  const comment = comments.reverse().find(candidate => candidate.body?.includes(COMMENT_MARKER));
+  if (!comment) {
+    return undefined;
+  }
+  const body = comment.body || '';
+  return { id: comment.id, body, cycleIds: parseCommentState(body) };
+}
+
+/**
+ * Updates the action's previous comment in place, or posts a new one if there is none.
+ * @param octokit - Authenticated GitHub client
+ * @param target - Pull request to comment on
+ * @param body - Comment body, including the hidden metadata
+ * @param previous - The previous comment found by findStickyComment
+ * @returns Whether the comment was created or updated
+ */
+export async function upsertStickyComment(
+  octokit: Octokit,
+  target: CommentTarget,
+  body: string,
+  previous: StickyComment | undefined
+): Promise<'created' | 'updated'> {
+  if (previous) {
+    await octokit.rest.issues.updateComment({
+      owner: target.owner,
+      repo: target.repo,
+      comment_id: previous.id,
+      body,
+    });
+    return 'updated';
+  }
+
+  await octokit.rest.issues.createComment({
+    owner: target.owner,
+    repo: target.repo,
+    issue_number: target.issueNumber,
+    body,
+  });
+  return 'created';
+}
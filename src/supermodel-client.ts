@@ -0,0 +1,287 @@
+import * as core from '@actions/core';
+import { Logger } from './graph-provider';
+
+/** Default overall time budget of one graph request, including retries and polling. */
+export const DEFAULT_API_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Default limit on the size of the uploaded archive. */
+export const DEFAULT_MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * What went wrong while talking to the Supermodel API.
+ */
+export type SupermodelErrorCode =
+  | 'unauthorized'
+  | 'rate-limited'
+  | 'server-error'
+  | 'client-error'
+  | 'timeout'
+  | 'network'
+  | 'archive-too-large';
+
+/**
+ * Settings for requests to the Supermodel API.
+ */
+export interface SupermodelClientOptions {
+  /** Overall time budget per graph, including retries and polling. Defaults to 15 minutes. */
+  timeoutMs?: number;
+  /** Retries of a failed request before giving up. Defaults to 4. */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled on every further one. Defaults to 1 second. */
+  initialDelayMs?: number;
+  /** Longest delay between retries, unless the API asks for more with Retry-After. Defaults to 30 seconds. */
+  maxDelayMs?: number;
+  /** Delay between status checks of an analysis running asynchronously. Defaults to 5 seconds. */
+  pollIntervalMs?: number;
+  /** Destination of retry and polling messages. Defaults to the Actions log. */
+  logger?: Logger;
+  /** Transport used for the requests. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** Waits between attempts; replaced in tests. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Details of a failed Supermodel API request.
+ */
+export interface SupermodelErrorDetails {
+  code: SupermodelErrorCode;
+  /** HTTP status of the last response, if there was one. */
+  status?: number;
+  /** Request id the API returned, for support requests. */
+  requestId?: string;
+  /** Requests sent, including retries and status checks. */
+  attempts?: number;
+  /** Error message from the response body. */
+  detail?: string;
+}
+
+/**
+ * A Supermodel API request that failed for good, after retries.
+ */
+export class SupermodelApiError extends Error implements SupermodelErrorDetails {
+  readonly code: SupermodelErrorCode;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly attempts?: number;
+  readonly detail?: string;
+
+  constructor(message: string, details: SupermodelErrorDetails) {
+    super(message);
+    this.name = 'SupermodelApiError';
+    this.code = details.code;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.attempts = details.attempts;
+    this.detail = details.detail;
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date.
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined when the header is missing or malformed
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.ceil(ms / 1000)}s`;
+}
+
+async function readErrorDetail(response: Response): Promise<string | undefined> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const detail = body?.message ?? body?.error?.message ?? body?.error;
+    return typeof detail === 'string' ? detail : undefined;
+  } catch {
+    return text.trim().slice(0, 200) || undefined;
+  }
+}
+
+async function createResponseError(response: Response, attempts: number): Promise<SupermodelApiError> {
+  const { status } = response;
+  const requestId = response.headers.get('x-request-id') ?? undefined;
+  const detail = await readErrorDetail(response);
+  const details = { status, requestId, attempts, detail };
+  const suffix = `${detail ? `: ${detail}` : ''}${requestId ? ` (request id ${requestId})` : ''}`;
+
+  if (status === 401 || status === 403) {
+    return new SupermodelApiError(
+      `Supermodel API rejected the API key (${status})${suffix}. Get your key at https://dashboard.supermodeltools.com`,
+      { code: 'unauthorized', ...details }
+    );
+  }
+  if (status === 413) {
+    return new SupermodelApiError(`Supermodel API rejected the archive as too large (413)${suffix}`, {
+      code: 'archive-too-large',
+      ...details,
+    });
+  }
+  if (status === 429) {
+    return new SupermodelApiError(`Supermodel API is still rate limiting after ${attempts} attempts${suffix}`, {
+      code: 'rate-limited',
+      ...details,
+    });
+  }
+  if (status >= 500 || status === 408) {
+    return new SupermodelApiError(`Supermodel API failed with ${status} after ${attempts} attempts${suffix}`, {
+      code: 'server-error',
+      ...details,
+    });
+  }
+  return new SupermodelApiError(`Supermodel API request failed with ${status}${suffix}`, {
+    code: 'client-error',
+    ...details,
+  });
+}
+
+function createTimeoutError(timeoutMs: number, attempts: number, status?: number): SupermodelApiError {
+  return new SupermodelApiError(
+    `Supermodel API did not return a graph within ${formatSeconds(timeoutMs)}; raise api-timeout for large repositories`,
+    { code: 'timeout', status, attempts }
+  );
+}
+
+function toPollRequest(init: RequestInit | undefined): RequestInit {
+  const headers = new Headers(init?.headers);
+  headers.delete('content-type');
+  return { method: 'GET', headers };
+}
+
+/**
+ * Creates a fetch function for the Supermodel SDK that survives transient failures.
+ * Failed requests (network errors, 408, 429 and 5xx) are retried with exponential backoff,
+ * waiting at least as long as the Retry-After header asks. A 202 Accepted answer means the
+ * analysis runs asynchronously: its Location is polled, or the request resent with the same
+ * idempotency key, until the graph is ready. Everything shares one overall deadline.
+ * Other failures throw a SupermodelApiError instead of returning the response.
+ * @param options - Timeout, retry and polling settings
+ * @returns Fetch function to pass as the SDK's `fetchApi`
+ */
+export function createResilientFetch(options: SupermodelClientOptions = {}): typeof fetch {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_API_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? 4;
+  const initialDelayMs = options.initialDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const pollIntervalMs = options.pollIntervalMs ?? 5000;
+  const logger = options.logger ?? core;
+  const send = options.fetch ?? fetch;
+  const sleep = options.sleep ?? defaultSleep;
+
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const deadline = Date.now() + timeoutMs;
+    let url = input instanceof Request ? input.url : String(input);
+    let request = init;
+    let attempts = 0;
+    let retries = 0;
+    let lastStatus: number | undefined;
+
+    const wait = async (ms: number) => {
+      if (Date.now() + ms >= deadline) {
+        throw createTimeoutError(timeoutMs, attempts, lastStatus);
+      }
+      await sleep(ms);
+    };
+
+    for (;;) {
+      attempts += 1;
+      let response: Response;
+      try {
+        response = await send(url, { ...request, signal: AbortSignal.timeout(Math.max(1, deadline - Date.now())) });
+      } catch (error: any) {
+        if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+          throw createTimeoutError(timeoutMs, attempts, lastStatus);
+        }
+        if (retries >= maxRetries) {
+          throw new SupermodelApiError(
+            `Could not reach the Supermodel API after ${attempts} attempts: ${error?.cause?.message ?? error?.message ?? error}`,
+            { code: 'network', attempts }
+          );
+        }
+        const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** retries);
+        retries += 1;
+        logger.warning(`Supermodel API request failed (${error?.message ?? error}), retrying in ${formatSeconds(delay)}`);
+        await wait(delay);
+        continue;
+      }
+      lastStatus = response.status;
+
+      if (response.status === 202) {
+        const location = response.headers.get('location');
+        const delay = parseRetryAfter(response.headers.get('retry-after')) ?? pollIntervalMs;
+        await response.body?.cancel();
+        if (location) {
+          // Poll the status resource instead of uploading the archive again.
+          url = new URL(location, url).toString();
+          request = toPollRequest(request);
+        }
+        logger.info(`Supermodel is still analyzing, checking again in ${formatSeconds(delay)}`);
+        await wait(delay);
+        continue;
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status) || retries >= maxRetries) {
+        throw await createResponseError(response, attempts);
+      }
+      const backoff = Math.min(maxDelayMs, initialDelayMs * 2 ** retries);
+      const delay = Math.max(backoff, parseRetryAfter(response.headers.get('retry-after')) ?? 0);
+      retries += 1;
+      await response.body?.cancel();
+      logger.warning(
+        `Supermodel API answered ${response.status}, retrying in ${formatSeconds(delay)} ` +
+        `(retry ${retries} of ${maxRetries})`
+      );
+      await wait(delay);
+    }
+  };
+}
+
+/**
+ * Checks an archive against the upload limit before it is sent.
+ * @param sizeBytes - Size of the archive
+ * @param maxBytes - Largest accepted size; no limit when zero
+ * @param ref - Ref the archive was built from, for the message
+ * @throws SupermodelApiError with code `archive-too-large` when the archive is bigger
+ */
+export function assertArchiveSize(sizeBytes: number, maxBytes: number, ref: string): void {
+  if (maxBytes > 0 && sizeBytes > maxBytes) {
+    const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    throw new SupermodelApiError(
+      `Archive of ${ref} is ${megabytes(sizeBytes)} MB, above the ${megabytes(maxBytes)} MB limit. ` +
+      'Mark large generated or vendored files export-ignore in .gitattributes, or raise max-archive-size',
+      { code: 'archive-too-large' }
+    );
+  }
+}
+
+/**
+ * Unwraps the error thrown by an SDK call made with createResilientFetch.
+ * @param error - Error thrown by the SDK
+ * @returns The SupermodelApiError behind it, or the error itself
+ */
+export function toSupermodelError(error: unknown): unknown {
+  // The SDK wraps errors thrown by fetchApi in a FetchError and keeps the original as cause.
+  const cause = (error as { cause?: unknown })?.cause;
+  return cause instanceof SupermodelApiError ? cause : error;
+}
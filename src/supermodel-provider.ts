@@ -0,0 +1,125 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Configuration, DefaultApi } from '@supermodeltools/sdk';
+import { getTreeHash } from './git-tree';
+import { CodeGraph, GraphProvider, Logger } from './graph-provider';
+import {
+  DEFAULT_MAX_ARCHIVE_BYTES,
+  SupermodelClientOptions,
+  assertArchiveSize,
+  createResilientFetch,
+  toSupermodelError,
+} from './supermodel-client';
+
+/**
+ * Settings for the Supermodel API provider.
+ */
+export interface SupermodelProviderOptions {
+  apiKey: string;
+  basePath?: string;
+  /** Destination of progress messages. Defaults to the Actions log. */
+  logger?: Logger;
+  /** Timeout, retry and polling settings of the API requests. */
+  client?: SupermodelClientOptions;
+  /** Largest archive to upload; no limit when zero. Defaults to DEFAULT_MAX_ARCHIVE_BYTES. */
+  maxArchiveBytes?: number;
+}
+
+async function createZipArchive(
+  workspacePath: string,
+  ref: string,
+  maxArchiveBytes: number,
+  logger: Logger
+): Promise<string> {
+  const label = ref === 'HEAD' ? 'repo' : ref.replace(/[^\w.-]/g, '_').slice(0, 40);
+  const zipPath = path.join(workspacePath, `.circular-dependency-hunter-${label}.zip`);
+
+  logger.info(`Creating zip archive of ${ref}...`);
+
+  await exec.exec('git', ['archive', '-o', zipPath, ref], {
+    cwd: workspacePath,
+    silent: true,
+  });
+
+  const stats = await fs.stat(zipPath);
+  logger.info(`Archive size: ${stats.size} bytes (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
+  try {
+    assertArchiveSize(stats.size, maxArchiveBytes, ref);
+  } catch (error) {
+    await fs.unlink(zipPath);
+    throw error;
+  }
+
+  return zipPath;
+}
+
+async function generateIdempotencyKey(workspacePath: string, ref: string): Promise<string> {
+  // Keyed by tree rather than commit, so rebases and merges with identical contents reuse
+  // the analysis the API already ran.
+  const treeHash = await getTreeHash(workspacePath, ref);
+  const repoName = path.basename(workspacePath);
+
+  return `${repoName}:supermodel:${treeHash}`;
+}
+
+async function fetchGraph(api: DefaultApi, zipPath: string, baseIdempotencyKey: string, logger: Logger): Promise<any> {
+  const zipBuffer = await fs.readFile(zipPath);
+  const zipBlob = new Blob([zipBuffer], { type: 'application/zip' });
+
+  let response: any = await api.generateDependencyGraph({
+    idempotencyKey: `${baseIdempotencyKey}:dep`,
+    file: zipBlob,
+  });
+
+  if (!response?.graph || ((response.graph.nodes?.length ?? 0) === 0 && (response.graph.relationships?.length ?? 0) === 0)) {
+    logger.warning('Dependency graph empty, falling back to parse graph');
+    response = await api.generateParseGraph({
+      idempotencyKey: `${baseIdempotencyKey}:parse`,
+      file: zipBlob,
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Creates a provider that zips the tree with `git archive` and uploads it to the Supermodel API.
+ * Transient API failures are retried; lasting ones throw a SupermodelApiError.
+ * @param options - API key, endpoint, request settings and archive limit
+ * @returns Graph provider backed by the Supermodel API
+ */
+export function createSupermodelProvider(options: SupermodelProviderOptions): GraphProvider {
+  const logger = options.logger ?? core;
+  const api = new DefaultApi(new Configuration({
+    basePath: options.basePath || 'https://api.supermodeltools.com',
+    apiKey: options.apiKey,
+    fetchApi: createResilientFetch({ logger, ...options.client }),
+  }));
+  const maxArchiveBytes = options.maxArchiveBytes ?? DEFAULT_MAX_ARCHIVE_BYTES;
+
+  return {
+    name: 'supermodel',
+    async generateGraph(workspacePath: string, ref: string): Promise<CodeGraph> {
+      const zipPath = await createZipArchive(workspacePath, ref, maxArchiveBytes, logger);
+      try {
+        const idempotencyKey = await generateIdempotencyKey(workspacePath, ref);
+
+        logger.info('Analyzing codebase with Supermodel...');
+        const response = await fetchGraph(api, zipPath, idempotencyKey, logger).catch(error => {
+          throw toSupermodelError(error);
+        });
+
+        return {
+          nodes: response?.graph?.nodes || [],
+          relationships: response?.graph?.relationships || [],
+          message: response?.message,
+          stats: response?.stats,
+        };
+      } finally {
+        await fs.unlink(zipPath);
+      }
+    },
+  };
+}